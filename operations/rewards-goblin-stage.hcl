@@ -56,9 +56,7 @@ job "rewards-goblin-stage" {
         {{- range service "container-registry" }}
         CONTAINER_REGISTRY_ADDR="{{ .Address }}:{{ .Port }}"
         {{- end }}
-        {{- range service "wuzzy-cu" }}
-        CU_URL="http://{{ .Address }}:{{ .Port }}"
-        {{- end }}
+        CU_URLS="{{ range service "wuzzy-cu" }}http://{{ .Address }}:{{ .Port }},{{ end }}https://cu.ao-testnet.xyz"
         EOF
         env = true
         destination = "local/config.env"
@@ -71,6 +69,17 @@ job "rewards-goblin-stage" {
         destination = "secrets/wallet.json"
       }
 
+      template {
+        data = <<-EOF
+        {{- with secret `kv/wuzzy/rewards-goblin-stage` }}
+        PRODUCER_API_KEYS="{{ .Data.data.PRODUCER_API_KEYS }}"
+        PRODUCER_HMAC_SECRETS="{{ .Data.data.PRODUCER_HMAC_SECRETS }}"
+        {{- end }}
+        EOF
+        env = true
+        destination = "secrets/producer-auth.env"
+      }
+
       resources {
         cpu    = 1024
         memory = 1024
@@ -82,7 +91,7 @@ job "rewards-goblin-stage" {
 
         check {
           type     = "http"
-          path     = "/"
+          path     = "/health/ready"
           interval = "10s"
           timeout  = "10s"
         }
@@ -0,0 +1,103 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  ParseEnumPipe,
+  Post,
+  UseGuards,
+  UsePipes,
+  ValidationPipe
+} from '@nestjs/common'
+import { AdminAuthGuard } from '../auth/admin-auth.guard'
+import { Operator } from '../auth/operator.decorator'
+import type { OperatorIdentity } from '../auth/operator.types'
+import { AuditService } from '../audit/audit.service'
+import { WalletValidator } from '../utils/wallet.validator'
+import { AbuseService } from './abuse.service'
+import type { DenyListType } from './abuse.types'
+import { DENY_LIST_TYPES, DenyListEntryDto } from './dto/deny-list-entry.dto'
+
+/**
+ * Deny-list of wallets, IPs and producers whose events are never rewarded
+ */
+@Controller('admin/abuse/deny-list')
+@UseGuards(AdminAuthGuard)
+@UsePipes(
+  new ValidationPipe({
+    whitelist: true,
+    forbidNonWhitelisted: true,
+    transform: true
+  })
+)
+export class AbuseController {
+  constructor(
+    private readonly abuseService: AbuseService,
+    private readonly auditService: AuditService
+  ) {}
+
+  @Get()
+  async list() {
+    return { entries: await this.abuseService.listDenied() }
+  }
+
+  @Post()
+  async add(
+    @Body() dto: DenyListEntryDto,
+    @Operator() operator: OperatorIdentity
+  ) {
+    const value = this.normalize(dto.type, dto.value)
+    const entry = await this.abuseService.deny(
+      dto.type,
+      value,
+      dto.reason,
+      `operator:${operator.id}`
+    )
+    await this.auditService.record({
+      action: 'admin.deny-list-add',
+      actor: `operator:${operator.id}`,
+      wallet: dto.type === 'wallet' ? value : undefined,
+      reason: dto.reason,
+      details: { type: dto.type, value }
+    })
+
+    return entry
+  }
+
+  @Delete(':type/:value')
+  async remove(
+    @Param('type', new ParseEnumPipe(DENY_LIST_TYPES)) type: DenyListType,
+    @Param('value') value: string,
+    @Operator() operator: OperatorIdentity
+  ) {
+    const normalized = this.normalize(type, value)
+    if (!(await this.abuseService.allow(type, normalized))) {
+      throw new NotFoundException(`${type} ${normalized} is not deny-listed`)
+    }
+    await this.auditService.record({
+      action: 'admin.deny-list-remove',
+      actor: `operator:${operator.id}`,
+      wallet: type === 'wallet' ? normalized : undefined,
+      details: { type, value: normalized }
+    })
+
+    return { type, value: normalized, removed: true }
+  }
+
+  private normalize(type: DenyListType, value: string): string {
+    if (type !== 'wallet') {
+      return value
+    }
+
+    const validation = WalletValidator.validateAndNormalize(value)
+    if (!validation.valid || !validation.normalized) {
+      throw new BadRequestException(
+        `Wallet validation failed: ${validation.error}`
+      )
+    }
+    return validation.normalized
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common'
+import { AbuseService } from './abuse.service'
+import { AbuseController } from './abuse.controller'
+import { RedisModule } from '../redis/redis.module'
+import { AuditModule } from '../audit/audit.module'
+import { AuthModule } from '../auth/auth.module'
+
+@Module({
+  imports: [RedisModule, AuditModule, AuthModule],
+  controllers: [AbuseController],
+  providers: [AbuseService],
+  exports: [AbuseService]
+})
+export class AbuseModule {}
@@ -0,0 +1,193 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { REDIS_CLIENT } from '../redis/redis.module'
+import { AbuseService } from './abuse.service'
+import type { AbuseAssessment } from './abuse.types'
+
+const WALLET = 'vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw'
+
+/**
+ * In-memory stand-in for the Redis commands the service uses, evaluating the
+ * sliding window script as Redis would
+ */
+function createRedis() {
+  const windows = new Map<string, Map<string, number>>()
+  const strings = new Map<string, string>()
+  const denyList = new Map<string, string>()
+
+  return {
+    windows,
+    eval: jest.fn(
+      (_script: string, _keys: number, key: string, ...argv: unknown[]) => {
+        const [now, windowMs, member] = [
+          Number(argv[0]),
+          Number(argv[1]),
+          String(argv[2])
+        ]
+        const window = windows.get(key) ?? new Map<string, number>()
+        for (const [existing, score] of window) {
+          if (score <= now - windowMs) {
+            window.delete(existing)
+          }
+        }
+        if (!window.has(member)) {
+          window.set(member, now)
+        }
+        windows.set(key, window)
+        return Promise.resolve(window.size)
+      }
+    ),
+    set: jest.fn((key: string, value: unknown) => {
+      if (strings.has(key)) {
+        return Promise.resolve(null)
+      }
+      strings.set(key, String(value))
+      return Promise.resolve('OK')
+    }),
+    get: jest.fn((key: string) => Promise.resolve(strings.get(key) ?? null)),
+    pexpire: jest.fn((key: string) =>
+      Promise.resolve(strings.has(key) ? 1 : 0)
+    ),
+    hset: jest.fn((_key: string, field: string, value: string) => {
+      denyList.set(field, value)
+      return Promise.resolve(1)
+    }),
+    hdel: jest.fn((_key: string, field: string) =>
+      Promise.resolve(denyList.delete(field) ? 1 : 0)
+    ),
+    hmget: jest.fn((_key: string, ...fields: string[]) =>
+      Promise.resolve(fields.map((field) => denyList.get(field) ?? null))
+    ),
+    hgetall: jest.fn(() => Promise.resolve(Object.fromEntries(denyList)))
+  }
+}
+
+describe('AbuseService', () => {
+  let abuseService: AbuseService
+  let redis: ReturnType<typeof createRedis>
+
+  const config: Record<string, string> = {
+    ABUSE_WALLET_RATE_LIMIT: '3',
+    ABUSE_IP_RATE_LIMIT: '10',
+    ABUSE_NEW_WALLET_EVENT_LIMIT: '5',
+    ABUSE_NEW_WALLETS_PER_IP_LIMIT: '2'
+  }
+
+  beforeEach(async () => {
+    redis = createRedis()
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        AbuseService,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] }
+        },
+        { provide: REDIS_CLIENT, useValue: redis }
+      ]
+    }).compile()
+
+    abuseService = app.get<AbuseService>(AbuseService)
+  })
+
+  it('should allow events within every limit', async () => {
+    await expect(
+      abuseService.assess({ jobId: '1', wallet: WALLET, ip: '203.0.113.7' })
+    ).resolves.toEqual({ decision: 'allow', signals: [] })
+  })
+
+  it('should hold wallets exceeding their rate limit for review', async () => {
+    for (const jobId of ['1', '2', '3']) {
+      await abuseService.assess({ jobId, wallet: WALLET })
+    }
+
+    const assessment = await abuseService.assess({ jobId: '4', wallet: WALLET })
+
+    expect(assessment.decision).toBe('review')
+    expect(assessment.signals).toEqual([
+      expect.objectContaining({
+        check: 'wallet-rate',
+        subject: WALLET,
+        count: 4,
+        limit: 3
+      })
+    ])
+  })
+
+  it('should not count retries of the same job twice', async () => {
+    for (let i = 0; i < 5; i++) {
+      await abuseService.assess({ jobId: '1', wallet: WALLET })
+    }
+
+    await expect(
+      abuseService.assess({ jobId: '1', wallet: WALLET })
+    ).resolves.toMatchObject({ decision: 'allow' })
+  })
+
+  it('should remember first seen times for a while after the latest event', async () => {
+    await abuseService.assess({ jobId: '1', wallet: WALLET })
+    await abuseService.assess({ jobId: '2', wallet: WALLET })
+
+    const key = `rewards:abuse:first-seen:${WALLET}`
+    // 24 times the default new wallet age of an hour
+    expect(redis.set).toHaveBeenCalledWith(
+      key,
+      expect.any(Number),
+      'PX',
+      86400000,
+      'NX'
+    )
+    expect(redis.pexpire).toHaveBeenCalledTimes(1)
+    expect(redis.pexpire).toHaveBeenCalledWith(key, 86400000)
+  })
+
+  it('should flag an IP sending events for many new wallets', async () => {
+    const wallets = ['a', 'b', 'c'].map((c) => c.repeat(43))
+
+    const assessments: AbuseAssessment[] = []
+    for (const [i, wallet] of wallets.entries()) {
+      assessments.push(
+        await abuseService.assess({
+          jobId: String(i),
+          wallet,
+          ip: '203.0.113.7'
+        })
+      )
+    }
+
+    expect(assessments.map(({ decision }) => decision)).toEqual([
+      'allow',
+      'allow',
+      'review'
+    ])
+    expect(assessments[2].signals).toEqual([
+      expect.objectContaining({
+        check: 'new-wallets-per-ip',
+        subject: '203.0.113.7',
+        count: 3
+      })
+    ])
+  })
+
+  it('should deny deny-listed producers until they are allowed again', async () => {
+    await abuseService.deny(
+      'producer',
+      'farm-bot',
+      'Badge farming',
+      'operator:alice'
+    )
+
+    await expect(
+      abuseService.assess({ jobId: '1', wallet: WALLET, producer: 'farm-bot' })
+    ).resolves.toMatchObject({
+      decision: 'deny',
+      signals: [{ check: 'deny-list', subject: 'producer:farm-bot' }]
+    })
+    expect(redis.eval).not.toHaveBeenCalled()
+
+    await expect(abuseService.allow('producer', 'farm-bot')).resolves.toBe(true)
+    await expect(
+      abuseService.assess({ jobId: '2', wallet: WALLET, producer: 'farm-bot' })
+    ).resolves.toMatchObject({ decision: 'allow' })
+  })
+})
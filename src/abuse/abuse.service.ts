@@ -0,0 +1,315 @@
+import { Inject, Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import Redis from 'ioredis'
+import { REDIS_CLIENT } from '../redis/redis.module'
+import { abuseSignals } from '../metrics/metrics'
+import type {
+  AbuseAssessment,
+  AbuseCheck,
+  AbuseSignal,
+  AbuseSubject,
+  DenyListEntry,
+  DenyListType
+} from './abuse.types'
+
+const KEY_PREFIX = 'rewards:abuse'
+// First seen times are kept for this many new wallet ages after a wallet's
+// latest event. Throwaway wallets are forgotten, should one return it counts
+// as new again.
+const FIRST_SEEN_TTL_AGES = 24
+
+// Add ARGV[3] to the sliding window in KEYS[1] at ARGV[1] (ms), drop members
+// older than ARGV[2] ms and return how many remain. NX keeps the first time a
+// member was seen, so retried jobs are not counted twice.
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+redis.call("zremrangebyscore", KEYS[1], "-inf", now - window)
+redis.call("zadd", KEYS[1], "NX", now, ARGV[3])
+redis.call("pexpire", KEYS[1], window)
+return redis.call("zcard", KEYS[1])
+`
+
+interface WindowLimit {
+  // 0 disables the check
+  limit: number
+  windowMs: number
+}
+
+/**
+ * Screens reward events before they count towards progress. Deny-listed
+ * wallets, IPs and producers are rejected, events tripping a sliding-window
+ * rate limit or a new wallet velocity check are held for review.
+ * - rewards:abuse:window:<check>:<subject>: sliding window sorted sets
+ * - rewards:abuse:first-seen:<wallet>: when a wallet sent its first event,
+ *   expiring once it has been inactive for FIRST_SEEN_TTL_AGES new wallet ages
+ * - rewards:abuse:deny-list: deny-list entries by <type>:<value>
+ */
+@Injectable()
+export class AbuseService {
+  private readonly logger = new Logger(AbuseService.name)
+  private readonly enabled: boolean
+  private readonly walletRate: WindowLimit
+  private readonly ipRate: WindowLimit
+  private readonly producerRate: WindowLimit
+  private readonly newWalletEvents: WindowLimit
+  private readonly newWalletsPerIp: WindowLimit
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(REDIS_CLIENT) private readonly redis: Redis
+  ) {
+    this.enabled =
+      (this.configService.get<string>('ABUSE_CHECKS_ENABLED', {
+        infer: true
+      }) ?? 'true') === 'true'
+    this.walletRate = this.readWindowLimit('WALLET_RATE', '30', '60000')
+    this.ipRate = this.readWindowLimit('IP_RATE', '60', '60000')
+    // Disabled by default, a single producer sends every event of its users
+    this.producerRate = this.readWindowLimit('PRODUCER_RATE', '0', '60000')
+
+    // Wallets are new for an hour after their first event by default
+    const newWalletAgeMs = this.readInt('ABUSE_NEW_WALLET_AGE_MS', '3600000')
+    this.newWalletEvents = {
+      limit: this.readInt('ABUSE_NEW_WALLET_EVENT_LIMIT', '20'),
+      windowMs: newWalletAgeMs
+    }
+    this.newWalletsPerIp = {
+      limit: this.readInt('ABUSE_NEW_WALLETS_PER_IP_LIMIT', '5'),
+      windowMs: newWalletAgeMs
+    }
+  }
+
+  /**
+   * Count the event against every limit and decide whether it may be
+   * rewarded
+   */
+  async assess(subject: AbuseSubject): Promise<AbuseAssessment> {
+    if (!this.enabled) {
+      return { decision: 'allow', signals: [] }
+    }
+
+    const denied = await this.findDenied(subject)
+    if (denied.length > 0) {
+      this.record(denied)
+      return { decision: 'deny', signals: denied }
+    }
+
+    const now = Date.now()
+    const firstSeenAt = await this.firstSeen(subject.wallet, now)
+    const isNew = now - firstSeenAt < this.newWalletEvents.windowMs
+
+    const checks = [
+      this.checkWindow(
+        'wallet-rate',
+        subject.wallet,
+        subject.jobId,
+        this.walletRate,
+        now
+      )
+    ]
+    if (subject.ip) {
+      checks.push(
+        this.checkWindow('ip-rate', subject.ip, subject.jobId, this.ipRate, now)
+      )
+    }
+    if (subject.producer) {
+      checks.push(
+        this.checkWindow(
+          'producer-rate',
+          subject.producer,
+          subject.jobId,
+          this.producerRate,
+          now
+        )
+      )
+    }
+    if (isNew) {
+      checks.push(
+        this.checkWindow(
+          'new-wallet-velocity',
+          subject.wallet,
+          subject.jobId,
+          this.newWalletEvents,
+          now
+        )
+      )
+    }
+    if (isNew && subject.ip) {
+      // Counts distinct new wallets seen from the IP rather than events
+      checks.push(
+        this.checkWindow(
+          'new-wallets-per-ip',
+          subject.ip,
+          subject.wallet,
+          this.newWalletsPerIp,
+          now
+        )
+      )
+    }
+    const signals = (await Promise.all(checks)).filter(
+      (signal): signal is AbuseSignal => signal !== null
+    )
+    if (signals.length === 0) {
+      return { decision: 'allow', signals }
+    }
+
+    this.record(signals)
+    this.logger.warn(
+      `Job ${subject.jobId} for ${subject.wallet} flagged for review: ${signals
+        .map(({ reason }) => reason)
+        .join('; ')}`
+    )
+    return { decision: 'review', signals }
+  }
+
+  async listDenied(): Promise<DenyListEntry[]> {
+    const entries = await this.redis.hgetall(this.denyListKey())
+
+    return Object.values(entries)
+      .map((entry) => JSON.parse(entry) as DenyListEntry)
+      .sort((a, b) => a.addedAt.localeCompare(b.addedAt))
+  }
+
+  async deny(
+    type: DenyListType,
+    value: string,
+    reason: string,
+    addedBy: string
+  ): Promise<DenyListEntry> {
+    const entry: DenyListEntry = {
+      type,
+      value,
+      reason,
+      addedBy,
+      addedAt: new Date().toISOString()
+    }
+    await this.redis.hset(
+      this.denyListKey(),
+      `${type}:${value}`,
+      JSON.stringify(entry)
+    )
+
+    this.logger.log(`Deny-listed ${type} ${value}: ${reason}`)
+    return entry
+  }
+
+  /**
+   * Remove a deny-list entry, false if there was none
+   */
+  async allow(type: DenyListType, value: string): Promise<boolean> {
+    const removed = await this.redis.hdel(
+      this.denyListKey(),
+      `${type}:${value}`
+    )
+
+    return removed > 0
+  }
+
+  private async findDenied(subject: AbuseSubject): Promise<AbuseSignal[]> {
+    const subjects = (
+      [
+        ['wallet', subject.wallet],
+        ['ip', subject.ip],
+        ['producer', subject.producer]
+      ] as const
+    ).filter((entry): entry is [DenyListType, string] => Boolean(entry[1]))
+
+    const entries = await this.redis.hmget(
+      this.denyListKey(),
+      ...subjects.map(([type, value]) => `${type}:${value}`)
+    )
+
+    return entries.flatMap((entry) => {
+      if (!entry) {
+        return []
+      }
+      const { type, value, reason } = JSON.parse(entry) as DenyListEntry
+      return [
+        {
+          check: 'deny-list' as const,
+          subject: `${type}:${value}`,
+          reason: `${type} ${value} is deny-listed: ${reason}`
+        }
+      ]
+    })
+  }
+
+  /**
+   * When the wallet sent its first event, now if this is the first. Every
+   * event extends how long it is remembered.
+   */
+  private async firstSeen(wallet: string, now: number): Promise<number> {
+    const key = `${KEY_PREFIX}:first-seen:${wallet}`
+    const ttlMs = this.newWalletEvents.windowMs * FIRST_SEEN_TTL_AGES
+    if (await this.redis.set(key, now, 'PX', ttlMs, 'NX')) {
+      return now
+    }
+
+    const [firstSeenAt] = await Promise.all([
+      this.redis.get(key),
+      this.redis.pexpire(key, ttlMs)
+    ])
+    return parseInt(firstSeenAt ?? String(now))
+  }
+
+  private async checkWindow(
+    check: AbuseCheck,
+    subject: string,
+    member: string,
+    { limit, windowMs }: WindowLimit,
+    now: number
+  ): Promise<AbuseSignal | null> {
+    if (limit <= 0) {
+      return null
+    }
+
+    const count = (await this.redis.eval(
+      SLIDING_WINDOW_SCRIPT,
+      1,
+      `${KEY_PREFIX}:window:${check}:${subject}`,
+      now,
+      windowMs,
+      member
+    )) as number
+    if (count <= limit) {
+      return null
+    }
+
+    return {
+      check,
+      subject,
+      count,
+      limit,
+      windowMs,
+      reason: `${check} ${subject}: ${count} in ${windowMs}ms exceeds ${limit}`
+    }
+  }
+
+  private record(signals: AbuseSignal[]) {
+    for (const { check } of signals) {
+      abuseSignals.inc({ check })
+    }
+  }
+
+  private readWindowLimit(
+    name: string,
+    defaultLimit: string,
+    defaultWindowMs: string
+  ): WindowLimit {
+    return {
+      limit: this.readInt(`ABUSE_${name}_LIMIT`, defaultLimit),
+      windowMs: this.readInt(`ABUSE_${name}_WINDOW_MS`, defaultWindowMs)
+    }
+  }
+
+  private readInt(key: string, defaultValue: string): number {
+    return parseInt(
+      this.configService.get<string>(key, { infer: true }) ?? defaultValue
+    )
+  }
+
+  private denyListKey(): string {
+    return `${KEY_PREFIX}:deny-list`
+  }
+}
@@ -0,0 +1,44 @@
+export type AbuseCheck =
+  | 'deny-list'
+  | 'wallet-rate'
+  | 'ip-rate'
+  | 'producer-rate'
+  | 'new-wallet-velocity'
+  | 'new-wallets-per-ip'
+
+export type AbuseDecision = 'allow' | 'review' | 'deny'
+
+export interface AbuseSignal {
+  check: AbuseCheck
+  // What tripped the check, e.g. the wallet, IP or producer ID
+  subject: string
+  // Events (or new wallets) in the window and the configured maximum
+  count?: number
+  limit?: number
+  windowMs?: number
+  reason: string
+}
+
+export interface AbuseAssessment {
+  decision: AbuseDecision
+  signals: AbuseSignal[]
+}
+
+export interface AbuseSubject {
+  jobId: string
+  // Normalized wallet the event was submitted for
+  wallet: string
+  // Client IP the producer reported in the event metadata
+  ip?: string
+  producer?: string
+}
+
+export type DenyListType = 'wallet' | 'ip' | 'producer'
+
+export interface DenyListEntry {
+  type: DenyListType
+  value: string
+  reason: string
+  addedBy: string
+  addedAt: string
+}
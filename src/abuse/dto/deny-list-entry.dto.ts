@@ -0,0 +1,18 @@
+import { IsIn, IsNotEmpty, IsString } from 'class-validator'
+import type { DenyListType } from '../abuse.types'
+
+export const DENY_LIST_TYPES: DenyListType[] = ['wallet', 'ip', 'producer']
+
+export class DenyListEntryDto {
+  @IsIn(DENY_LIST_TYPES)
+  type: DenyListType
+
+  // Wallets are normalized before they are listed
+  @IsString()
+  @IsNotEmpty()
+  value: string
+
+  @IsString()
+  @IsNotEmpty()
+  reason: string
+}
@@ -0,0 +1,24 @@
+import { Controller, Get, NotFoundException, Param } from '@nestjs/common'
+import { AchievementsService } from './achievements.service'
+
+@Controller('achievements')
+export class AchievementsController {
+  constructor(private readonly achievementsService: AchievementsService) {}
+
+  @Get()
+  async getCatalog() {
+    const achievements = await this.achievementsService.getCatalog()
+
+    return { total: achievements.length, achievements }
+  }
+
+  @Get(':id')
+  async getAchievement(@Param('id') id: string) {
+    const achievement = await this.achievementsService.getCatalogAchievement(id)
+    if (!achievement) {
+      throw new NotFoundException(`Achievement ${id} not found`)
+    }
+
+    return achievement
+  }
+}
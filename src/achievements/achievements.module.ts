@@ -1,8 +1,30 @@
 import { Module } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
 import { AchievementsService } from './achievements.service'
+import { AwardLedgerService } from './award-ledger.service'
+import { RulesModule } from '../rules/rules.module'
+import { RulesService } from '../rules/rules.service'
+import { RedisModule } from '../redis/redis.module'
+import { IdentityModule } from '../identity/identity.module'
+import { NamesModule } from '../names/names.module'
+import { AO_CLIENT, AoModule } from '../ao/ao.module'
+import { WalletAchievementsController } from './wallet-achievements.controller'
+import { AchievementsController } from './achievements.controller'
+import { AWARD_BACKEND } from './backends/award-backend'
+import { createAwardBackend } from './backends/award-backend.factory'
 
 @Module({
-  providers: [AchievementsService],
+  imports: [RulesModule, RedisModule, IdentityModule, NamesModule, AoModule],
+  controllers: [AchievementsController, WalletAchievementsController],
+  providers: [
+    AchievementsService,
+    AwardLedgerService,
+    {
+      provide: AWARD_BACKEND,
+      inject: [ConfigService, RulesService, AO_CLIENT],
+      useFactory: createAwardBackend
+    }
+  ],
   exports: [AchievementsService]
 })
 export class AchievementsModule {}
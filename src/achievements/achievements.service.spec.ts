@@ -0,0 +1,281 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { AchievementsService } from './achievements.service'
+import { RulesService } from '../rules/rules.service'
+import { AwardLedgerEntry, AwardLedgerService } from './award-ledger.service'
+import {
+  AWARD_BACKEND,
+  AwardNotSentError,
+  AwardRejectedError
+} from './backends/award-backend'
+import type { CheeseMintCollectionState } from './achievements.types'
+
+const ALICE = 'vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw'
+const BOB = '0x742D35CC6634c0532925A3b844BC9E7595F0BEb0'
+
+const mint = (id: string, name: string, points: number) => ({
+  id,
+  name,
+  created_at: 1,
+  created_by: 'owner',
+  description: `${name} description`,
+  points,
+  icon: `${id}-icon`,
+  category: 'search'
+})
+
+const state: CheeseMintCollectionState = {
+  owner: 'owner',
+  acl: { roles: {} },
+  cheese_mints_by_id: {
+    'mint-searcher': mint('mint-searcher', 'Wuzzy Searcher', 10),
+    'mint-image': mint('mint-image', 'Wuzzy Image Searcher', 20),
+    'mint-legacy': mint('mint-legacy', 'Legacy Badge', 5)
+  },
+  cheese_mints_by_address: {
+    [ALICE]: {
+      'mint-image': { awarded_by: 'goblin', awarded_at: 300, message_id: 'm3' },
+      'mint-searcher': {
+        awarded_by: 'goblin',
+        awarded_at: 100,
+        message_id: 'm1'
+      }
+    },
+    [BOB]: {
+      'mint-searcher': {
+        awarded_by: 'goblin',
+        awarded_at: 200,
+        message_id: 'm2'
+      }
+    }
+  }
+}
+
+describe('AchievementsService', () => {
+  let achievementsService: AchievementsService
+  let ledger: Map<string, AwardLedgerEntry>
+  let backend: {
+    type: string
+    initialize: jest.Mock
+    fetchState: jest.Mock
+    postAward: jest.Mock
+    confirmAward: jest.Mock
+  }
+
+  beforeEach(async () => {
+    backend = {
+      type: 'ao',
+      initialize: jest.fn().mockResolvedValue(undefined),
+      fetchState: jest.fn().mockResolvedValue(state),
+      postAward: jest.fn().mockResolvedValue('award-message-id'),
+      confirmAward: jest.fn().mockResolvedValue(undefined)
+    }
+
+    ledger = new Map()
+    const write =
+      (status: AwardLedgerEntry['status']) =>
+      (wallet: string, id: string, messageId?: string) => {
+        ledger.set(`${wallet}:${id}`, {
+          status,
+          messageId: messageId ?? ledger.get(`${wallet}:${id}`)?.messageId,
+          updatedAt: Date.now()
+        })
+        return Promise.resolve()
+      }
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        AchievementsService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn(() => undefined) }
+        },
+        {
+          provide: RulesService,
+          useValue: {
+            getRequiredAchievements: () => [
+              'Wuzzy Searcher',
+              'Wuzzy Image Searcher'
+            ]
+          }
+        },
+        { provide: AWARD_BACKEND, useValue: backend },
+        {
+          provide: AwardLedgerService,
+          useValue: {
+            withLock: (_wallet: string, _id: string, fn: () => unknown) => fn(),
+            get: (wallet: string, id: string) =>
+              Promise.resolve(ledger.get(`${wallet}:${id}`) ?? null),
+            markPending: write('pending'),
+            markConfirmed: write('confirmed'),
+            clear: (wallet: string, id: string) =>
+              Promise.resolve(ledger.delete(`${wallet}:${id}`))
+          }
+        }
+      ]
+    }).compile()
+
+    achievementsService = app.get<AchievementsService>(AchievementsService)
+    await achievementsService.onModuleInit()
+  })
+
+  describe('awardAchievement', () => {
+    it('should send an award once and confirm it in the ledger', async () => {
+      const first = await achievementsService.awardAchievement(
+        'Wuzzy Image Searcher',
+        BOB
+      )
+      const second = await achievementsService.awardAchievement(
+        'Wuzzy Image Searcher',
+        BOB
+      )
+
+      expect(first).toEqual({
+        achievement: 'Wuzzy Image Searcher',
+        achievementId: 'mint-image',
+        status: 'awarded',
+        messageId: 'award-message-id'
+      })
+      expect(second?.status).toBe('already-held')
+      expect(backend.postAward).toHaveBeenCalledTimes(1)
+      expect(ledger.get(`${BOB}:mint-image`)).toMatchObject({
+        status: 'confirmed',
+        messageId: 'award-message-id'
+      })
+    })
+
+    it('should report achievements missing from the catalog', async () => {
+      await expect(
+        achievementsService.awardAchievement('Wuzzy PDF Searcher', BOB)
+      ).resolves.toEqual({
+        achievement: 'Wuzzy PDF Searcher',
+        achievementId: null,
+        status: 'unknown-achievement'
+      })
+      expect(backend.postAward).not.toHaveBeenCalled()
+    })
+
+    it('should not send awards the wallet already holds', async () => {
+      const outcome = await achievementsService.awardAchievement(
+        'Wuzzy Searcher',
+        ALICE
+      )
+
+      expect(outcome?.status).toBe('already-held')
+      expect(backend.postAward).not.toHaveBeenCalled()
+    })
+
+    it('should fetch the result of a pending award instead of resending', async () => {
+      backend.confirmAward.mockRejectedValueOnce(new Error('CU timeout'))
+
+      await expect(
+        achievementsService.awardAchievement('Wuzzy Image Searcher', BOB)
+      ).rejects.toThrow('CU timeout')
+      expect(ledger.get(`${BOB}:mint-image`)?.status).toBe('pending')
+
+      await achievementsService.awardAchievement('Wuzzy Image Searcher', BOB)
+
+      expect(backend.postAward).toHaveBeenCalledTimes(1)
+      expect(backend.confirmAward).toHaveBeenCalledTimes(2)
+      expect(ledger.get(`${BOB}:mint-image`)?.status).toBe('confirmed')
+    })
+
+    it('should keep awards of unknown delivery pending instead of resending', async () => {
+      backend.postAward.mockRejectedValueOnce(new Error('socket hang up'))
+
+      await expect(
+        achievementsService.awardAchievement('Wuzzy Image Searcher', BOB)
+      ).rejects.toThrow('socket hang up')
+      expect(ledger.get(`${BOB}:mint-image`)?.status).toBe('pending')
+
+      await expect(
+        achievementsService.awardAchievement('Wuzzy Image Searcher', BOB)
+      ).rejects.toThrow('is pending confirmation')
+      expect(backend.postAward).toHaveBeenCalledTimes(1)
+    })
+
+    it('should forget awards that were not sent or were rejected', async () => {
+      backend.postAward.mockRejectedValueOnce(
+        new AwardNotSentError('connect ECONNREFUSED')
+      )
+      await expect(
+        achievementsService.awardAchievement('Wuzzy Image Searcher', BOB)
+      ).rejects.toThrow('connect ECONNREFUSED')
+      expect(ledger.has(`${BOB}:mint-image`)).toBe(false)
+
+      backend.confirmAward.mockRejectedValueOnce(
+        new AwardRejectedError('Permission Denied')
+      )
+      await expect(
+        achievementsService.awardAchievement('Wuzzy Image Searcher', BOB)
+      ).rejects.toThrow('Permission Denied')
+      expect(ledger.has(`${BOB}:mint-image`)).toBe(false)
+
+      await expect(
+        achievementsService.awardAchievement('Wuzzy Image Searcher', BOB)
+      ).resolves.toMatchObject({ status: 'awarded' })
+      expect(backend.postAward).toHaveBeenCalledTimes(3)
+    })
+  })
+
+  describe('getWalletAchievements', () => {
+    it('should join awards with mint metadata in award order', async () => {
+      const achievements =
+        await achievementsService.getWalletAchievements(ALICE)
+
+      expect(achievements.map(({ id }) => id)).toEqual([
+        'mint-searcher',
+        'mint-image'
+      ])
+      expect(achievements[1]).toMatchObject({
+        name: 'Wuzzy Image Searcher',
+        points: 20,
+        awarded_at: 300,
+        message_id: 'm3'
+      })
+    })
+
+    it('should return no achievements for unknown wallets', async () => {
+      await expect(
+        achievementsService.getWalletAchievements('unknown')
+      ).resolves.toEqual([])
+    })
+  })
+
+  describe('getCatalog', () => {
+    it('should compute holders, award times and awardability', async () => {
+      const searcher =
+        await achievementsService.getCatalogAchievement('mint-searcher')
+      expect(searcher).toMatchObject({
+        holders: 2,
+        holder_share: 1,
+        first_awarded_at: 100,
+        last_awarded_at: 200,
+        awardable: true
+      })
+
+      const legacy =
+        await achievementsService.getCatalogAchievement('mint-legacy')
+      expect(legacy).toMatchObject({
+        holders: 0,
+        first_awarded_at: null,
+        awardable: false
+      })
+    })
+
+    it('should reuse the catalog until the process state changes', async () => {
+      const catalog = await achievementsService.getCatalog()
+      await expect(achievementsService.getCatalog()).resolves.toBe(catalog)
+
+      backend.fetchState.mockResolvedValue({
+        ...state,
+        cheese_mints_by_address: {}
+      })
+      await achievementsService.getProcessState(true)
+
+      const refreshed = await achievementsService.getCatalog()
+      expect(refreshed).not.toBe(catalog)
+      expect(refreshed.every(({ holders }) => holders === 0)).toBe(true)
+    })
+  })
+})
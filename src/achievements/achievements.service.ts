@@ -1,121 +1,79 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common'
+import {
+  Inject,
+  Injectable,
+  Logger,
+  NotImplementedException,
+  OnModuleInit
+} from '@nestjs/common'
 import { ConfigService } from '@nestjs/config'
-import { createDataItemSigner } from '@permaweb/aoconnect'
-import { DryRunResult } from '@permaweb/aoconnect/dist/lib/dryrun'
-import { JWKInterface } from 'arweave/node/lib/wallet'
-import Arweave from 'arweave'
-import { readFileSync } from 'fs'
-import { sendAosMessage, sendAosDryRun } from '../utils/aos'
-
-interface CheeseMint {
-  id: string
-  name: string
-  created_at: number
-  updated_at?: number
-  created_by: string
-  description: string
-  points: number
-  icon: string
-  category: string
-}
-
-interface CheeseMintAward {
-  awarded_by: string
-  awarded_at: number
-  message_id: string
-}
-
-interface CheeseMintsById {
-  [cheeseMintId: string]: CheeseMint
-}
-
-interface CheeseMintsByAddress {
-  [address: string]: {
-    [cheeseMintId: string]: CheeseMintAward
-  }
-}
-
-interface CheeseMintCollectionACLState {
-  roles: { [role: string]: { [address: string]: boolean } }
-}
-
-interface CheeseMintCollectionState {
-  owner: string
-  acl: CheeseMintCollectionACLState
-  cheese_mints_by_id: CheeseMintsById
-  cheese_mints_by_address: CheeseMintsByAddress
-}
-
-export const ACHIEVEMENT_WUZZY_SEARCHER = 'Wuzzy Searcher'
-export const ACHIEVEMENT_WUZZY_VIDEO_SEARCHER = 'Wuzzy Video Searcher'
-export const ACHIEVEMENT_WUZZY_IMAGE_SEARCHER = 'Wuzzy Image Searcher'
-export const ACHIEVEMENT_WUZZY_ARNS_SEARCHER = 'Wuzzy ArNS Searcher'
-export const ACHIEVEMENT_WUZZY_AUDIO_SEARCHER = 'Wuzzy Audio Searcher'
-const REQUIRED_ACHIEVEMENTS = [
-  ACHIEVEMENT_WUZZY_SEARCHER,
-  ACHIEVEMENT_WUZZY_VIDEO_SEARCHER,
-  ACHIEVEMENT_WUZZY_IMAGE_SEARCHER,
-  ACHIEVEMENT_WUZZY_ARNS_SEARCHER,
-  ACHIEVEMENT_WUZZY_AUDIO_SEARCHER
-]
+import { RulesService } from '../rules/rules.service'
+import { AwardLedgerEntry, AwardLedgerService } from './award-ledger.service'
+import { markStateCacheUpdated, stateCacheRequests } from '../metrics/metrics'
+import {
+  AwardBatchError,
+  AwardBatchItemOutcome
+} from './backends/award-batcher'
+import {
+  AWARD_BACKEND,
+  AwardBackend,
+  AwardNotSentError,
+  AwardRejectedError,
+  RevocationUnsupportedError
+} from './backends/award-backend'
+import type {
+  AwardOutcome,
+  CatalogAchievement,
+  CheeseMintCollectionState,
+  RevocationOutcome,
+  WalletAchievement
+} from './achievements.types'
+
+type SendAwardResult = Pick<AwardOutcome, 'status' | 'messageId'>
 
 @Injectable()
 export class AchievementsService implements OnModuleInit {
   private readonly logger = new Logger(AchievementsService.name)
-  private signer: ReturnType<typeof createDataItemSigner>
-  private readonly processId: string
-  private walletAddress: string
   private achievementIdsByName: Map<string, string> = new Map()
-  private jwk: JWKInterface
 
   // State cache with TTL
   private stateCache: CheeseMintCollectionState | null = null
   private stateCacheTimestamp: number = 0
+  // Last successful fetch, unlike the cache timestamp kept on invalidation
+  private stateFetchedAt: number | null = null
   private readonly stateCacheTtlMs: number
-
-  constructor(private readonly configService: ConfigService) {
-    this.processId = this.configService.get<string>(
-      'AO_CHEESE_MINT_PROCESS_ID',
-      { infer: true }
-    ) as string
-
+  private readonly pendingAwardTimeoutMs: number
+  // Catalog computed from the state object it was built for
+  private catalogCache: {
+    state: CheeseMintCollectionState
+    catalog: CatalogAchievement[]
+  } | null = null
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly rulesService: RulesService,
+    private readonly awardLedger: AwardLedgerService,
+    @Inject(AWARD_BACKEND) private readonly backend: AwardBackend
+  ) {
     // Default TTL of 5 minutes, configurable via env
     this.stateCacheTtlMs = parseInt(
       this.configService.get<string>('AO_STATE_CACHE_TTL_MS', {
         infer: true
       }) ?? '300000'
     )
+
+    // Default of 5 minutes, configurable via env
+    this.pendingAwardTimeoutMs = parseInt(
+      this.configService.get<string>('AWARD_PENDING_TIMEOUT_MS', {
+        infer: true
+      }) ?? '300000'
+    )
   }
 
   async onModuleInit() {
-    // Load wallet JWK and create signer
-    const jwkPath = this.configService.get<string>('AO_WALLET_JWK_PATH', {
-      infer: true
-    }) as string
-
-    if (!jwkPath) {
-      throw new Error('AO_WALLET_JWK_PATH is required in environment config')
-    }
-
-    if (!this.processId) {
-      throw new Error(
-        'AO_CHEESE_MINT_PROCESS_ID is required in environment config'
-      )
-    }
+    this.logger.log(`Using ${this.backend.type} award backend`)
 
     try {
-      const jwkData = readFileSync(jwkPath, 'utf-8')
-      this.jwk = JSON.parse(jwkData) as JWKInterface
-      this.signer = createDataItemSigner(this.jwk)
-      this.walletAddress = await this.getWalletAddressFromJwk()
-
-      this.logger.log(`AO wallet loaded from ${jwkPath}`)
-      this.logger.log(`Wallet address: ${this.walletAddress}`)
-      this.logger.log(
-        `Connected to cheese-mint-collection process: ${this.processId}`
-      )
-
-      // Verify permissions and load achievement IDs
+      await this.backend.initialize()
       await this.verifyInitialization()
     } catch (error) {
       const err = error as Error
@@ -126,22 +84,17 @@ export class AchievementsService implements OnModuleInit {
     }
   }
 
-  private async getWalletAddressFromJwk(): Promise<string> {
-    return await Arweave.init({}).wallets.jwkToAddress(this.jwk)
-  }
-
   /**
-   * Verify that the wallet has proper ACL permissions and load achievement IDs
+   * Load achievement IDs and verify every rule's achievement exists
    */
   private async verifyInitialization(): Promise<void> {
-    this.logger.log('Verifying AO process permissions and achievements...')
+    this.logger.log('Verifying achievements...')
 
     try {
       const state = await this.getProcessState()
-      this.verifyAclPermissions(state)
       this.loadAchievementIds(state)
 
-      this.logger.log('AO process initialization verified successfully')
+      this.logger.log('Award backend initialization verified successfully')
     } catch (error) {
       const err = error as Error
       this.logger.error(`Failed to verify initialization: ${err.message}`)
@@ -152,7 +105,7 @@ export class AchievementsService implements OnModuleInit {
   /**
    * Get process state with caching
    */
-  private async getProcessState(
+  async getProcessState(
     forceRefresh = false
   ): Promise<CheeseMintCollectionState> {
     const now = Date.now()
@@ -163,100 +116,66 @@ export class AchievementsService implements OnModuleInit {
       this.logger.debug(
         `Using cached state (age: ${Math.round(cacheAge / 1000)}s)`
       )
+      stateCacheRequests.inc({ result: 'hit' })
       return this.stateCache
     }
 
     // Fetch fresh state
     this.logger.debug('Fetching fresh process state...')
-    const dryRunResponse = await sendAosDryRun({
-      processId: this.processId,
-      tags: [{ name: 'Action', value: 'View-State' }]
-    })
-
-    const result = dryRunResponse.result
-    const info = this.parseProcessInfo(result)
+    stateCacheRequests.inc({ result: 'miss' })
+    const info = await this.backend.fetchState()
 
     // Update cache
     this.stateCache = info
     this.stateCacheTimestamp = now
+    this.stateFetchedAt = now
+    markStateCacheUpdated(now)
     this.logger.debug('Process state cached')
 
     return info
   }
 
   /**
-   * Invalidate the state cache
+   * Re-sync from the backend: refetch the process state and reload the
+   * achievement name to ID map
    */
-  private invalidateStateCache(): void {
-    this.logger.debug('Invalidating state cache')
-    this.stateCache = null
-    this.stateCacheTimestamp = 0
+  async refreshState(): Promise<{ achievements: number; wallets: number }> {
+    const info = await this.getProcessState(true)
+    this.loadAchievementIds(info)
+
+    return {
+      achievements: this.achievementIdsByName.size,
+      wallets: Object.keys(info.cheese_mints_by_address ?? {}).length
+    }
   }
 
   /**
-   * Parse process info from dry run result
+   * When the process state was last fetched successfully, null before the
+   * first fetch
    */
-  private parseProcessInfo(result: DryRunResult): CheeseMintCollectionState {
-    try {
-      // Type guard for messages array
-      if (
-        !result.Messages ||
-        !Array.isArray(result.Messages) ||
-        result.Messages.length === 0
-      ) {
-        throw new Error('No messages in dry run result')
-      }
-
-      // Safe access with type assertion
-      const messages = result.Messages as Array<{ Data?: string }>
-      const firstMessageData = messages[0]?.Data
-
-      if (!firstMessageData) {
-        throw new Error('No message data in dry run result')
-      }
-
-      return JSON.parse(firstMessageData) as CheeseMintCollectionState
-    } catch (err: unknown) {
-      const error = err as Error
-      this.logger.error(`Failed to parse process info: ${error.message}`)
-      this.logger.debug(`Raw result: ${JSON.stringify(result)}`)
-      throw new Error('Invalid process info format')
-    }
+  getStateFetchedAt(): number | null {
+    return this.stateFetchedAt
   }
 
   /**
-   * Verify that the wallet has Award-Cheese-Mint permission
+   * Throw unless the (cached) process state still grants the backend
+   * permission to award
    */
-  private verifyAclPermissions(info: CheeseMintCollectionState): void {
-    if (!info.acl || !info.acl.roles) {
-      throw new Error('No ACL found in process info')
-    }
-
-    const awardPermissions = info.acl.roles['Award-Cheese-Mint']
-    if (!awardPermissions || typeof awardPermissions !== 'object') {
-      throw new Error('Award-Cheese-Mint permission not configured in ACL')
-    }
-
-    if (!awardPermissions[this.walletAddress]) {
-      this.logger.error(
-        `Wallet ${this.walletAddress} is not in Award-Cheese-Mint ACL`
-      )
-      const allowedAddresses = Object.keys(awardPermissions).filter(
-        (addr) => awardPermissions[addr]
-      )
-      this.logger.error(`Allowed addresses: ${allowedAddresses.join(', ')}`)
-      throw new Error(
-        'Wallet does not have Award-Cheese-Mint permission in AO process'
-      )
-    }
+  async verifyAwardPermissions(): Promise<void> {
+    this.backend.verifyPermissions(await this.getProcessState())
+  }
 
-    this.logger.log(
-      `✓ Wallet ${this.walletAddress} has Award-Cheese-Mint permission`
-    )
+  /**
+   * Invalidate the state cache
+   */
+  private invalidateStateCache(): void {
+    this.logger.debug('Invalidating state cache')
+    this.stateCache = null
+    this.stateCacheTimestamp = 0
   }
 
   /**
-   * Load achievement IDs from process info
+   * Load achievement IDs from the backend state
    */
   private loadAchievementIds(info: CheeseMintCollectionState): void {
     if (!info.cheese_mints_by_id) {
@@ -270,8 +189,9 @@ export class AchievementsService implements OnModuleInit {
       this.achievementIdsByName.set(mint.name, id)
     }
 
-    // Verify all required achievements exist
-    const missingAchievements = REQUIRED_ACHIEVEMENTS.filter(
+    // Verify all achievements referenced by the reward rules exist
+    const requiredAchievements = this.rulesService.getRequiredAchievements()
+    const missingAchievements = requiredAchievements.filter(
       (name) => !this.achievementIdsByName.has(name)
     )
 
@@ -288,9 +208,9 @@ export class AchievementsService implements OnModuleInit {
     }
 
     this.logger.log(
-      `✓ Loaded ${this.achievementIdsByName.size} achievements from process`
+      `✓ Loaded ${this.achievementIdsByName.size} achievements from ${this.backend.type} backend`
     )
-    for (const name of REQUIRED_ACHIEVEMENTS) {
+    for (const name of requiredAchievements) {
       const id = this.achievementIdsByName.get(name)
       this.logger.log(`  - ${name}: ${id}`)
     }
@@ -310,65 +230,288 @@ export class AchievementsService implements OnModuleInit {
   }
 
   /**
-   * Award achievement by sending message to AO process
+   * Award achievement through the award backend. The award ledger
+   * guarantees the message is sent at most once per wallet and achievement.
    */
   async awardAchievement(
     achievementName: string,
     walletAddress: string
-  ): Promise<void> {
+  ): Promise<AwardOutcome> {
     const achievementId = this.getAchievementId(achievementName)
     if (!achievementId) {
-      this.logger.warn(`Achievement ID not found for: ${achievementName}`)
-      return
+      return {
+        achievement: achievementName,
+        achievementId: null,
+        status: 'unknown-achievement'
+      }
     }
 
-    const hasAchieved = await this.hasAchievement(walletAddress, achievementId)
+    const { status, messageId } = await this.awardLedger.withLock(
+      walletAddress,
+      achievementId,
+      () => this.sendAward(walletAddress, achievementId)
+    )
 
-    if (hasAchieved) {
+    return { achievement: achievementName, achievementId, status, messageId }
+  }
+
+  /**
+   * Revoke an achievement the wallet holds and forget it in the award ledger,
+   * so it can be awarded again later
+   */
+  async revokeAchievement(
+    achievementName: string,
+    walletAddress: string
+  ): Promise<RevocationOutcome> {
+    const achievementId = this.getAchievementId(achievementName)
+    if (!achievementId) {
+      return {
+        achievement: achievementName,
+        achievementId: null,
+        status: 'unknown-achievement'
+      }
+    }
+
+    return this.awardLedger.withLock(walletAddress, achievementId, async () => {
+      if (!(await this.hasAchievement(walletAddress, achievementId, true))) {
+        return {
+          achievement: achievementName,
+          achievementId,
+          status: 'not-held'
+        }
+      }
+
+      let messageId: string
+      try {
+        messageId = await this.backend.revokeAward(walletAddress, achievementId)
+      } catch (error) {
+        if (error instanceof RevocationUnsupportedError) {
+          throw new NotImplementedException(error.message)
+        }
+        throw error
+      }
+
+      this.invalidateStateCache()
+      await this.awardLedger.clear(walletAddress, achievementId)
+      this.logger.log(
+        `Revoked ${achievementId} from ${walletAddress}. Message ID: ${messageId}`
+      )
+
+      return {
+        achievement: achievementName,
+        achievementId,
+        status: 'revoked',
+        messageId
+      }
+    })
+  }
+
+  /**
+   * Send an award unless the ledger or process state shows it was already
+   * sent. Must be called while holding the ledger lock.
+   */
+  private async sendAward(
+    walletAddress: string,
+    achievementId: string
+  ): Promise<SendAwardResult> {
+    const entry = await this.awardLedger.get(walletAddress, achievementId)
+
+    if (entry?.status === 'confirmed') {
+      this.logger.debug(
+        `Wallet ${walletAddress} award ${achievementId} already confirmed, skipping`
+      )
+      return { status: 'already-held', messageId: entry.messageId }
+    }
+
+    if (entry?.status === 'pending') {
+      const reconciled = await this.reconcilePendingAward(
+        walletAddress,
+        achievementId,
+        entry
+      )
+      if (reconciled) {
+        return reconciled
+      }
+    } else if (await this.hasAchievement(walletAddress, achievementId)) {
       this.logger.debug(
         `Wallet ${walletAddress} already has achievement ${achievementId}, skipping`
       )
-      return
+      await this.awardLedger.markConfirmed(walletAddress, achievementId)
+      return { status: 'already-held' }
     }
 
     this.logger.log(
       `Tracking achievement for ${walletAddress} (${achievementId})`
     )
 
+    await this.awardLedger.markPending(walletAddress, achievementId)
+    if (this.backend.batchAward) {
+      return this.sendBatchedAward(walletAddress, achievementId)
+    }
+
+    let messageId: string
+    try {
+      messageId = await this.backend.postAward(walletAddress, achievementId)
+    } catch (error) {
+      const err = error as Error
+      this.logger.error(
+        `Failed to track achievement: ${err.message}`,
+        err.stack
+      )
+
+      // Sending again later is only safe when the award never got out,
+      // otherwise it stays pending until the state shows it or it times out
+      if (err instanceof AwardNotSentError) {
+        await this.awardLedger.clear(walletAddress, achievementId)
+      }
+      throw err
+    }
+
+    await this.awardLedger.markPending(walletAddress, achievementId, messageId)
+    await this.confirmAward(walletAddress, achievementId, messageId)
+
+    return { status: 'awarded', messageId }
+  }
+
+  /**
+   * Send an award through the batcher. Awards the MU never received are
+   * cleared from the ledger; delivered ones stay pending until the process
+   * state confirms them.
+   */
+  private async sendBatchedAward(
+    walletAddress: string,
+    achievementId: string
+  ): Promise<SendAwardResult> {
+    let outcome: AwardBatchItemOutcome
     try {
-      const { messageId, result } = await sendAosMessage({
-        processId: this.processId,
-        signer: this.signer,
-        tags: [
-          { name: 'Action', value: 'Award-Cheese-Mint' },
-          { name: 'Cheese-Mint-Id', value: achievementId },
-          { name: 'Award-To-Address', value: walletAddress }
-        ]
+      outcome = await this.backend.batchAward!({
+        walletAddress,
+        achievementId
       })
+    } catch (error) {
+      const err = error as AwardBatchError
+      this.logger.error(
+        `Failed to track achievement: ${err.message}`,
+        err.stack
+      )
+
+      if (!err.delivered) {
+        await this.awardLedger.clear(walletAddress, achievementId)
+      }
+      throw err
+    }
+
+    if (outcome.status === 'failed') {
+      await this.awardLedger.clear(walletAddress, achievementId)
+      throw new Error(
+        `Process rejected award of ${achievementId} to ${walletAddress}: ${outcome.error}`
+      )
+    }
+
+    // Invalidate cache after sending a message since state may have changed
+    this.invalidateStateCache()
+    await this.awardLedger.markConfirmed(
+      walletAddress,
+      achievementId,
+      outcome.messageId
+    )
+
+    this.logger.log(
+      `Achievement tracked successfully. Message ID: ${outcome.messageId}`
+    )
+    return {
+      status: outcome.status === 'already-held' ? 'already-held' : 'awarded',
+      messageId: outcome.messageId
+    }
+  }
+
+  /**
+   * Wait for a posted award to be applied and confirm it in the ledger.
+   * On failure the award stays pending, so retries fetch the result again
+   * instead of resending, unless the backend rejected it.
+   */
+  private async confirmAward(
+    walletAddress: string,
+    achievementId: string,
+    messageId: string
+  ): Promise<void> {
+    try {
+      await this.backend.confirmAward(messageId)
 
       // Invalidate cache after sending a message since state may have changed
       this.invalidateStateCache()
+      await this.awardLedger.markConfirmed(
+        walletAddress,
+        achievementId,
+        messageId
+      )
 
       this.logger.log(
         `Achievement tracked successfully. Message ID: ${messageId}`
       )
-      this.logger.debug(`AO Process result: ${JSON.stringify(result)}`)
     } catch (error) {
       const err = error as Error
       this.logger.error(
-        `Failed to track achievement: ${err.message}`,
+        `Failed to fetch result of award message ${messageId}: ${err.message}`,
         err.stack
       )
 
+      if (err instanceof AwardRejectedError) {
+        this.invalidateStateCache()
+        await this.awardLedger.clear(walletAddress, achievementId)
+      }
       throw err
     }
   }
 
+  /**
+   * Resolve an award left pending by an earlier attempt. Returns null when
+   * the award needs to be sent again.
+   */
+  private async reconcilePendingAward(
+    walletAddress: string,
+    achievementId: string,
+    entry: AwardLedgerEntry
+  ): Promise<SendAwardResult | null> {
+    if (await this.hasAchievement(walletAddress, achievementId, true)) {
+      await this.awardLedger.markConfirmed(
+        walletAddress,
+        achievementId,
+        entry.messageId
+      )
+      return { status: 'awarded', messageId: entry.messageId }
+    }
+
+    if (entry.messageId) {
+      this.logger.log(
+        `Award ${achievementId} to ${walletAddress} already sent as ${entry.messageId}, confirming`
+      )
+      await this.confirmAward(walletAddress, achievementId, entry.messageId)
+      return { status: 'awarded', messageId: entry.messageId }
+    }
+
+    // A worker stopped between marking the award pending and learning its
+    // message ID. Give the process time to apply a message that may have been
+    // delivered before sending again.
+    const pendingForMs = Date.now() - entry.updatedAt
+    if (pendingForMs < this.pendingAwardTimeoutMs) {
+      throw new Error(
+        `Award of ${achievementId} to ${walletAddress} is pending confirmation`
+      )
+    }
+
+    this.logger.warn(
+      `Award ${achievementId} to ${walletAddress} pending for ${Math.round(pendingForMs / 1000)}s without a message, resending`
+    )
+    return null
+  }
+
   private async hasAchievement(
     walletAddress: string,
-    achievementId: string
+    achievementId: string,
+    forceRefresh = false
   ): Promise<boolean> {
-    const state = await this.getProcessState()
+    const state = await this.getProcessState(forceRefresh)
     const awardsByAddress = state.cheese_mints_by_address[walletAddress]
 
     if (!awardsByAddress) {
@@ -377,4 +520,126 @@ export class AchievementsService implements OnModuleInit {
 
     return achievementId in awardsByAddress
   }
+
+  /**
+   * Cheese mints awarded to a wallet, joined with their catalog metadata and
+   * ordered by award time
+   */
+  async getWalletAchievements(
+    walletAddress: string
+  ): Promise<WalletAchievement[]> {
+    const state = await this.getProcessState()
+    const awards = state.cheese_mints_by_address[walletAddress] ?? {}
+
+    return Object.entries(awards)
+      .filter(([id]) => {
+        if (!state.cheese_mints_by_id[id]) {
+          this.logger.warn(
+            `Wallet ${walletAddress} holds unknown cheese mint ${id}, skipping`
+          )
+          return false
+        }
+        return true
+      })
+      .map(([id, award]) => {
+        const mint = state.cheese_mints_by_id[id]
+
+        return {
+          id,
+          name: mint.name,
+          description: mint.description,
+          icon: mint.icon,
+          points: mint.points,
+          category: mint.category,
+          awarded_at: award.awarded_at,
+          awarded_by: award.awarded_by,
+          message_id: award.message_id
+        }
+      })
+      .sort((a, b) => a.awarded_at - b.awarded_at)
+  }
+
+  /**
+   * Achievements held by any of the linked wallets of an identity. A cheese
+   * mint held by several of them counts once, with its earliest award.
+   */
+  async getLinkedWalletAchievements(
+    walletAddresses: string[]
+  ): Promise<WalletAchievement[]> {
+    const earliest = new Map<string, WalletAchievement>()
+    for (const walletAddress of walletAddresses) {
+      for (const achievement of await this.getWalletAchievements(
+        walletAddress
+      )) {
+        const held = earliest.get(achievement.id)
+        if (!held || achievement.awarded_at < held.awarded_at) {
+          earliest.set(achievement.id, achievement)
+        }
+      }
+    }
+
+    return Array.from(earliest.values()).sort(
+      (a, b) => a.awarded_at - b.awarded_at
+    )
+  }
+
+  /**
+   * Every cheese mint with holder counts, first/last award times and whether
+   * the loaded rules can award it
+   */
+  async getCatalog(): Promise<CatalogAchievement[]> {
+    const state = await this.getProcessState()
+    if (this.catalogCache?.state === state) {
+      return this.catalogCache.catalog
+    }
+
+    const awardable = new Set(this.rulesService.getRequiredAchievements())
+    const wallets = Object.values(state.cheese_mints_by_address)
+
+    const catalog = Object.entries(state.cheese_mints_by_id).map(
+      ([id, mint]) => {
+        let holders = 0
+        let firstAwardedAt: number | null = null
+        let lastAwardedAt: number | null = null
+
+        for (const awards of wallets) {
+          const award = awards[id]
+          if (!award) {
+            continue
+          }
+
+          holders++
+          firstAwardedAt = Math.min(
+            firstAwardedAt ?? award.awarded_at,
+            award.awarded_at
+          )
+          lastAwardedAt = Math.max(
+            lastAwardedAt ?? award.awarded_at,
+            award.awarded_at
+          )
+        }
+
+        return {
+          ...mint,
+          id,
+          holders,
+          holder_share: wallets.length > 0 ? holders / wallets.length : 0,
+          first_awarded_at: firstAwardedAt,
+          last_awarded_at: lastAwardedAt,
+          awardable: awardable.has(mint.name)
+        }
+      }
+    )
+
+    this.catalogCache = { state, catalog }
+    return catalog
+  }
+
+  async getCatalogAchievement(
+    achievementId: string
+  ): Promise<CatalogAchievement | undefined> {
+    const catalog = await this.getCatalog()
+
+    return catalog.find(({ id }) => id === achievementId)
+  }
 }
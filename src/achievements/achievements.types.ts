@@ -0,0 +1,101 @@
+export interface CheeseMint {
+  id: string
+  name: string
+  created_at: number
+  updated_at?: number
+  created_by: string
+  description: string
+  points: number
+  icon: string
+  category: string
+}
+
+export interface CheeseMintAward {
+  awarded_by: string
+  awarded_at: number
+  message_id: string
+}
+
+export interface CheeseMintsById {
+  [cheeseMintId: string]: CheeseMint
+}
+
+export interface CheeseMintsByAddress {
+  [address: string]: {
+    [cheeseMintId: string]: CheeseMintAward
+  }
+}
+
+export interface CheeseMintCollectionACLState {
+  roles: { [role: string]: { [address: string]: boolean } }
+}
+
+export interface CheeseMintCollectionState {
+  owner: string
+  acl: CheeseMintCollectionACLState
+  cheese_mints_by_id: CheeseMintsById
+  cheese_mints_by_address: CheeseMintsByAddress
+}
+
+/**
+ * An awarded cheese mint joined with its catalog metadata
+ */
+export interface WalletAchievement {
+  id: string
+  name: string
+  description: string
+  icon: string
+  points: number
+  category: string
+  awarded_at: number
+  awarded_by: string
+  message_id: string
+}
+
+/**
+ * A cheese mint with award statistics across all wallets
+ */
+export interface CatalogAchievement extends CheeseMint {
+  holders: number
+  // Share of wallets holding any cheese mint that hold this one
+  holder_share: number
+  first_awarded_at: number | null
+  last_awarded_at: number | null
+  // Whether this goblin's reward rules can award it
+  awardable: boolean
+}
+
+export type AwardStatus =
+  | 'awarded'
+  | 'already-held'
+  | 'unknown-achievement'
+  | 'skipped-by-rule'
+
+/**
+ * What happened to one achievement an event could award
+ */
+export interface AwardOutcome {
+  achievement: string
+  // Null when the achievement is not in the catalog
+  achievementId: string | null
+  status: AwardStatus
+  // Message that carried the award, when known
+  messageId?: string
+  // Rule that led to the outcome, set when processing events
+  rule?: string
+  // Why the rule was skipped
+  reason?: string
+}
+
+export type RevocationStatus = 'revoked' | 'not-held' | 'unknown-achievement'
+
+/**
+ * Result of revoking an achievement from a wallet
+ */
+export interface RevocationOutcome {
+  achievement: string
+  achievementId: string | null
+  status: RevocationStatus
+  // Message that carried the revocation
+  messageId?: string
+}
@@ -0,0 +1,161 @@
+import { Inject, Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { randomUUID } from 'crypto'
+import Redis from 'ioredis'
+import { REDIS_CLIENT } from '../redis/redis.module'
+
+const KEY_PREFIX = 'rewards:awards'
+const LOCK_POLL_INTERVAL_MS = 250
+// Confirmed awards are also in the process state, the ledger only needs to
+// outlive the state cache and any in-flight retries
+const CONFIRMED_TTL_SECONDS = 30 * 24 * 60 * 60
+const PENDING_TTL_SECONDS = 7 * 24 * 60 * 60
+
+// Delete the lock only if it is still held by this token
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`
+
+export type AwardLedgerStatus = 'pending' | 'confirmed'
+
+export interface AwardLedgerEntry {
+  status: AwardLedgerStatus
+  // Set once the MU accepted the award message
+  messageId?: string
+  updatedAt: number
+}
+
+/**
+ * Redis-backed ledger of award messages keyed by (wallet, cheese mint), so
+ * an award is sent at most once across workers, retries and restarts.
+ * - pending: about to send, or sent and awaiting its result
+ * - confirmed: the process has the award
+ */
+@Injectable()
+export class AwardLedgerService {
+  private readonly logger = new Logger(AwardLedgerService.name)
+  private readonly lockTtlMs: number
+  private readonly lockWaitMs: number
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(REDIS_CLIENT) private readonly redis: Redis
+  ) {
+    // Must cover a full send including AO retries, default 2 minutes
+    this.lockTtlMs = parseInt(
+      this.configService.get<string>('AWARD_LOCK_TTL_MS', { infer: true }) ??
+        '120000'
+    )
+    this.lockWaitMs = parseInt(
+      this.configService.get<string>('AWARD_LOCK_WAIT_MS', { infer: true }) ??
+        '30000'
+    )
+  }
+
+  /**
+   * Run fn while holding the distributed lock for (wallet, mint). Throws if
+   * the lock can't be acquired within AWARD_LOCK_WAIT_MS so the job retries.
+   */
+  async withLock<T>(
+    walletAddress: string,
+    achievementId: string,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const lockKey = `${KEY_PREFIX}:lock:${walletAddress}:${achievementId}`
+    const token = randomUUID()
+    const deadline = Date.now() + this.lockWaitMs
+
+    while (
+      !(await this.redis.set(lockKey, token, 'PX', this.lockTtlMs, 'NX'))
+    ) {
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `Award of ${achievementId} to ${walletAddress} is already in progress`
+        )
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_INTERVAL_MS))
+    }
+
+    try {
+      return await fn()
+    } finally {
+      await this.redis.eval(RELEASE_LOCK_SCRIPT, 1, lockKey, token)
+    }
+  }
+
+  async get(
+    walletAddress: string,
+    achievementId: string
+  ): Promise<AwardLedgerEntry | null> {
+    const entry = await this.redis.hgetall(
+      this.entryKey(walletAddress, achievementId)
+    )
+    if (!entry.status) {
+      return null
+    }
+
+    return {
+      status: entry.status as AwardLedgerStatus,
+      messageId: entry.messageId || undefined,
+      updatedAt: parseInt(entry.updatedAt, 10)
+    }
+  }
+
+  async markPending(
+    walletAddress: string,
+    achievementId: string,
+    messageId?: string
+  ): Promise<void> {
+    await this.write(walletAddress, achievementId, 'pending', messageId)
+  }
+
+  async markConfirmed(
+    walletAddress: string,
+    achievementId: string,
+    messageId?: string
+  ): Promise<void> {
+    await this.write(walletAddress, achievementId, 'confirmed', messageId)
+  }
+
+  /**
+   * Forget an entry, e.g. when the MU definitively rejected the message
+   */
+  async clear(walletAddress: string, achievementId: string): Promise<void> {
+    await this.redis.del(this.entryKey(walletAddress, achievementId))
+  }
+
+  private async write(
+    walletAddress: string,
+    achievementId: string,
+    status: AwardLedgerStatus,
+    messageId?: string
+  ): Promise<void> {
+    const key = this.entryKey(walletAddress, achievementId)
+    const fields: Record<string, string> = {
+      status,
+      updatedAt: `${Date.now()}`
+    }
+    if (messageId) {
+      fields.messageId = messageId
+    }
+
+    await this.redis
+      .multi()
+      .hset(key, fields)
+      .expire(
+        key,
+        status === 'confirmed' ? CONFIRMED_TTL_SECONDS : PENDING_TTL_SECONDS
+      )
+      .exec()
+    this.logger.debug(
+      `Award ledger ${walletAddress}/${achievementId} -> ${status}`
+    )
+  }
+
+  private entryKey(walletAddress: string, achievementId: string): string {
+    return `${KEY_PREFIX}:${walletAddress}:${achievementId}`
+  }
+}
@@ -0,0 +1,253 @@
+import { Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { createDataItemSigner } from '@permaweb/aoconnect'
+import { DryRunResult } from '@permaweb/aoconnect/dist/lib/dryrun'
+import { JWKInterface } from 'arweave/node/lib/wallet'
+import Arweave from 'arweave'
+import { readFileSync } from 'fs'
+import { AoClient, messageNotSent } from '../../utils/ao-client'
+import { fetchAosResult, postAosMessage, sendAosDryRun } from '../../utils/aos'
+import { AwardBatcher } from './award-batcher'
+import {
+  AwardBackend,
+  AwardBackendType,
+  AwardNotSentError,
+  AwardRejectedError,
+  RevocationUnsupportedError
+} from './award-backend'
+import type { CheeseMintCollectionState } from '../achievements.types'
+
+/**
+ * Awards cheese mints through the AO cheese-mint-collection process, signing
+ * messages with the configured Arweave wallet
+ */
+export class AoAwardBackend implements AwardBackend {
+  readonly type: AwardBackendType = 'ao'
+  readonly batchAward?: AwardBackend['batchAward']
+  private readonly logger = new Logger(AoAwardBackend.name)
+  private readonly processId: string
+  private signer: ReturnType<typeof createDataItemSigner>
+  private walletAddress: string
+  private jwk: JWKInterface
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly aoClient: AoClient
+  ) {
+    this.processId = this.configService.get<string>(
+      'AO_CHEESE_MINT_PROCESS_ID',
+      { infer: true }
+    ) as string
+
+    // Batching is disabled unless a batch window is configured
+    const batchWindowMs = parseInt(
+      this.configService.get<string>('AO_AWARD_BATCH_WINDOW_MS', {
+        infer: true
+      }) ?? '0'
+    )
+    if (batchWindowMs > 0) {
+      const batcher = new AwardBatcher({
+        windowMs: batchWindowMs,
+        maxSize: parseInt(
+          this.configService.get<string>('AO_AWARD_BATCH_MAX_SIZE', {
+            infer: true
+          }) ?? '50'
+        ),
+        postMessage: (tags, data) =>
+          postAosMessage(this.aoClient, {
+            processId: this.processId,
+            signer: this.signer,
+            tags,
+            data
+          }),
+        fetchResult: (messageId) =>
+          fetchAosResult(this.aoClient, {
+            processId: this.processId,
+            messageId
+          })
+      })
+      this.batchAward = (item) => batcher.submit(item)
+    }
+  }
+
+  async initialize(): Promise<void> {
+    // Load wallet JWK and create signer
+    const jwkPath = this.configService.get<string>('AO_WALLET_JWK_PATH', {
+      infer: true
+    }) as string
+
+    if (!jwkPath) {
+      throw new Error('AO_WALLET_JWK_PATH is required in environment config')
+    }
+
+    if (!this.processId) {
+      throw new Error(
+        'AO_CHEESE_MINT_PROCESS_ID is required in environment config'
+      )
+    }
+
+    const jwkData = readFileSync(jwkPath, 'utf-8')
+    this.jwk = JSON.parse(jwkData) as JWKInterface
+    this.signer = createDataItemSigner(this.jwk)
+    this.walletAddress = await Arweave.init({}).wallets.jwkToAddress(this.jwk)
+
+    this.logger.log(`AO wallet loaded from ${jwkPath}`)
+    this.logger.log(`Wallet address: ${this.walletAddress}`)
+    this.logger.log(
+      `Connected to cheese-mint-collection process: ${this.processId}`
+    )
+
+    this.logger.log('Verifying AO process permissions...')
+    const state = await this.fetchState()
+    try {
+      this.verifyPermissions(state)
+    } catch (error) {
+      const allowedAddresses = Object.entries(
+        state.acl?.roles?.['Award-Cheese-Mint'] ?? {}
+      )
+        .filter(([, allowed]) => allowed)
+        .map(([address]) => address)
+      this.logger.error(`Allowed addresses: ${allowedAddresses.join(', ')}`)
+      throw error
+    }
+
+    this.logger.log(
+      `✓ Wallet ${this.walletAddress} has Award-Cheese-Mint permission`
+    )
+  }
+
+  async fetchState(): Promise<CheeseMintCollectionState> {
+    const dryRunResponse = await sendAosDryRun(this.aoClient, {
+      processId: this.processId,
+      tags: [{ name: 'Action', value: 'View-State' }]
+    })
+
+    return this.parseProcessInfo(dryRunResponse.result)
+  }
+
+  async postAward(
+    walletAddress: string,
+    achievementId: string
+  ): Promise<string> {
+    try {
+      return await postAosMessage(this.aoClient, {
+        processId: this.processId,
+        signer: this.signer,
+        tags: [
+          { name: 'Action', value: 'Award-Cheese-Mint' },
+          { name: 'Cheese-Mint-Id', value: achievementId },
+          { name: 'Award-To-Address', value: walletAddress }
+        ]
+      })
+    } catch (error) {
+      if (messageNotSent(error)) {
+        throw new AwardNotSentError((error as Error).message, {
+          cause: error
+        })
+      }
+      throw error
+    }
+  }
+
+  async confirmAward(messageId: string): Promise<void> {
+    const result = await fetchAosResult(this.aoClient, {
+      processId: this.processId,
+      messageId
+    })
+
+    this.logger.debug(`AO Process result: ${JSON.stringify(result)}`)
+    if (result.Error) {
+      throw new AwardRejectedError(
+        `Process rejected award ${messageId}: ${JSON.stringify(result.Error)}`
+      )
+    }
+  }
+
+  /**
+   * Send Revoke-Cheese-Mint, which requires the process to grant the wallet
+   * the Revoke-Cheese-Mint role
+   */
+  async revokeAward(
+    walletAddress: string,
+    achievementId: string
+  ): Promise<string> {
+    const state = await this.fetchState()
+    if (!state.acl?.roles?.['Revoke-Cheese-Mint']?.[this.walletAddress]) {
+      throw new RevocationUnsupportedError(
+        'Wallet does not have Revoke-Cheese-Mint permission in AO process'
+      )
+    }
+
+    const messageId = await postAosMessage(this.aoClient, {
+      processId: this.processId,
+      signer: this.signer,
+      tags: [
+        { name: 'Action', value: 'Revoke-Cheese-Mint' },
+        { name: 'Cheese-Mint-Id', value: achievementId },
+        { name: 'Revoke-From-Address', value: walletAddress }
+      ]
+    })
+    const result = await fetchAosResult(this.aoClient, {
+      processId: this.processId,
+      messageId
+    })
+    if (result.Error) {
+      throw new Error(
+        `Process rejected revocation ${messageId}: ${JSON.stringify(result.Error)}`
+      )
+    }
+
+    return messageId
+  }
+
+  /**
+   * Parse process info from dry run result
+   */
+  private parseProcessInfo(result: DryRunResult): CheeseMintCollectionState {
+    try {
+      // Type guard for messages array
+      if (
+        !result.Messages ||
+        !Array.isArray(result.Messages) ||
+        result.Messages.length === 0
+      ) {
+        throw new Error('No messages in dry run result')
+      }
+
+      // Safe access with type assertion
+      const messages = result.Messages as Array<{ Data?: string }>
+      const firstMessageData = messages[0]?.Data
+
+      if (!firstMessageData) {
+        throw new Error('No message data in dry run result')
+      }
+
+      return JSON.parse(firstMessageData) as CheeseMintCollectionState
+    } catch (err: unknown) {
+      const error = err as Error
+      this.logger.error(`Failed to parse process info: ${error.message}`)
+      this.logger.debug(`Raw result: ${JSON.stringify(result)}`)
+      throw new Error('Invalid process info format')
+    }
+  }
+
+  /**
+   * Verify that the wallet has Award-Cheese-Mint permission
+   */
+  verifyPermissions(info: CheeseMintCollectionState): void {
+    if (!info.acl || !info.acl.roles) {
+      throw new Error('No ACL found in process info')
+    }
+
+    const awardPermissions = info.acl.roles['Award-Cheese-Mint']
+    if (!awardPermissions || typeof awardPermissions !== 'object') {
+      throw new Error('Award-Cheese-Mint permission not configured in ACL')
+    }
+
+    if (!awardPermissions[this.walletAddress]) {
+      throw new Error(
+        'Wallet does not have Award-Cheese-Mint permission in AO process'
+      )
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { ConfigService } from '@nestjs/config'
+import { RulesService } from '../../rules/rules.service'
+import { AoClient } from '../../utils/ao-client'
+import { AoAwardBackend } from './ao-award.backend'
+import { FileAwardBackend } from './file-award.backend'
+import { WebhookAwardBackend } from './webhook-award.backend'
+import {
+  AWARD_BACKEND_TYPES,
+  AwardBackend,
+  AwardBackendType
+} from './award-backend'
+
+/**
+ * Create the award backend selected by AWARD_BACKEND, defaults to ao
+ */
+export function createAwardBackend(
+  configService: ConfigService,
+  rulesService: RulesService,
+  aoClient: AoClient
+): AwardBackend {
+  const type =
+    configService.get<string>('AWARD_BACKEND', { infer: true }) ?? 'ao'
+
+  switch (type as AwardBackendType) {
+    case 'ao':
+      return new AoAwardBackend(configService, aoClient)
+    case 'file':
+      return new FileAwardBackend(configService, rulesService)
+    case 'webhook':
+      return new WebhookAwardBackend(configService, rulesService)
+    default:
+      throw new Error(
+        `Unknown AWARD_BACKEND "${type}", expected one of: ${AWARD_BACKEND_TYPES.join(', ')}`
+      )
+  }
+}
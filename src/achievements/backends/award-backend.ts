@@ -0,0 +1,83 @@
+import type { CheeseMintCollectionState } from '../achievements.types'
+import type { AwardBatchItem, AwardBatchItemOutcome } from './award-batcher'
+
+export const AWARD_BACKEND = 'AWARD_BACKEND'
+
+export const AWARD_BACKEND_TYPES = ['ao', 'file', 'webhook'] as const
+export type AwardBackendType = (typeof AWARD_BACKEND_TYPES)[number]
+
+/**
+ * Thrown when the backend, or its current permissions, can't revoke awards
+ */
+export class RevocationUnsupportedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = RevocationUnsupportedError.name
+  }
+}
+
+/**
+ * Thrown by postAward when the award definitely did not reach the backend,
+ * so sending it again is safe
+ */
+export class AwardNotSentError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = AwardNotSentError.name
+  }
+}
+
+/**
+ * Thrown by confirmAward when the backend refused a delivered award, so it
+ * was not applied and may be sent again
+ */
+export class AwardRejectedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = AwardRejectedError.name
+  }
+}
+
+/**
+ * Where achievements live and awards are recorded. Every backend exposes its
+ * catalog and awards in the cheese-mint collection state shape.
+ */
+export interface AwardBackend {
+  readonly type: AwardBackendType
+
+  /**
+   * Load credentials and verify the backend is able to award
+   */
+  initialize(): Promise<void>
+
+  fetchState(): Promise<CheeseMintCollectionState>
+
+  /**
+   * Throw unless the state still grants the backend permission to award
+   */
+  verifyPermissions(state: CheeseMintCollectionState): void
+
+  /**
+   * Hand an award to the backend and return its message ID. Once this
+   * resolves the award counts as delivered and is never sent again.
+   * @throws AwardNotSentError when the award did not reach the backend, any
+   * other error leaves its delivery unknown
+   */
+  postAward(walletAddress: string, achievementId: string): Promise<string>
+
+  /**
+   * Wait until a posted award is applied. Safe to call again after a failure.
+   * @throws AwardRejectedError when the backend refused the award
+   */
+  confirmAward(messageId: string): Promise<void>
+
+  /**
+   * Take back an award and return the message ID of the revocation
+   */
+  revokeAward(walletAddress: string, achievementId: string): Promise<string>
+
+  /**
+   * Award as part of a batch, only present when the backend batches awards
+   */
+  batchAward?: (item: AwardBatchItem) => Promise<AwardBatchItemOutcome>
+}
@@ -0,0 +1,172 @@
+import {
+  AwardBatcher,
+  AwardBatcherOptions,
+  BATCH_AWARD_ACTION,
+  BATCH_AWARD_RESULT_ACTION
+} from './award-batcher'
+
+const ALICE = 'vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw'
+const BOB = '0x742D35CC6634c0532925A3b844BC9E7595F0BEb0'
+
+describe('AwardBatcher', () => {
+  let postMessage: jest.Mock
+  let fetchResult: jest.Mock
+
+  const createBatcher = (options: Partial<AwardBatcherOptions> = {}) =>
+    new AwardBatcher({
+      windowMs: 10,
+      maxSize: 50,
+      postMessage,
+      fetchResult,
+      ...options
+    })
+
+  beforeEach(() => {
+    postMessage = jest.fn().mockResolvedValue('batch-message-id')
+    fetchResult = jest.fn()
+  })
+
+  it('should send queued awards as a single batch message', async () => {
+    fetchResult.mockResolvedValue({
+      Messages: [
+        {
+          Tags: [{ name: 'Action', value: BATCH_AWARD_RESULT_ACTION }],
+          Data: JSON.stringify([
+            {
+              cheese_mint_id: 'mint-image',
+              award_to_address: ALICE,
+              status: 'awarded'
+            },
+            {
+              cheese_mint_id: 'mint-image',
+              award_to_address: BOB,
+              status: 'already-awarded'
+            }
+          ])
+        }
+      ]
+    })
+    const batcher = createBatcher()
+
+    const outcomes = await Promise.all([
+      batcher.submit({ walletAddress: ALICE, achievementId: 'mint-image' }),
+      batcher.submit({ walletAddress: BOB, achievementId: 'mint-image' })
+    ])
+
+    expect(postMessage).toHaveBeenCalledTimes(1)
+    expect(postMessage).toHaveBeenCalledWith(
+      [{ name: 'Action', value: BATCH_AWARD_ACTION }],
+      JSON.stringify([
+        { cheese_mint_id: 'mint-image', award_to_address: ALICE },
+        { cheese_mint_id: 'mint-image', award_to_address: BOB }
+      ])
+    )
+    expect(outcomes).toEqual([
+      { status: 'awarded', messageId: 'batch-message-id' },
+      { status: 'already-held', messageId: 'batch-message-id' }
+    ])
+  })
+
+  it('should fall back to single awards when the process does not batch', async () => {
+    fetchResult.mockResolvedValue({ Messages: [] })
+    const batcher = createBatcher()
+
+    await Promise.all([
+      batcher.submit({ walletAddress: ALICE, achievementId: 'mint-image' }),
+      batcher.submit({ walletAddress: BOB, achievementId: 'mint-image' })
+    ])
+
+    expect(batcher.isBatchingSupported()).toBe(false)
+    expect(postMessage).toHaveBeenCalledTimes(3)
+    expect(postMessage).toHaveBeenLastCalledWith([
+      { name: 'Action', value: 'Award-Cheese-Mint' },
+      { name: 'Cheese-Mint-Id', value: 'mint-image' },
+      { name: 'Award-To-Address', value: BOB }
+    ])
+  })
+
+  it('should keep batching when the process rejects a batch', async () => {
+    fetchResult.mockResolvedValue({ Messages: [], Error: 'Permission Denied' })
+    const batcher = createBatcher()
+
+    const outcomes = await Promise.all([
+      batcher.submit({ walletAddress: ALICE, achievementId: 'mint-image' }),
+      batcher.submit({ walletAddress: BOB, achievementId: 'mint-image' })
+    ])
+
+    expect(batcher.isBatchingSupported()).toBe(true)
+    expect(postMessage).toHaveBeenCalledTimes(1)
+    expect(outcomes).toEqual([
+      expect.objectContaining({
+        status: 'failed',
+        error: expect.stringContaining('Permission Denied') as unknown
+      }),
+      expect.objectContaining({ status: 'failed' })
+    ])
+  })
+
+  it('should fail single awards the process rejects', async () => {
+    fetchResult.mockResolvedValue({
+      Messages: [],
+      Error: 'Cheese Mint already awarded'
+    })
+    const batcher = createBatcher()
+
+    await expect(
+      batcher.submit({ walletAddress: ALICE, achievementId: 'mint-image' })
+    ).resolves.toMatchObject({
+      status: 'failed',
+      error: expect.stringContaining('Cheese Mint already awarded') as unknown
+    })
+  })
+
+  it('should report whether a failed batch reached the process', async () => {
+    postMessage
+      .mockRejectedValueOnce(
+        new Error('Error while communicating with MU: {"code":"ECONNREFUSED"}')
+      )
+      .mockRejectedValueOnce(new Error('503: Service Unavailable'))
+      .mockRejectedValueOnce(new Error('400: Invalid data item'))
+    const batcher = createBatcher()
+
+    const submit = () =>
+      Promise.allSettled([
+        batcher.submit({ walletAddress: ALICE, achievementId: 'mint-image' }),
+        batcher.submit({ walletAddress: BOB, achievementId: 'mint-image' })
+      ])
+    const refused = await submit()
+    const unknown = await submit()
+    const invalid = await submit()
+
+    expect(refused).toEqual([
+      {
+        status: 'rejected',
+        reason: expect.objectContaining({ delivered: false }) as unknown
+      },
+      {
+        status: 'rejected',
+        reason: expect.objectContaining({ delivered: false }) as unknown
+      }
+    ])
+    expect(invalid).toEqual([
+      {
+        status: 'rejected',
+        reason: expect.objectContaining({ delivered: false }) as unknown
+      },
+      {
+        status: 'rejected',
+        reason: expect.objectContaining({ delivered: false }) as unknown
+      }
+    ])
+    expect(unknown).toEqual([
+      {
+        status: 'rejected',
+        reason: expect.objectContaining({ delivered: true }) as unknown
+      },
+      {
+        status: 'rejected',
+        reason: expect.objectContaining({ delivered: true }) as unknown
+      }
+    ])
+  })
+})
@@ -0,0 +1,272 @@
+import { Logger } from '@nestjs/common'
+import { messageNotSent } from '../../utils/ao-client'
+
+export const BATCH_AWARD_ACTION = 'Batch-Award-Cheese-Mint'
+export const BATCH_AWARD_RESULT_ACTION = 'Batch-Award-Cheese-Mint-Result'
+
+export interface AwardBatchItem {
+  walletAddress: string
+  achievementId: string
+}
+
+export interface AwardBatchItemOutcome {
+  status: 'awarded' | 'already-held' | 'failed'
+  messageId: string
+  error?: string
+}
+
+interface AoMessageResult {
+  Messages?: Array<{ Data?: string; Tags?: { name: string; value: string }[] }>
+  Error?: unknown
+}
+
+/**
+ * Entry of the Batch-Award-Cheese-Mint request and result payloads
+ */
+interface BatchAwardPayloadItem {
+  cheese_mint_id: string
+  award_to_address: string
+  status?: 'awarded' | 'already-awarded' | 'error'
+  error?: string
+}
+
+export interface AwardBatcherOptions {
+  // How long to collect awards before sending them
+  windowMs: number
+  maxSize: number
+  postMessage(
+    tags: { name: string; value: string }[],
+    data?: string
+  ): Promise<string>
+  fetchResult(messageId: string): Promise<AoMessageResult>
+}
+
+/**
+ * Thrown when an award could not be completed. delivered tells whether the
+ * MU accepted a message containing the award, in which case it may still be
+ * applied and must not simply be resent.
+ */
+export class AwardBatchError extends Error {
+  constructor(
+    message: string,
+    readonly delivered: boolean
+  ) {
+    super(message)
+    this.name = AwardBatchError.name
+  }
+}
+
+interface Submission {
+  item: AwardBatchItem
+  resolve: (outcome: AwardBatchItemOutcome) => void
+  reject: (error: AwardBatchError) => void
+}
+
+/**
+ * Collects awards over a short window and sends them as a single
+ * Batch-Award-Cheese-Mint message whose data is a JSON array of
+ * { cheese_mint_id, award_to_address }. The process replies with a
+ * Batch-Award-Cheese-Mint-Result message listing a status per item. When the
+ * process neither replies nor errors it does not know the action, batching is
+ * turned off and awards fall back to individual Award-Cheese-Mint messages.
+ */
+export class AwardBatcher {
+  private readonly logger = new Logger(AwardBatcher.name)
+  private queue: Submission[] = []
+  private timer?: NodeJS.Timeout
+  private batchingSupported = true
+
+  constructor(private readonly options: AwardBatcherOptions) {}
+
+  isBatchingSupported(): boolean {
+    return this.batchingSupported
+  }
+
+  /**
+   * Queue an award and resolve with its outcome once its batch is processed
+   */
+  submit(item: AwardBatchItem): Promise<AwardBatchItemOutcome> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ item, resolve, reject })
+
+      if (this.queue.length >= this.options.maxSize) {
+        void this.flush()
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => void this.flush(), this.options.windowMs)
+      }
+    })
+  }
+
+  /**
+   * Send everything queued so far
+   */
+  async flush(): Promise<void> {
+    clearTimeout(this.timer)
+    this.timer = undefined
+
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.options.maxSize)
+
+      if (!this.batchingSupported || batch.length === 1) {
+        await Promise.all(
+          batch.map((submission) => this.sendSingle(submission))
+        )
+      } else {
+        await this.sendBatch(batch)
+      }
+    }
+  }
+
+  private async sendBatch(batch: Submission[]): Promise<void> {
+    const payload: BatchAwardPayloadItem[] = batch.map(({ item }) => ({
+      cheese_mint_id: item.achievementId,
+      award_to_address: item.walletAddress
+    }))
+
+    let messageId: string
+    try {
+      messageId = await this.options.postMessage(
+        [{ name: 'Action', value: BATCH_AWARD_ACTION }],
+        JSON.stringify(payload)
+      )
+    } catch (error) {
+      return this.rejectAll(batch, error, !messageNotSent(error))
+    }
+
+    let result: AoMessageResult
+    try {
+      result = await this.options.fetchResult(messageId)
+    } catch (error) {
+      return this.rejectAll(batch, error, true)
+    }
+
+    if (result.Error) {
+      const error = `Process rejected batch ${messageId}: ${JSON.stringify(result.Error)}`
+      this.logger.error(error)
+      for (const { resolve } of batch) {
+        resolve({ status: 'failed', messageId, error })
+      }
+      return
+    }
+
+    const reply = (result.Messages ?? []).find((message) =>
+      message.Tags?.some(
+        (tag) =>
+          tag.name === 'Action' && tag.value === BATCH_AWARD_RESULT_ACTION
+      )
+    )
+    if (!reply) {
+      this.logger.warn(
+        `Process did not answer ${BATCH_AWARD_ACTION} message ${messageId}, falling back to single awards`
+      )
+      this.batchingSupported = false
+      await Promise.all(batch.map((submission) => this.sendSingle(submission)))
+      return
+    }
+
+    const outcomes = this.parseOutcomes(reply.Data)
+    if (!outcomes) {
+      return this.rejectAll(
+        batch,
+        new Error(
+          `Malformed ${BATCH_AWARD_RESULT_ACTION} reply to ${messageId}`
+        ),
+        true
+      )
+    }
+
+    this.logger.log(
+      `Batch award message ${messageId} processed ${batch.length} awards`
+    )
+    for (const { item, resolve } of batch) {
+      const outcome = outcomes.find(
+        (o) =>
+          o.cheese_mint_id === item.achievementId &&
+          o.award_to_address === item.walletAddress
+      )
+
+      if (outcome?.status === 'awarded') {
+        resolve({ status: 'awarded', messageId })
+      } else if (outcome?.status === 'already-awarded') {
+        resolve({ status: 'already-held', messageId })
+      } else {
+        resolve({
+          status: 'failed',
+          messageId,
+          error: outcome?.error ?? 'No outcome reported for award'
+        })
+      }
+    }
+  }
+
+  private async sendSingle({
+    item,
+    resolve,
+    reject
+  }: Submission): Promise<void> {
+    let messageId: string
+    try {
+      messageId = await this.options.postMessage([
+        { name: 'Action', value: 'Award-Cheese-Mint' },
+        { name: 'Cheese-Mint-Id', value: item.achievementId },
+        { name: 'Award-To-Address', value: item.walletAddress }
+      ])
+    } catch (error) {
+      return reject(
+        new AwardBatchError((error as Error).message, !messageNotSent(error))
+      )
+    }
+
+    let result: AoMessageResult
+    try {
+      result = await this.options.fetchResult(messageId)
+    } catch (error) {
+      return reject(new AwardBatchError((error as Error).message, true))
+    }
+
+    this.logger.debug(`AO Process result: ${JSON.stringify(result)}`)
+    if (result.Error) {
+      resolve({
+        status: 'failed',
+        messageId,
+        error: `Process rejected award ${messageId}: ${JSON.stringify(result.Error)}`
+      })
+    } else {
+      resolve({ status: 'awarded', messageId })
+    }
+  }
+
+  /**
+   * Extract per-item outcomes from a batch result reply, or undefined if it
+   * is malformed
+   */
+  private parseOutcomes(
+    data: string | undefined
+  ): BatchAwardPayloadItem[] | undefined {
+    if (!data) {
+      return undefined
+    }
+
+    try {
+      const outcomes = JSON.parse(data) as unknown
+      return Array.isArray(outcomes)
+        ? (outcomes as BatchAwardPayloadItem[])
+        : undefined
+    } catch {
+      return undefined
+    }
+  }
+
+  private rejectAll(
+    batch: Submission[],
+    error: unknown,
+    delivered: boolean
+  ): void {
+    const message = (error as Error).message
+    this.logger.error(`Batch award failed: ${message}`)
+
+    for (const { reject } of batch) {
+      reject(new AwardBatchError(message, delivered))
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { ConfigService } from '@nestjs/config'
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { RulesService } from '../../rules/rules.service'
+import { FileAwardBackend } from './file-award.backend'
+import type { CheeseMintCollectionState } from '../achievements.types'
+
+const ALICE = 'vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw'
+
+describe('FileAwardBackend', () => {
+  let dir: string
+  let filePath: string
+  let achievements: string[]
+
+  const createBackend = () =>
+    new FileAwardBackend(
+      {
+        get: (key: string) =>
+          key === 'AWARD_BACKEND_FILE_PATH' ? filePath : undefined
+      } as unknown as ConfigService,
+      {
+        getRequiredAchievements: () => achievements
+      } as unknown as RulesService
+    )
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'award-backend-'))
+    filePath = join(dir, 'awards.json')
+    achievements = ['Wuzzy Image Searcher']
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should create a cheese mint for every rule achievement', async () => {
+    const backend = createBackend()
+    await backend.initialize()
+
+    const state = await backend.fetchState()
+    expect(state.cheese_mints_by_id['wuzzy-image-searcher']).toMatchObject({
+      id: 'wuzzy-image-searcher',
+      name: 'Wuzzy Image Searcher'
+    })
+  })
+
+  it('should record awards and persist them across restarts', async () => {
+    const backend = createBackend()
+    await backend.initialize()
+    const messageId = await backend.postAward(ALICE, 'wuzzy-image-searcher')
+
+    const persisted = JSON.parse(
+      readFileSync(filePath, 'utf-8')
+    ) as CheeseMintCollectionState
+    expect(
+      persisted.cheese_mints_by_address[ALICE]['wuzzy-image-searcher']
+    ).toMatchObject({ awarded_by: 'rewards-goblin', message_id: messageId })
+
+    const restarted = createBackend()
+    await restarted.initialize()
+    const state = await restarted.fetchState()
+    expect(state.cheese_mints_by_address[ALICE]).toHaveProperty(
+      'wuzzy-image-searcher'
+    )
+  })
+
+  it('should add the achievements of new rules to an existing state', async () => {
+    const backend = createBackend()
+    await backend.initialize()
+    await backend.postAward(ALICE, 'wuzzy-image-searcher')
+
+    achievements = ['Wuzzy Image Searcher', 'Wuzzy Audio Searcher']
+    const restarted = createBackend()
+    await restarted.initialize()
+
+    const persisted = JSON.parse(
+      readFileSync(filePath, 'utf-8')
+    ) as CheeseMintCollectionState
+    expect(Object.keys(persisted.cheese_mints_by_id)).toEqual([
+      'wuzzy-image-searcher',
+      'wuzzy-audio-searcher'
+    ])
+    expect(persisted.cheese_mints_by_address[ALICE]).toHaveProperty(
+      'wuzzy-image-searcher'
+    )
+  })
+
+  it('should persist every award posted concurrently', async () => {
+    achievements = ['Wuzzy Image Searcher', 'Wuzzy Audio Searcher']
+    const backend = createBackend()
+    await backend.initialize()
+
+    await Promise.all([
+      backend.postAward(ALICE, 'wuzzy-image-searcher'),
+      backend.postAward(ALICE, 'wuzzy-audio-searcher')
+    ])
+
+    const persisted = JSON.parse(
+      readFileSync(filePath, 'utf-8')
+    ) as CheeseMintCollectionState
+    expect(Object.keys(persisted.cheese_mints_by_address[ALICE])).toEqual([
+      'wuzzy-image-searcher',
+      'wuzzy-audio-searcher'
+    ])
+    expect(readdirSync(dir)).toEqual(['awards.json'])
+  })
+
+  it('should not apply awards it failed to persist', async () => {
+    const backend = createBackend()
+    await backend.initialize()
+    rmSync(dir, { recursive: true, force: true })
+
+    await expect(
+      backend.postAward(ALICE, 'wuzzy-image-searcher')
+    ).rejects.toThrow('ENOENT')
+
+    const state = await backend.fetchState()
+    expect(state.cheese_mints_by_address).not.toHaveProperty(ALICE)
+  })
+
+  it('should reject awards of unknown cheese mints', async () => {
+    const backend = createBackend()
+    await backend.initialize()
+
+    await expect(backend.postAward(ALICE, 'missing')).rejects.toThrow(
+      'Unknown cheese mint missing'
+    )
+  })
+
+  it('should revoke held awards and persist the removal', async () => {
+    const backend = createBackend()
+    await backend.initialize()
+    await backend.postAward(ALICE, 'wuzzy-image-searcher')
+
+    await backend.revokeAward(ALICE, 'wuzzy-image-searcher')
+
+    const persisted = JSON.parse(
+      readFileSync(filePath, 'utf-8')
+    ) as CheeseMintCollectionState
+    expect(persisted.cheese_mints_by_address).not.toHaveProperty(ALICE)
+    await expect(
+      backend.revokeAward(ALICE, 'wuzzy-image-searcher')
+    ).rejects.toThrow()
+  })
+})
@@ -0,0 +1,236 @@
+import { Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { randomUUID } from 'crypto'
+import { existsSync } from 'fs'
+import { readFile, rename, rm, writeFile } from 'fs/promises'
+import { RulesService } from '../../rules/rules.service'
+import {
+  AwardBackend,
+  AwardBackendType,
+  AwardNotSentError
+} from './award-backend'
+import type {
+  CheeseMint,
+  CheeseMintCollectionState
+} from '../achievements.types'
+
+/**
+ * Keeps achievements and awards in memory, persisted to
+ * AWARD_BACKEND_FILE_PATH when set. Meant for local development, tests and
+ * single-instance deployments; awards apply as soon as they are posted.
+ *
+ * Every achievement referenced by the reward rules gets a cheese mint, whether
+ * the state file is new or was written before the rule was added.
+ */
+export class FileAwardBackend implements AwardBackend {
+  readonly type: AwardBackendType = 'file'
+  protected readonly logger = new Logger(this.constructor.name)
+  protected readonly awarder: string
+  private readonly filePath?: string
+  private state: CheeseMintCollectionState
+  private updates: Promise<void> = Promise.resolve()
+
+  constructor(
+    protected readonly configService: ConfigService,
+    private readonly rulesService: RulesService
+  ) {
+    this.filePath = this.configService.get<string>('AWARD_BACKEND_FILE_PATH', {
+      infer: true
+    })
+    this.awarder =
+      this.configService.get<string>('AWARD_BACKEND_AWARDER', {
+        infer: true
+      }) ?? 'rewards-goblin'
+  }
+
+  async initialize(): Promise<void> {
+    if (this.filePath && existsSync(this.filePath)) {
+      this.state = JSON.parse(
+        await readFile(this.filePath, 'utf-8')
+      ) as CheeseMintCollectionState
+      const added = await this.update((state) => this.addRuleCheeseMints(state))
+      this.logger.log(
+        `Award state loaded from ${this.filePath}` +
+          (added.length ? `, added achievements ${added.join(', ')}` : '')
+      )
+      return
+    }
+
+    this.state = {
+      owner: this.awarder,
+      acl: { roles: {} },
+      cheese_mints_by_id: {},
+      cheese_mints_by_address: {}
+    }
+    const added = await this.update((state) => this.addRuleCheeseMints(state))
+    this.logger.log(
+      `Created award state with ${added.length} achievements` +
+        (this.filePath ? ` at ${this.filePath}` : ' in memory')
+    )
+  }
+
+  fetchState(): Promise<CheeseMintCollectionState> {
+    // Callers cache the state, hand out a copy so awards don't mutate it
+    return Promise.resolve(structuredClone(this.state))
+  }
+
+  verifyPermissions(): void {
+    // The state file is ours, there is no ACL to lose
+  }
+
+  async postAward(
+    walletAddress: string,
+    achievementId: string
+  ): Promise<string> {
+    if (!this.state.cheese_mints_by_id[achievementId]) {
+      throw new AwardNotSentError(`Unknown cheese mint ${achievementId}`)
+    }
+
+    const messageId = randomUUID()
+    const awardedAt = Date.now()
+    await this.deliver?.(
+      'award',
+      walletAddress,
+      achievementId,
+      messageId,
+      awardedAt
+    )
+
+    await this.update((state) => {
+      state.cheese_mints_by_address[walletAddress] = {
+        ...state.cheese_mints_by_address[walletAddress],
+        [achievementId]: {
+          awarded_by: this.awarder,
+          awarded_at: awardedAt,
+          message_id: messageId
+        }
+      }
+    })
+
+    return messageId
+  }
+
+  confirmAward(): Promise<void> {
+    // Awards are applied when posted
+    return Promise.resolve()
+  }
+
+  async revokeAward(
+    walletAddress: string,
+    achievementId: string
+  ): Promise<string> {
+    const awards = this.state.cheese_mints_by_address[walletAddress]
+    if (!awards?.[achievementId]) {
+      throw new Error(`${walletAddress} does not hold ${achievementId}`)
+    }
+
+    const messageId = randomUUID()
+    await this.deliver?.(
+      'revoke',
+      walletAddress,
+      achievementId,
+      messageId,
+      Date.now()
+    )
+
+    await this.update((state) => {
+      const held = state.cheese_mints_by_address[walletAddress]
+      delete held?.[achievementId]
+      if (held && Object.keys(held).length === 0) {
+        delete state.cheese_mints_by_address[walletAddress]
+      }
+    })
+
+    return messageId
+  }
+
+  /**
+   * Hook for subclasses to hand awards and revocations elsewhere before they
+   * are recorded
+   */
+  protected deliver?(
+    action: 'award' | 'revoke',
+    walletAddress: string,
+    achievementId: string,
+    messageId: string,
+    at: number
+  ): Promise<void>
+
+  protected getCheeseMint(achievementId: string): CheeseMint {
+    return this.state.cheese_mints_by_id[achievementId]
+  }
+
+  /**
+   * Add a cheese mint for every rule achievement the state lacks, returning
+   * the IDs added
+   */
+  private addRuleCheeseMints(state: CheeseMintCollectionState): string[] {
+    const now = Date.now()
+    const added: string[] = []
+
+    for (const name of this.rulesService.getRequiredAchievements()) {
+      const id = name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '')
+      if (state.cheese_mints_by_id[id]) {
+        continue
+      }
+
+      state.cheese_mints_by_id[id] = {
+        id,
+        name,
+        created_at: now,
+        created_by: this.awarder,
+        description: '',
+        points: 0,
+        icon: '',
+        category: 'default'
+      }
+      added.push(id)
+    }
+
+    return added
+  }
+
+  /**
+   * Apply a change to a copy of the state and swap it in once persisted, so a
+   * failed write leaves the state as on disk. Updates run one at a time so
+   * none is lost to a concurrent one.
+   */
+  private update<T>(
+    change: (state: CheeseMintCollectionState) => T
+  ): Promise<T> {
+    const result = this.updates.then(async () => {
+      const state = structuredClone(this.state)
+      const changed = change(state)
+      await this.persist(state)
+      this.state = state
+      return changed
+    })
+    this.updates = result.then(
+      () => undefined,
+      () => undefined
+    )
+    return result
+  }
+
+  /**
+   * Write the state next to the target and rename it over, so a crash never
+   * leaves a partial file
+   */
+  private async persist(state: CheeseMintCollectionState): Promise<void> {
+    if (!this.filePath) {
+      return
+    }
+
+    const tmpPath = `${this.filePath}.${randomUUID()}.tmp`
+    try {
+      await writeFile(tmpPath, JSON.stringify(state, undefined, 2))
+      await rename(tmpPath, this.filePath)
+    } catch (error) {
+      await rm(tmpPath, { force: true })
+      throw error
+    }
+  }
+}
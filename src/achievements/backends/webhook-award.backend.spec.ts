@@ -0,0 +1,91 @@
+import { ConfigService } from '@nestjs/config'
+import { RulesService } from '../../rules/rules.service'
+import { WebhookAwardBackend } from './webhook-award.backend'
+import { AwardNotSentError } from './award-backend'
+
+const ALICE = 'vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw'
+const MINT = 'wuzzy-image-searcher'
+
+describe('WebhookAwardBackend', () => {
+  let backend: WebhookAwardBackend
+  let fetchMock: jest.SpyInstance
+
+  const idempotencyKeys = () =>
+    fetchMock.mock.calls.map(
+      ([, init]) =>
+        (init as RequestInit & { headers: Record<string, string> }).headers[
+          'Idempotency-Key'
+        ]
+    )
+
+  beforeEach(async () => {
+    fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockResolvedValue(new Response(null, { status: 204 }))
+    backend = new WebhookAwardBackend(
+      {
+        get: (key: string) =>
+          key === 'AWARD_WEBHOOK_URL' ? 'https://awards.example.com' : undefined
+      } as unknown as ConfigService,
+      {
+        getRequiredAchievements: () => ['Wuzzy Image Searcher']
+      } as unknown as RulesService
+    )
+    await backend.initialize()
+  })
+
+  afterEach(() => {
+    fetchMock.mockRestore()
+  })
+
+  it('should record awards the endpoint accepted', async () => {
+    await backend.postAward(ALICE, MINT)
+
+    const state = await backend.fetchState()
+    expect(state.cheese_mints_by_address[ALICE]).toHaveProperty(MINT)
+    expect(idempotencyKeys()).toEqual([`award:${MINT}:${ALICE}`])
+  })
+
+  it('should report awards the endpoint rejected with a 4xx as not sent', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 422 }))
+
+    await expect(backend.postAward(ALICE, MINT)).rejects.toThrow(
+      AwardNotSentError
+    )
+
+    const state = await backend.fetchState()
+    expect(state.cheese_mints_by_address).not.toHaveProperty(ALICE)
+  })
+
+  it('should leave the delivery of awards answered with a 5xx unknown', async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 503 }))
+
+    const error = await backend
+      .postAward(ALICE, MINT)
+      .catch((err: unknown) => err)
+
+    expect(error).toBeInstanceOf(Error)
+    expect(error).not.toBeInstanceOf(AwardNotSentError)
+
+    // Sent again under the same key, so the endpoint can deduplicate it
+    await backend.postAward(ALICE, MINT)
+    const [first, second] = idempotencyKeys()
+    expect(second).toBe(first)
+  })
+
+  it('should leave the delivery of timed out awards unknown', async () => {
+    fetchMock.mockRejectedValue(
+      new DOMException(
+        'The operation was aborted due to timeout',
+        'TimeoutError'
+      )
+    )
+
+    const error = await backend
+      .postAward(ALICE, MINT)
+      .catch((err: unknown) => err)
+
+    expect(error).toBeInstanceOf(DOMException)
+    expect(error).not.toBeInstanceOf(AwardNotSentError)
+  })
+})
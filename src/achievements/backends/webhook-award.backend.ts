@@ -0,0 +1,102 @@
+import { ConfigService } from '@nestjs/config'
+import { createHmac } from 'crypto'
+import { RulesService } from '../../rules/rules.service'
+import { failedBeforeSending } from '../../utils/ao-client'
+import { FileAwardBackend } from './file-award.backend'
+import { AwardBackendType, AwardNotSentError } from './award-backend'
+
+/**
+ * POSTs every award and revocation to AWARD_WEBHOOK_URL and records it
+ * locally like the file backend once the endpoint accepted it. Requests carry
+ * an Idempotency-Key per action, achievement and wallet, the same for every
+ * resend, and, when AWARD_WEBHOOK_SECRET is set, an X-Signature hex
+ * HMAC-SHA256 over `${X-Timestamp}.${body}`.
+ *
+ * Only a 4xx answer means the award was not applied. Timeouts and 5xx
+ * answers leave it pending until it is sent again under the same key.
+ */
+export class WebhookAwardBackend extends FileAwardBackend {
+  readonly type: AwardBackendType = 'webhook'
+  private readonly url?: string
+  private readonly secret?: string
+  private readonly timeoutMs: number
+
+  constructor(configService: ConfigService, rulesService: RulesService) {
+    super(configService, rulesService)
+    this.url = this.configService.get<string>('AWARD_WEBHOOK_URL', {
+      infer: true
+    })
+    this.secret = this.configService.get<string>('AWARD_WEBHOOK_SECRET', {
+      infer: true
+    })
+    this.timeoutMs = parseInt(
+      this.configService.get<string>('AWARD_WEBHOOK_TIMEOUT_MS', {
+        infer: true
+      }) ?? '10000'
+    )
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.url) {
+      throw new Error('AWARD_WEBHOOK_URL is required in environment config')
+    }
+
+    await super.initialize()
+    this.logger.log(`Awards are delivered to ${this.url}`)
+  }
+
+  protected async deliver(
+    action: 'award' | 'revoke',
+    walletAddress: string,
+    achievementId: string,
+    messageId: string,
+    at: number
+  ): Promise<void> {
+    const body = JSON.stringify({
+      id: messageId,
+      action,
+      cheese_mint_id: achievementId,
+      cheese_mint_name: this.getCheeseMint(achievementId).name,
+      award_to_address: walletAddress,
+      awarded_by: this.awarder,
+      [action === 'award' ? 'awarded_at' : 'revoked_at']: at
+    })
+    const timestamp = `${Date.now()}`
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Idempotency-Key': `${action}:${achievementId}:${walletAddress}`,
+      'X-Timestamp': timestamp
+    }
+    if (this.secret) {
+      headers['X-Signature'] = createHmac('sha256', this.secret)
+        .update(`${timestamp}.${body}`)
+        .digest('hex')
+    }
+
+    let response: Response
+    try {
+      response = await fetch(this.url!, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(this.timeoutMs)
+      })
+    } catch (error) {
+      if (failedBeforeSending(error)) {
+        throw new AwardNotSentError((error as Error).message, {
+          cause: error
+        })
+      }
+      throw error
+    }
+    if (response.ok) {
+      return
+    }
+
+    const message = `Award webhook responded with ${response.status} ${response.statusText}`
+    if (response.status >= 400 && response.status < 500) {
+      throw new AwardNotSentError(message)
+    }
+    throw new Error(message)
+  }
+}
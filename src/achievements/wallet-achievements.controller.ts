@@ -0,0 +1,45 @@
+import { BadRequestException, Controller, Get, Param } from '@nestjs/common'
+import { AchievementsService } from './achievements.service'
+import { WalletResolverService } from '../names/wallet-resolver.service'
+import { IdentityService } from '../identity/identity.service'
+
+@Controller('wallets')
+export class WalletAchievementsController {
+  constructor(
+    private readonly achievementsService: AchievementsService,
+    private readonly identityService: IdentityService,
+    private readonly walletResolver: WalletResolverService
+  ) {}
+
+  /**
+   * Achievements of the wallet's identity, the same for every linked wallet
+   */
+  @Get(':address/achievements')
+  async getAchievements(@Param('address') address: string) {
+    const validation = await this.walletResolver.resolve(address)
+    if (!validation.valid || !validation.normalized) {
+      throw new BadRequestException(
+        `Wallet validation failed: ${validation.error}`
+      )
+    }
+
+    const identity = await this.identityService.getIdentity(
+      validation.normalized
+    )
+    const achievements =
+      await this.achievementsService.getLinkedWalletAchievements(
+        identity.wallets
+      )
+
+    return {
+      wallet: validation.normalized,
+      walletType: validation.type,
+      name: validation.name,
+      primary: identity.primary,
+      linkedWallets: identity.wallets,
+      total: achievements.length,
+      points: achievements.reduce((sum, { points }) => sum + points, 0),
+      achievements
+    }
+  }
+}
@@ -0,0 +1,216 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { BadRequestException } from '@nestjs/common'
+import { AdminController } from './admin.controller'
+import { AchievementsService } from '../achievements/achievements.service'
+import { AuditService } from '../audit/audit.service'
+import { AdminAuthGuard } from '../auth/admin-auth.guard'
+import { AwardPublisher } from '../notifications/award-publisher.service'
+import { IdentityService } from '../identity/identity.service'
+import { WalletResolverService } from '../names/wallet-resolver.service'
+import { WalletValidator } from '../utils/wallet.validator'
+
+const ALICE = 'vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw'
+const BOB = '0x742D35CC6634c0532925A3b844BC9E7595F0BEb0'
+const OPERATOR = { id: 'alice' }
+
+describe('AdminController', () => {
+  let controller: AdminController
+  let achievementsService: {
+    awardAchievement: jest.Mock
+    revokeAchievement: jest.Mock
+    refreshState: jest.Mock
+  }
+  let auditService: { record: jest.Mock }
+  let awardPublisher: { publish: jest.Mock }
+  let identityService: { resolvePrimary: jest.Mock }
+
+  beforeEach(async () => {
+    achievementsService = {
+      awardAchievement: jest.fn(),
+      revokeAchievement: jest.fn(),
+      refreshState: jest.fn()
+    }
+    auditService = { record: jest.fn().mockResolvedValue({}) }
+    awardPublisher = { publish: jest.fn().mockResolvedValue(undefined) }
+    identityService = {
+      resolvePrimary: jest.fn((wallet: string) => Promise.resolve(wallet))
+    }
+
+    const app: TestingModule = await Test.createTestingModule({
+      controllers: [AdminController],
+      providers: [
+        { provide: AchievementsService, useValue: achievementsService },
+        { provide: AuditService, useValue: auditService },
+        { provide: AwardPublisher, useValue: awardPublisher },
+        { provide: IdentityService, useValue: identityService },
+        {
+          provide: WalletResolverService,
+          useValue: {
+            resolve: (address: string) =>
+              Promise.resolve(WalletValidator.validateAndNormalize(address))
+          }
+        }
+      ]
+    })
+      .overrideGuard(AdminAuthGuard)
+      .useValue({ canActivate: () => true })
+      .compile()
+
+    controller = app.get<AdminController>(AdminController)
+  })
+
+  it('should award and audit the outcome with the operator and reason', async () => {
+    const outcome = {
+      achievement: 'Wuzzy Searcher',
+      achievementId: 'mint-searcher',
+      status: 'awarded',
+      messageId: 'message-1'
+    }
+    achievementsService.awardAchievement.mockResolvedValue(outcome)
+
+    await expect(
+      controller.award(
+        {
+          walletAddress: ALICE,
+          achievement: 'Wuzzy Searcher',
+          reason: 'Missed during outage'
+        },
+        OPERATOR
+      )
+    ).resolves.toEqual(outcome)
+
+    expect(achievementsService.awardAchievement).toHaveBeenCalledWith(
+      'Wuzzy Searcher',
+      ALICE
+    )
+    expect(auditService.record).toHaveBeenCalledWith({
+      action: 'admin.award',
+      actor: 'operator:alice',
+      wallet: ALICE,
+      achievement: 'Wuzzy Searcher',
+      reason: 'Missed during outage',
+      details: outcome
+    })
+    expect(awardPublisher.publish).toHaveBeenCalledWith(
+      {
+        wallet: ALICE,
+        walletType: 'arweave',
+        eventType: 'admin.award',
+        jobId: null,
+        producer: null,
+        metadata: { operator: 'alice', reason: 'Missed during outage' }
+      },
+      [outcome]
+    )
+  })
+
+  it('should award and revoke on the primary of a linked wallet', async () => {
+    identityService.resolvePrimary.mockResolvedValue(ALICE)
+    const outcome = {
+      achievement: 'Wuzzy Searcher',
+      achievementId: 'mint-searcher',
+      status: 'awarded',
+      messageId: 'message-1'
+    }
+    achievementsService.awardAchievement.mockResolvedValue(outcome)
+    achievementsService.revokeAchievement.mockResolvedValue({
+      ...outcome,
+      status: 'revoked'
+    })
+    const dto = {
+      walletAddress: BOB,
+      achievement: 'Wuzzy Searcher',
+      reason: 'Missed during outage'
+    }
+
+    await controller.award(dto, OPERATOR)
+    await controller.revoke(dto, OPERATOR)
+
+    expect(identityService.resolvePrimary).toHaveBeenCalledWith(BOB)
+    expect(achievementsService.awardAchievement).toHaveBeenCalledWith(
+      'Wuzzy Searcher',
+      ALICE
+    )
+    expect(achievementsService.revokeAchievement).toHaveBeenCalledWith(
+      'Wuzzy Searcher',
+      ALICE
+    )
+    expect(awardPublisher.publish).toHaveBeenCalledWith(
+      expect.objectContaining({ wallet: ALICE, walletType: 'arweave' }),
+      [outcome]
+    )
+  })
+
+  it('should audit failed revocations and rethrow', async () => {
+    achievementsService.revokeAchievement.mockRejectedValue(
+      new Error('Permission Denied')
+    )
+
+    await expect(
+      controller.revoke(
+        {
+          walletAddress: ALICE,
+          achievement: 'Wuzzy Searcher',
+          reason: 'Awarded by mistake'
+        },
+        OPERATOR
+      )
+    ).rejects.toThrow('Permission Denied')
+
+    expect(auditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'admin.revoke',
+        details: { error: 'Permission Denied' }
+      })
+    )
+  })
+
+  it('should return the outcome of an action whose audit failed', async () => {
+    const outcome = {
+      achievement: 'Wuzzy Searcher',
+      achievementId: 'mint-searcher',
+      status: 'revoked'
+    }
+    achievementsService.revokeAchievement.mockResolvedValue(outcome)
+    auditService.record.mockRejectedValue(new Error('Connection is closed.'))
+
+    await expect(
+      controller.revoke(
+        {
+          walletAddress: ALICE,
+          achievement: 'Wuzzy Searcher',
+          reason: 'Awarded by mistake'
+        },
+        OPERATOR
+      )
+    ).resolves.toEqual(outcome)
+  })
+
+  it('should reject invalid wallets without auditing', async () => {
+    await expect(
+      controller.award(
+        { walletAddress: 'nope', achievement: 'Wuzzy Searcher', reason: 'x' },
+        OPERATOR
+      )
+    ).rejects.toThrow(BadRequestException)
+
+    expect(achievementsService.awardAchievement).not.toHaveBeenCalled()
+    expect(auditService.record).not.toHaveBeenCalled()
+  })
+
+  it('should refresh the state and audit the summary', async () => {
+    achievementsService.refreshState.mockResolvedValue({
+      achievements: 5,
+      wallets: 12
+    })
+
+    await controller.refreshState({}, OPERATOR)
+
+    expect(auditService.record).toHaveBeenCalledWith({
+      action: 'admin.refresh-state',
+      actor: 'operator:alice',
+      reason: undefined,
+      details: { achievements: 5, wallets: 12 }
+    })
+  })
+})
@@ -0,0 +1,192 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  InternalServerErrorException,
+  Logger,
+  Post,
+  UseGuards,
+  UsePipes,
+  ValidationPipe
+} from '@nestjs/common'
+import { AchievementsService } from '../achievements/achievements.service'
+import { AuditService } from '../audit/audit.service'
+import { IdentityService } from '../identity/identity.service'
+import { WalletResolverService } from '../names/wallet-resolver.service'
+import { AwardPublisher } from '../notifications/award-publisher.service'
+import type { AuditEntryInput } from '../audit/audit.types'
+import { AdminAuthGuard } from '../auth/admin-auth.guard'
+import { Operator } from '../auth/operator.decorator'
+import type { OperatorIdentity } from '../auth/operator.types'
+import { WalletType, WalletValidator } from '../utils/wallet.validator'
+import { AdminAwardDto, AdminRefreshStateDto } from './dto/admin-action.dto'
+
+/**
+ * Manual interventions by operators, each recorded in the audit log
+ */
+@Controller('admin')
+@UseGuards(AdminAuthGuard)
+@UsePipes(
+  new ValidationPipe({
+    whitelist: true,
+    forbidNonWhitelisted: true,
+    transform: true
+  })
+)
+export class AdminController {
+  private readonly logger = new Logger(AdminController.name)
+
+  constructor(
+    private readonly achievementsService: AchievementsService,
+    private readonly auditService: AuditService,
+    private readonly awardPublisher: AwardPublisher,
+    private readonly identityService: IdentityService,
+    private readonly walletResolver: WalletResolverService
+  ) {}
+
+  @Post('awards')
+  @HttpCode(HttpStatus.OK)
+  async award(
+    @Body() dto: AdminAwardDto,
+    @Operator() operator: OperatorIdentity
+  ) {
+    const { wallet, walletType } = await this.resolveWallet(dto.walletAddress)
+
+    const outcome = await this.audited(
+      {
+        action: 'admin.award',
+        actor: `operator:${operator.id}`,
+        wallet,
+        achievement: dto.achievement,
+        reason: dto.reason
+      },
+      () => this.achievementsService.awardAchievement(dto.achievement, wallet)
+    )
+
+    await this.awardPublisher.publish(
+      {
+        wallet,
+        walletType,
+        eventType: 'admin.award',
+        jobId: null,
+        producer: null,
+        metadata: { operator: operator.id, reason: dto.reason }
+      },
+      [outcome]
+    )
+    return outcome
+  }
+
+  @Post('revocations')
+  @HttpCode(HttpStatus.OK)
+  async revoke(
+    @Body() dto: AdminAwardDto,
+    @Operator() operator: OperatorIdentity
+  ) {
+    const { wallet } = await this.resolveWallet(dto.walletAddress)
+
+    return this.audited(
+      {
+        action: 'admin.revoke',
+        actor: `operator:${operator.id}`,
+        wallet,
+        achievement: dto.achievement,
+        reason: dto.reason
+      },
+      () => this.achievementsService.revokeAchievement(dto.achievement, wallet)
+    )
+  }
+
+  /**
+   * Re-sync the process state and achievement catalog from the backend
+   */
+  @Post('state/refresh')
+  @HttpCode(HttpStatus.OK)
+  async refreshState(
+    @Body() dto: AdminRefreshStateDto,
+    @Operator() operator: OperatorIdentity
+  ) {
+    return this.audited(
+      {
+        action: 'admin.refresh-state',
+        actor: `operator:${operator.id}`,
+        reason: dto.reason
+      },
+      () => this.achievementsService.refreshState()
+    )
+  }
+
+  /**
+   * Validate the wallet and resolve its identity's primary, which holds the
+   * awards of every linked wallet
+   */
+  private async resolveWallet(address: string): Promise<{
+    wallet: string
+    walletType: WalletType
+  }> {
+    const validation = await this.walletResolver.resolve(address)
+    if (!validation.valid || !validation.normalized || !validation.type) {
+      throw new BadRequestException(
+        `Wallet validation failed: ${validation.error}`
+      )
+    }
+
+    const wallet = await this.identityService.resolvePrimary(
+      validation.normalized
+    )
+    if (wallet === validation.normalized) {
+      return { wallet, walletType: validation.type }
+    }
+
+    const primary = WalletValidator.validateAndNormalize(wallet)
+    if (!primary.valid || !primary.type) {
+      throw new InternalServerErrorException(
+        `Primary wallet ${wallet} of ${validation.normalized} is invalid: ${primary.error}`
+      )
+    }
+    return { wallet, walletType: primary.type }
+  }
+
+  /**
+   * Run the action and record it with its outcome, or its error on failure.
+   * A failed audit write is logged rather than failing an action that already
+   * took effect, which the operator would otherwise retry.
+   */
+  private async audited<T extends object>(
+    entry: AuditEntryInput,
+    action: () => Promise<T>
+  ): Promise<T> {
+    let result: T
+    try {
+      result = await action()
+    } catch (error) {
+      await this.record({
+        ...entry,
+        details: {
+          error: error instanceof Error ? error.message : String(error)
+        }
+      })
+      throw error
+    }
+
+    await this.record({
+      ...entry,
+      details: { ...result } as Record<string, unknown>
+    })
+    return result
+  }
+
+  private async record(entry: AuditEntryInput) {
+    try {
+      await this.auditService.record(entry)
+    } catch (error) {
+      const err = error as Error
+      this.logger.error(
+        `Failed to audit ${entry.action} by ${entry.actor}: ${err.message}`,
+        err.stack
+      )
+    }
+  }
+}
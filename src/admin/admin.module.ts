@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common'
+import { AdminController } from './admin.controller'
+import { AchievementsModule } from '../achievements/achievements.module'
+import { AuditModule } from '../audit/audit.module'
+import { AuthModule } from '../auth/auth.module'
+import { IdentityModule } from '../identity/identity.module'
+import { NamesModule } from '../names/names.module'
+import { NotificationsModule } from '../notifications/notifications.module'
+
+@Module({
+  imports: [
+    AchievementsModule,
+    AuditModule,
+    AuthModule,
+    IdentityModule,
+    NamesModule,
+    NotificationsModule
+  ],
+  controllers: [AdminController]
+})
+export class AdminModule {}
@@ -0,0 +1,22 @@
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator'
+
+export class AdminAwardDto {
+  @IsString()
+  @IsNotEmpty()
+  walletAddress: string
+
+  // Achievement name as used by the reward rules
+  @IsString()
+  @IsNotEmpty()
+  achievement: string
+
+  @IsString()
+  @IsNotEmpty()
+  reason: string
+}
+
+export class AdminRefreshStateDto {
+  @IsOptional()
+  @IsString()
+  reason?: string
+}
@@ -0,0 +1,35 @@
+import { Inject, Module, OnModuleDestroy, OnModuleInit } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { AoClient, readAoClientConfig } from '../utils/ao-client'
+
+export const AO_CLIENT = 'AO_CLIENT'
+
+/**
+ * Provides the AO client shared by every AO call, so they trip, and wait out,
+ * the same circuit and fail over together. Probes the CU/MU endpoints in the
+ * background so the client can fail over before a call fails.
+ */
+@Module({
+  providers: [
+    {
+      provide: AO_CLIENT,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        new AoClient(readAoClientConfig(configService))
+    }
+  ],
+  exports: [AO_CLIENT]
+})
+export class AoModule implements OnModuleInit, OnModuleDestroy {
+  private stopProbing?: () => void
+
+  constructor(@Inject(AO_CLIENT) private readonly aoClient: AoClient) {}
+
+  onModuleInit() {
+    this.stopProbing = this.aoClient.startProbing()
+  }
+
+  onModuleDestroy() {
+    this.stopProbing?.()
+  }
+}
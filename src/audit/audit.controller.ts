@@ -0,0 +1,61 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  ParseIntPipe,
+  Query,
+  UseGuards
+} from '@nestjs/common'
+import { AdminAuthGuard } from '../auth/admin-auth.guard'
+import { AuditService } from './audit.service'
+import { WalletResolverService } from '../names/wallet-resolver.service'
+
+@Controller('admin/audit')
+@UseGuards(AdminAuthGuard)
+export class AuditController {
+  constructor(
+    private readonly auditService: AuditService,
+    private readonly walletResolver: WalletResolverService
+  ) {}
+
+  /**
+   * Audit entries newest first, optionally of one wallet and between
+   * ISO-8601 from and to
+   */
+  @Get()
+  async list(
+    @Query('wallet') wallet?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('count', new ParseIntPipe({ optional: true })) count = 50
+  ) {
+    return this.auditService.list({
+      wallet:
+        wallet === undefined ? undefined : await this.normalizeWallet(wallet),
+      from: this.parseDate('from', from),
+      to: this.parseDate('to', to),
+      count
+    })
+  }
+
+  private async normalizeWallet(address: string): Promise<string> {
+    const validation = await this.walletResolver.resolve(address)
+    if (!validation.valid || !validation.normalized) {
+      throw new BadRequestException(
+        `Wallet validation failed: ${validation.error}`
+      )
+    }
+    return validation.normalized
+  }
+
+  private parseDate(name: string, value?: string): Date | undefined {
+    if (value === undefined) {
+      return undefined
+    }
+    const date = new Date(value)
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`${name} must be an ISO-8601 date`)
+    }
+    return date
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common'
+import { AuditService } from './audit.service'
+import { AuditController } from './audit.controller'
+import { RedisModule } from '../redis/redis.module'
+import { AuthModule } from '../auth/auth.module'
+import { NamesModule } from '../names/names.module'
+
+@Module({
+  imports: [RedisModule, AuthModule, NamesModule],
+  controllers: [AuditController],
+  providers: [AuditService],
+  exports: [AuditService]
+})
+export class AuditModule {}
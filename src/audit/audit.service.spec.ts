@@ -0,0 +1,104 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { REDIS_CLIENT } from '../redis/redis.module'
+import { AuditService } from './audit.service'
+
+const ALICE = 'vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw'
+
+describe('AuditService', () => {
+  let auditService: AuditService
+  let mockRedis: { eval: jest.Mock; xrevrange: jest.Mock }
+
+  beforeEach(async () => {
+    mockRedis = {
+      eval: jest.fn().mockResolvedValue('1700000000000-0'),
+      xrevrange: jest.fn().mockResolvedValue([])
+    }
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditService,
+        { provide: ConfigService, useValue: { get: () => undefined } },
+        { provide: REDIS_CLIENT, useValue: mockRedis }
+      ]
+    }).compile()
+
+    auditService = app.get<AuditService>(AuditService)
+  })
+
+  it('should write wallet entries to both streams in one script', async () => {
+    const entry = await auditService.record({
+      action: 'reward.processed',
+      actor: 'rewards-worker',
+      wallet: ALICE,
+      jobId: '7'
+    })
+
+    expect(entry.id).toBe('1700000000000-0')
+    expect(mockRedis.eval).toHaveBeenCalledTimes(1)
+    expect(mockRedis.eval).toHaveBeenCalledWith(
+      expect.any(String),
+      2,
+      'rewards:audit',
+      `rewards:audit:wallet:${ALICE}`,
+      100000,
+      1000,
+      expect.stringContaining('"action":"reward.processed"')
+    )
+  })
+
+  it('should only write the global stream without a wallet', async () => {
+    await auditService.record({
+      action: 'admin.refresh-state',
+      actor: 'operator:alice'
+    })
+
+    expect(mockRedis.eval).toHaveBeenCalledWith(
+      expect.any(String),
+      1,
+      'rewards:audit',
+      100000,
+      1000,
+      expect.any(String)
+    )
+  })
+
+  it('should query a wallet stream between from and to, newest first', async () => {
+    mockRedis.xrevrange.mockResolvedValue([
+      [
+        '1700000000500-0',
+        [
+          'entry',
+          JSON.stringify({
+            action: 'reward.failed',
+            actor: 'rewards-worker',
+            at: '2023-11-14T22:13:20.500Z'
+          })
+        ]
+      ]
+    ])
+
+    const entries = await auditService.list({
+      wallet: ALICE,
+      from: new Date(1700000000000),
+      to: new Date(1700000001000),
+      count: 10
+    })
+
+    expect(mockRedis.xrevrange).toHaveBeenCalledWith(
+      `rewards:audit:wallet:${ALICE}`,
+      '1700000001000',
+      '1700000000000',
+      'COUNT',
+      10
+    )
+    expect(entries).toEqual([
+      {
+        id: '1700000000500-0',
+        action: 'reward.failed',
+        actor: 'rewards-worker',
+        at: '2023-11-14T22:13:20.500Z'
+      }
+    ])
+  })
+})
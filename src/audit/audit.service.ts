@@ -0,0 +1,96 @@
+import { Inject, Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import Redis from 'ioredis'
+import { REDIS_CLIENT } from '../redis/redis.module'
+import type { AuditEntry, AuditEntryInput, AuditQuery } from './audit.types'
+
+const STREAM_KEY = 'rewards:audit'
+const WALLET_STREAM_PREFIX = 'rewards:audit:wallet:'
+
+// Append entry ARGV[3] to stream KEYS[1], capped at about ARGV[1] entries,
+// and to stream KEYS[2], when given, under the same ID, capped at about
+// ARGV[2]. Both in one script so no other entry can reach the wallet stream
+// with a later global ID first. Returns the ID.
+const RECORD_SCRIPT = `
+local id = redis.call("xadd", KEYS[1], "MAXLEN", "~", ARGV[1], "*", "entry", ARGV[3])
+if KEYS[2] then
+  redis.call("xadd", KEYS[2], "MAXLEN", "~", ARGV[2], id, "entry", ARGV[3])
+end
+return id
+`
+
+/**
+ * Append-only audit log on capped Redis streams. Entries naming a wallet are
+ * copied to a per-wallet stream under the same ID, so a wallet's history
+ * outlives the global cap.
+ */
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name)
+  private readonly maxLength: number
+  private readonly walletMaxLength: number
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(REDIS_CLIENT) private readonly redis: Redis
+  ) {
+    this.maxLength = parseInt(
+      this.configService.get<string>('AUDIT_LOG_MAX_LENGTH', {
+        infer: true
+      }) ?? '100000'
+    )
+    this.walletMaxLength = parseInt(
+      this.configService.get<string>('AUDIT_WALLET_LOG_MAX_LENGTH', {
+        infer: true
+      }) ?? '1000'
+    )
+  }
+
+  async record(input: AuditEntryInput): Promise<AuditEntry> {
+    const at = new Date().toISOString()
+    const entry = JSON.stringify({ ...input, at })
+    const keys = input.wallet
+      ? [STREAM_KEY, this.walletKey(input.wallet)]
+      : [STREAM_KEY]
+    const id = (await this.redis.eval(
+      RECORD_SCRIPT,
+      keys.length,
+      ...keys,
+      this.maxLength,
+      this.walletMaxLength,
+      entry
+    )) as string
+
+    this.logger.debug(
+      `${input.actor} ${input.action}${input.wallet ? ` ${input.wallet}` : ''}${input.reason ? `: ${input.reason}` : ''}`
+    )
+    return { ...input, id, at }
+  }
+
+  /**
+   * Entries between from and to, newest first, of one wallet when given
+   */
+  async list({ wallet, from, to, count = 50 }: AuditQuery = {}): Promise<
+    AuditEntry[]
+  > {
+    const entries = await this.redis.xrevrange(
+      wallet ? this.walletKey(wallet) : STREAM_KEY,
+      to ? `${to.getTime()}` : '+',
+      from ? `${from.getTime()}` : '-',
+      'COUNT',
+      count
+    )
+
+    return entries.map(([id, fields]) => ({
+      ...(JSON.parse(fields[fields.indexOf('entry') + 1]) as Omit<
+        AuditEntry,
+        'id'
+      >),
+      id
+    }))
+  }
+
+  private walletKey(wallet: string): string {
+    return `${WALLET_STREAM_PREFIX}${wallet}`
+  }
+}
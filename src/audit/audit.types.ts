@@ -0,0 +1,40 @@
+export type AuditAction =
+  | 'admin.award'
+  | 'admin.revoke'
+  | 'admin.refresh-state'
+  | 'admin.review-approve'
+  | 'admin.review-reject'
+  | 'admin.deny-list-add'
+  | 'admin.deny-list-remove'
+  | 'identity.link'
+  | 'reward.received'
+  | 'reward.processed'
+  | 'reward.failed'
+  | 'reward.review'
+
+export interface AuditEntryInput {
+  action: AuditAction
+  // Who performed the action, e.g. operator:alice or producer:wuzzy-web
+  actor: string
+  // Normalized wallet, entries with a wallet are also kept per wallet
+  wallet?: string
+  achievement?: string
+  jobId?: string
+  eventType?: string
+  reason?: string
+  // Action specific outcome
+  details?: Record<string, unknown>
+}
+
+export interface AuditEntry extends AuditEntryInput {
+  // Redis stream entry ID, "<ms>-<seq>"
+  id: string
+  at: string
+}
+
+export interface AuditQuery {
+  wallet?: string
+  from?: Date
+  to?: Date
+  count?: number
+}
@@ -0,0 +1,51 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  UnauthorizedException
+} from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import type { Request } from 'express'
+import { findCredentialId, parseCredentials } from './credentials.util'
+import type { OperatorIdentity } from './operator.types'
+
+export type OperatorRequest = Request & { operator?: OperatorIdentity }
+
+/**
+ * Authenticates operators by X-Admin-Key against ADMIN_API_KEYS
+ * ("operator:key,..."). Admin endpoints are disabled when no keys are set.
+ */
+@Injectable()
+export class AdminAuthGuard implements CanActivate {
+  private readonly logger = new Logger(AdminAuthGuard.name)
+  private readonly adminKeys: Map<string, string>
+
+  constructor(private readonly configService: ConfigService) {
+    this.adminKeys = parseCredentials(
+      this.configService.get<string>('ADMIN_API_KEYS', { infer: true })
+    )
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<OperatorRequest>()
+
+    if (this.adminKeys.size === 0) {
+      throw new UnauthorizedException(
+        'Admin API is disabled, configure ADMIN_API_KEYS to enable it'
+      )
+    }
+
+    const adminKey = request.header('x-admin-key')
+    const operatorId = adminKey
+      ? findCredentialId(this.adminKeys, adminKey)
+      : undefined
+    if (!operatorId) {
+      this.logger.warn(`Rejected admin request to ${request.path}`)
+      throw new UnauthorizedException('Invalid admin key')
+    }
+
+    request.operator = { id: operatorId }
+    return true
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common'
+import { ProducerAuthService } from './producer-auth.service'
+import { ProducerAuthGuard } from './producer-auth.guard'
+import { AdminAuthGuard } from './admin-auth.guard'
+import { RedisModule } from '../redis/redis.module'
+
+@Module({
+  imports: [RedisModule],
+  providers: [ProducerAuthService, ProducerAuthGuard, AdminAuthGuard],
+  exports: [ProducerAuthService, ProducerAuthGuard, AdminAuthGuard]
+})
+export class AuthModule {}
@@ -0,0 +1,49 @@
+import { createHash, timingSafeEqual } from 'crypto'
+
+/**
+ * Parse "id-a:secret-a,id-b:secret-b" into a map of id to secret
+ */
+export function parseCredentials(
+  value: string | undefined
+): Map<string, string> {
+  const credentials = new Map<string, string>()
+
+  for (const entry of (value ?? '').split(',')) {
+    const separator = entry.indexOf(':')
+    if (separator <= 0) {
+      continue
+    }
+    credentials.set(
+      entry.slice(0, separator).trim(),
+      entry.slice(separator + 1).trim()
+    )
+  }
+
+  return credentials
+}
+
+/**
+ * Compare two secrets in constant time regardless of their length
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const hashA = createHash('sha256').update(a).digest()
+  const hashB = createHash('sha256').update(b).digest()
+
+  return timingSafeEqual(hashA, hashB)
+}
+
+/**
+ * Find the id whose secret matches the presented one
+ */
+export function findCredentialId(
+  credentials: Map<string, string>,
+  presented: string
+): string | undefined {
+  for (const [id, secret] of credentials) {
+    if (safeEqual(presented, secret)) {
+      return id
+    }
+  }
+
+  return undefined
+}
@@ -0,0 +1,10 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common'
+import type { OperatorRequest } from './admin-auth.guard'
+
+/**
+ * Operator identity attached by AdminAuthGuard
+ */
+export const Operator = createParamDecorator(
+  (_data: unknown, context: ExecutionContext) =>
+    context.switchToHttp().getRequest<OperatorRequest>().operator
+)
@@ -0,0 +1,6 @@
+/**
+ * Identity of the operator calling an admin endpoint
+ */
+export interface OperatorIdentity {
+  id: string
+}
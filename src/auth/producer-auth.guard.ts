@@ -0,0 +1,53 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  UnauthorizedException
+} from '@nestjs/common'
+import type { Request } from 'express'
+import { ProducerAuthService } from './producer-auth.service'
+import type { ProducerIdentity } from './producer.types'
+
+export type ProducerRequest = Request & {
+  rawBody?: Buffer
+  producer?: ProducerIdentity
+}
+
+/**
+ * Authenticates the producer of a request and attaches its identity
+ * - API key: X-Api-Key
+ * - HMAC: X-Producer-Id, X-Timestamp (unix ms), X-Nonce, X-Signature (hex)
+ */
+@Injectable()
+export class ProducerAuthGuard implements CanActivate {
+  private readonly logger = new Logger(ProducerAuthGuard.name)
+
+  constructor(private readonly producerAuthService: ProducerAuthService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<ProducerRequest>()
+    const rawBody = request.rawBody
+      ? request.rawBody.toString('utf-8')
+      : JSON.stringify(request.body ?? {})
+
+    try {
+      request.producer = await this.producerAuthService.authenticate(
+        {
+          apiKey: request.header('x-api-key'),
+          producerId: request.header('x-producer-id'),
+          timestamp: request.header('x-timestamp'),
+          nonce: request.header('x-nonce'),
+          signature: request.header('x-signature')
+        },
+        rawBody
+      )
+    } catch (error) {
+      const err = error as Error
+      this.logger.warn(`Producer authentication failed: ${err.message}`)
+      throw new UnauthorizedException(err.message)
+    }
+
+    return true
+  }
+}
@@ -0,0 +1,122 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { createHmac } from 'crypto'
+import { ProducerAuthService } from './producer-auth.service'
+import { REDIS_CLIENT } from '../redis/redis.module'
+
+describe('ProducerAuthService', () => {
+  const env: Record<string, string> = {
+    PRODUCER_API_KEYS: 'wuzzy-web:web-key',
+    PRODUCER_HMAC_SECRETS: 'wuzzy-mobile:mobile-secret'
+  }
+  let producerAuthService: ProducerAuthService
+  let usedNonces: Set<string>
+
+  const sign = (timestamp: string, nonce: string, body: string) =>
+    createHmac('sha256', 'mobile-secret')
+      .update(`${timestamp}.${nonce}.${body}`)
+      .digest('hex')
+
+  const createService = async (config: Record<string, string>) => {
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProducerAuthService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) }
+        },
+        {
+          provide: REDIS_CLIENT,
+          useValue: {
+            set: jest.fn((key: string) => {
+              if (usedNonces.has(key)) {
+                return Promise.resolve(null)
+              }
+              usedNonces.add(key)
+              return Promise.resolve('OK')
+            })
+          }
+        }
+      ]
+    }).compile()
+
+    return app.get<ProducerAuthService>(ProducerAuthService)
+  }
+
+  beforeEach(async () => {
+    usedNonces = new Set()
+    producerAuthService = await createService(env)
+  })
+
+  it('should authenticate a known API key', async () => {
+    await expect(
+      producerAuthService.authenticate({ apiKey: 'web-key' }, '{}')
+    ).resolves.toEqual({ id: 'wuzzy-web', method: 'api-key' })
+    await expect(
+      producerAuthService.authenticate({ apiKey: 'wrong' }, '{}')
+    ).rejects.toThrow('Invalid API key')
+  })
+
+  it('should authenticate a valid HMAC signature once per nonce', async () => {
+    const body = '{"eventType":"image-search"}'
+    const timestamp = `${Date.now()}`
+    const headers = {
+      producerId: 'wuzzy-mobile',
+      timestamp,
+      nonce: 'abc123',
+      signature: sign(timestamp, 'abc123', body)
+    }
+
+    await expect(
+      producerAuthService.authenticate(headers, body)
+    ).resolves.toEqual({ id: 'wuzzy-mobile', method: 'hmac' })
+    await expect(
+      producerAuthService.authenticate(headers, body)
+    ).rejects.toThrow('Nonce has already been used')
+  })
+
+  it('should reject tampered bodies and stale timestamps', async () => {
+    const timestamp = `${Date.now()}`
+    await expect(
+      producerAuthService.authenticate(
+        {
+          producerId: 'wuzzy-mobile',
+          timestamp,
+          nonce: 'n1',
+          signature: sign(timestamp, 'n1', '{"a":1}')
+        },
+        '{"a":2}'
+      )
+    ).rejects.toThrow('Invalid signature')
+
+    const stale = `${Date.now() - 60 * 60 * 1000}`
+    await expect(
+      producerAuthService.authenticate(
+        {
+          producerId: 'wuzzy-mobile',
+          timestamp: stale,
+          nonce: 'n2',
+          signature: sign(stale, 'n2', '{}')
+        },
+        '{}'
+      )
+    ).rejects.toThrow('outside of tolerance window')
+  })
+
+  it('should reject every producer while no credentials are configured', async () => {
+    const service = await createService({})
+
+    await expect(
+      service.authenticate({ apiKey: 'web-key' }, '{}')
+    ).rejects.toThrow('Producer authentication is not configured')
+  })
+
+  it('should accept anonymous producers only when explicitly disabled', async () => {
+    const service = await createService({ PRODUCER_AUTH_DISABLED: 'true' })
+
+    await expect(service.authenticate({}, '{}')).resolves.toEqual({
+      id: 'anonymous',
+      method: 'anonymous'
+    })
+  })
+})
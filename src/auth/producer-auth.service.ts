@@ -0,0 +1,159 @@
+import { Inject, Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { createHmac } from 'crypto'
+import Redis from 'ioredis'
+import { REDIS_CLIENT } from '../redis/redis.module'
+import type { ProducerIdentity } from './producer.types'
+import {
+  findCredentialId,
+  parseCredentials,
+  safeEqual
+} from './credentials.util'
+
+const NONCE_KEY_PREFIX = 'rewards:auth:nonces'
+
+export interface ProducerAuthHeaders {
+  apiKey?: string
+  producerId?: string
+  timestamp?: string
+  nonce?: string
+  signature?: string
+}
+
+/**
+ * Authenticates event producers by API key or by HMAC-SHA256 signature over
+ * "<timestamp>.<nonce>.<raw body>", with timestamp tolerance and nonce replay
+ * protection. Every request is rejected while no credentials are configured,
+ * unless PRODUCER_AUTH_DISABLED=true accepts anonymous producers.
+ */
+@Injectable()
+export class ProducerAuthService {
+  private readonly logger = new Logger(ProducerAuthService.name)
+  private readonly apiKeys: Map<string, string>
+  private readonly hmacSecrets: Map<string, string>
+  private readonly hmacToleranceMs: number
+  private readonly authDisabled: boolean
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(REDIS_CLIENT) private readonly redis: Redis
+  ) {
+    this.apiKeys = parseCredentials(
+      this.configService.get<string>('PRODUCER_API_KEYS', { infer: true })
+    )
+    this.hmacSecrets = parseCredentials(
+      this.configService.get<string>('PRODUCER_HMAC_SECRETS', { infer: true })
+    )
+
+    // Default tolerance of 5 minutes, configurable via env
+    this.hmacToleranceMs = parseInt(
+      this.configService.get<string>('PRODUCER_HMAC_TOLERANCE_MS', {
+        infer: true
+      }) ?? '300000'
+    )
+
+    this.authDisabled =
+      (this.configService.get<string>('PRODUCER_AUTH_DISABLED', {
+        infer: true
+      }) ?? 'false') === 'true'
+
+    if (this.authDisabled) {
+      this.logger.warn(
+        'PRODUCER_AUTH_DISABLED is set, accepting events from anonymous producers'
+      )
+    } else if (!this.hasCredentials()) {
+      this.logger.error(
+        'No PRODUCER_API_KEYS or PRODUCER_HMAC_SECRETS configured, ' +
+          'rejecting every event'
+      )
+    } else {
+      this.logger.log(
+        `✓ Loaded ${this.apiKeys.size} producer API keys and ${this.hmacSecrets.size} HMAC secrets`
+      )
+    }
+  }
+
+  /**
+   * Resolve the producer identity for a request, throwing if credentials are
+   * missing or invalid
+   */
+  async authenticate(
+    headers: ProducerAuthHeaders,
+    rawBody: string
+  ): Promise<ProducerIdentity> {
+    if (this.authDisabled) {
+      return { id: 'anonymous', method: 'anonymous' }
+    }
+    if (!this.hasCredentials()) {
+      throw new Error('Producer authentication is not configured')
+    }
+
+    if (headers.apiKey) {
+      return this.authenticateApiKey(headers.apiKey)
+    }
+
+    if (headers.signature) {
+      return this.authenticateHmac(headers, rawBody)
+    }
+
+    throw new Error('Missing producer credentials')
+  }
+
+  private authenticateApiKey(apiKey: string): ProducerIdentity {
+    const id = findCredentialId(this.apiKeys, apiKey)
+    if (!id) {
+      throw new Error('Invalid API key')
+    }
+
+    return { id, method: 'api-key' }
+  }
+
+  private async authenticateHmac(
+    { producerId, timestamp, nonce, signature }: ProducerAuthHeaders,
+    rawBody: string
+  ): Promise<ProducerIdentity> {
+    if (!producerId || !timestamp || !nonce || !signature) {
+      throw new Error(
+        'HMAC authentication requires producer id, timestamp, nonce and signature'
+      )
+    }
+
+    const secret = this.hmacSecrets.get(producerId)
+    if (!secret) {
+      throw new Error(`Unknown producer: ${producerId}`)
+    }
+
+    const signedAt = parseInt(timestamp, 10)
+    if (
+      !Number.isFinite(signedAt) ||
+      Math.abs(Date.now() - signedAt) > this.hmacToleranceMs
+    ) {
+      throw new Error('Signature timestamp outside of tolerance window')
+    }
+
+    const expected = createHmac('sha256', secret)
+      .update(`${timestamp}.${nonce}.${rawBody}`)
+      .digest('hex')
+    if (!safeEqual(signature.toLowerCase(), expected)) {
+      throw new Error('Invalid signature')
+    }
+
+    // Nonces only need to be remembered for as long as the timestamp is valid
+    const fresh = await this.redis.set(
+      `${NONCE_KEY_PREFIX}:${producerId}:${nonce}`,
+      timestamp,
+      'PX',
+      this.hmacToleranceMs * 2,
+      'NX'
+    )
+    if (!fresh) {
+      throw new Error('Nonce has already been used')
+    }
+
+    return { id: producerId, method: 'hmac' }
+  }
+
+  private hasCredentials(): boolean {
+    return this.apiKeys.size > 0 || this.hmacSecrets.size > 0
+  }
+}
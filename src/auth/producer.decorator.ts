@@ -0,0 +1,10 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common'
+import type { ProducerRequest } from './producer-auth.guard'
+
+/**
+ * Producer identity attached by ProducerAuthGuard
+ */
+export const Producer = createParamDecorator(
+  (_data: unknown, context: ExecutionContext) =>
+    context.switchToHttp().getRequest<ProducerRequest>().producer
+)
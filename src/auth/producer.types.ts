@@ -0,0 +1,9 @@
+export type ProducerAuthMethod = 'api-key' | 'hmac' | 'anonymous'
+
+/**
+ * Identity of the producer that submitted a reward event
+ */
+export interface ProducerIdentity {
+  id: string
+  method: ProducerAuthMethod
+}
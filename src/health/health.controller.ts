@@ -0,0 +1,33 @@
+import { Controller, Get, ServiceUnavailableException } from '@nestjs/common'
+import { HealthService } from './health.service'
+
+@Controller('health')
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  /**
+   * The process is up and serving HTTP
+   */
+  @Get('live')
+  getLiveness() {
+    return {
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      uptimeSeconds: Math.round(process.uptime())
+    }
+  }
+
+  /**
+   * Redis, the process state, the award ACL and the worker are healthy,
+   * 503 with the failing components otherwise
+   */
+  @Get('ready')
+  async getReadiness() {
+    const report = await this.healthService.checkReadiness()
+    if (report.status !== 'ok') {
+      throw new ServiceUnavailableException(report)
+    }
+
+    return report
+  }
+}
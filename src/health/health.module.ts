@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common'
+import { HealthController } from './health.controller'
+import { HealthService } from './health.service'
+import { RedisModule } from '../redis/redis.module'
+import { AoModule } from '../ao/ao.module'
+import { AchievementsModule } from '../achievements/achievements.module'
+import { RewardsModule } from '../rewards/rewards.module'
+
+@Module({
+  imports: [RedisModule, AoModule, AchievementsModule, RewardsModule],
+  controllers: [HealthController],
+  providers: [HealthService]
+})
+export class HealthModule {}
@@ -0,0 +1,136 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { HealthService } from './health.service'
+import { REDIS_CLIENT } from '../redis/redis.module'
+import { AchievementsService } from '../achievements/achievements.service'
+import { RewardsProcessor } from '../rewards/rewards.processor'
+import { AO_CLIENT } from '../ao/ao.module'
+import { AoClient, readAoClientConfig } from '../utils/ao-client'
+
+describe('HealthService', () => {
+  let healthService: HealthService
+  let aoClient: AoClient
+
+  const redis = { ping: jest.fn() }
+  const achievementsService = {
+    getProcessState: jest.fn(),
+    getStateFetchedAt: jest.fn(),
+    verifyAwardPermissions: jest.fn()
+  }
+  const worker = { isRunning: jest.fn(), isPaused: jest.fn() }
+  const configService = {
+    get: (key: string) =>
+      key === 'HEALTH_STATE_MAX_AGE_MS' ? '60000' : undefined
+  } as unknown as ConfigService
+
+  beforeEach(async () => {
+    jest.resetAllMocks()
+    redis.ping.mockResolvedValue('PONG')
+    achievementsService.getProcessState.mockResolvedValue({})
+    achievementsService.getStateFetchedAt.mockReturnValue(Date.now())
+    achievementsService.verifyAwardPermissions.mockResolvedValue(undefined)
+    worker.isRunning.mockReturnValue(true)
+    worker.isPaused.mockReturnValue(false)
+    aoClient = new AoClient(readAoClientConfig(configService))
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        HealthService,
+        { provide: ConfigService, useValue: configService },
+        { provide: REDIS_CLIENT, useValue: redis },
+        { provide: AchievementsService, useValue: achievementsService },
+        { provide: RewardsProcessor, useValue: { worker } },
+        { provide: AO_CLIENT, useValue: aoClient }
+      ]
+    }).compile()
+
+    healthService = app.get<HealthService>(HealthService)
+  })
+
+  it('should be ready when every component is up', async () => {
+    const report = await healthService.checkReadiness()
+
+    expect(report.status).toBe('ok')
+    expect(report.checks).toMatchObject({
+      redis: { status: 'up' },
+      state: { status: 'up', maxAgeMs: 60000 },
+      acl: { status: 'up' },
+      worker: { status: 'up', running: true, paused: false },
+      ao: { status: 'up', circuit: 'closed' }
+    })
+  })
+
+  it('should report AO degraded without failing readiness once every CU endpoint is unhealthy', async () => {
+    for (const endpoint of aoClient.cu.endpoints) {
+      aoClient.cu.recordFailure(endpoint, 'fetch failed')
+    }
+
+    const { status, checks } = await healthService.checkReadiness()
+
+    expect(status).toBe('ok')
+    expect(checks.ao).toMatchObject({
+      status: 'degraded',
+      cu: { endpoints: [{ healthy: false, lastError: 'fetch failed' }] }
+    })
+  })
+
+  it('should tolerate a failed state refresh while the cached state is fresh', async () => {
+    achievementsService.getProcessState.mockRejectedValue(
+      new Error('CU unavailable')
+    )
+
+    const { checks } = await healthService.checkReadiness()
+
+    expect(checks.state).toMatchObject({
+      status: 'up',
+      error: 'CU unavailable'
+    })
+  })
+
+  it('should report a paused worker as degraded without failing readiness', async () => {
+    worker.isPaused.mockReturnValue(true)
+
+    const report = await healthService.checkReadiness()
+
+    expect(report.status).toBe('ok')
+    expect(report.checks.worker).toEqual({
+      status: 'degraded',
+      running: true,
+      paused: true
+    })
+  })
+
+  it('should report stale state, lost permissions and a stopped worker', async () => {
+    achievementsService.getStateFetchedAt.mockReturnValue(Date.now() - 120000)
+    achievementsService.verifyAwardPermissions.mockRejectedValue(
+      new Error('Wallet does not have Award-Cheese-Mint permission')
+    )
+    worker.isRunning.mockReturnValue(false)
+    redis.ping.mockRejectedValue(new Error('Connection is closed.'))
+
+    const report = await healthService.checkReadiness()
+
+    expect(report.status).toBe('error')
+    expect(report.checks).toMatchObject({
+      redis: { status: 'down', error: 'Connection is closed.' },
+      state: { status: 'down' },
+      acl: {
+        status: 'down',
+        error: 'Wallet does not have Award-Cheese-Mint permission'
+      },
+      worker: { status: 'down', running: false }
+    })
+  })
+
+  it('should report state that was never fetched as down', async () => {
+    achievementsService.getStateFetchedAt.mockReturnValue(null)
+
+    const { checks } = await healthService.checkReadiness()
+
+    expect(checks.state).toMatchObject({
+      status: 'down',
+      lastFetchedAt: null,
+      ageMs: null
+    })
+  })
+})
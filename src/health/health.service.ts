@@ -0,0 +1,163 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import Redis from 'ioredis'
+import { REDIS_CLIENT } from '../redis/redis.module'
+import { AchievementsService } from '../achievements/achievements.service'
+import { RewardsProcessor } from '../rewards/rewards.processor'
+import { AO_CLIENT } from '../ao/ao.module'
+import { AoClient } from '../utils/ao-client'
+import type { AoEndpointPool } from '../utils/ao-endpoints'
+import type { ComponentHealth, ReadinessReport } from './health.types'
+
+/**
+ * Readiness of the dependencies an instance needs to process rewards
+ */
+@Injectable()
+export class HealthService {
+  private readonly stateMaxAgeMs: number
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    private readonly achievementsService: AchievementsService,
+    private readonly rewardsProcessor: RewardsProcessor,
+    @Inject(AO_CLIENT) private readonly aoClient: AoClient
+  ) {
+    // Default of 10 minutes, twice the default state cache TTL
+    this.stateMaxAgeMs = parseInt(
+      this.configService.get<string>('HEALTH_STATE_MAX_AGE_MS', {
+        infer: true
+      }) ?? '600000'
+    )
+  }
+
+  async checkReadiness(): Promise<ReadinessReport> {
+    // The state check refreshes an expired state cache, run it before the ACL
+    // check so that one reads the fresh state
+    const [redis, state] = await Promise.all([
+      this.checkRedis(),
+      this.checkState()
+    ])
+    const checks = {
+      redis,
+      state,
+      acl: await this.checkAcl(),
+      worker: this.checkWorker(),
+      ao: this.checkAoEndpoints()
+    }
+
+    return {
+      status: Object.values(checks).some(({ status }) => status === 'down')
+        ? 'error'
+        : 'ok',
+      timestamp: new Date().toISOString(),
+      checks
+    }
+  }
+
+  private async checkRedis(): Promise<ComponentHealth> {
+    const startedAt = Date.now()
+    try {
+      await this.redis.ping()
+      return { status: 'up', latencyMs: Date.now() - startedAt }
+    } catch (error) {
+      return { status: 'down', error: (error as Error).message }
+    }
+  }
+
+  /**
+   * Up while the last successful process state fetch is recent enough. A
+   * failed refresh is reported but only fails the check once the state ages
+   * past HEALTH_STATE_MAX_AGE_MS.
+   */
+  private async checkState(): Promise<ComponentHealth> {
+    let error: string | undefined
+    try {
+      await this.achievementsService.getProcessState()
+    } catch (err) {
+      error = (err as Error).message
+    }
+
+    const fetchedAt = this.achievementsService.getStateFetchedAt()
+    const ageMs = fetchedAt === null ? null : Date.now() - fetchedAt
+
+    return {
+      status: ageMs !== null && ageMs <= this.stateMaxAgeMs ? 'up' : 'down',
+      lastFetchedAt:
+        fetchedAt === null ? null : new Date(fetchedAt).toISOString(),
+      ageMs,
+      maxAgeMs: this.stateMaxAgeMs,
+      ...(error && { error })
+    }
+  }
+
+  private async checkAcl(): Promise<ComponentHealth> {
+    try {
+      await this.achievementsService.verifyAwardPermissions()
+      return { status: 'up' }
+    } catch (error) {
+      return { status: 'down', error: (error as Error).message }
+    }
+  }
+
+  /**
+   * Up while at least one CU and one MU endpoint is healthy, degraded
+   * otherwise. Events still queue during an AO outage, so it doesn't fail
+   * readiness.
+   */
+  private checkAoEndpoints(): ComponentHealth {
+    const describe = (pool: AoEndpointPool) => ({
+      active: pool.active.url,
+      endpoints: pool.endpoints.map(
+        ({
+          url,
+          healthy,
+          latencyMs,
+          probeLatencyMs,
+          lastCheckedAt,
+          lastError
+        }) => ({
+          url,
+          healthy,
+          latencyMs,
+          probeLatencyMs,
+          lastCheckedAt:
+            lastCheckedAt === null
+              ? null
+              : new Date(lastCheckedAt).toISOString(),
+          lastError
+        })
+      )
+    })
+    const healthy = [this.aoClient.cu, this.aoClient.mu].every((pool) =>
+      pool.endpoints.some(({ healthy }) => healthy)
+    )
+
+    return {
+      status: healthy ? 'up' : 'degraded',
+      circuit: this.aoClient.circuitBreaker.getState(),
+      cu: describe(this.aoClient.cu),
+      mu: describe(this.aoClient.mu)
+    }
+  }
+
+  /**
+   * Degraded while paused, which the AO circuit does during an outage. The
+   * instance should keep accepting events for the queue meanwhile.
+   */
+  private checkWorker(): ComponentHealth {
+    try {
+      const { worker } = this.rewardsProcessor
+      const running = worker.isRunning()
+      const paused = worker.isPaused()
+
+      return {
+        status: !running ? 'down' : paused ? 'degraded' : 'up',
+        running,
+        paused
+      }
+    } catch (error) {
+      return { status: 'down', error: (error as Error).message }
+    }
+  }
+}
@@ -0,0 +1,21 @@
+// Degraded components are reported but don't fail readiness
+export type HealthStatus = 'up' | 'degraded' | 'down'
+
+export interface ComponentHealth {
+  status: HealthStatus
+  error?: string
+  // Component specific detail, e.g. the state age
+  [detail: string]: unknown
+}
+
+export interface ReadinessReport {
+  status: 'ok' | 'error'
+  timestamp: string
+  checks: {
+    redis: ComponentHealth
+    state: ComponentHealth
+    acl: ComponentHealth
+    worker: ComponentHealth
+    ao: ComponentHealth
+  }
+}
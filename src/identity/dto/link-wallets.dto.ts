@@ -0,0 +1,36 @@
+import { Type } from 'class-transformer'
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsNotEmpty,
+  IsString,
+  ValidateNested
+} from 'class-validator'
+import { WalletProofDto } from '../../rewards/dto/reward-event.dto'
+
+export const MAX_LINKED_WALLETS_PER_REQUEST = 10
+
+export class WalletLinkDto {
+  @IsString()
+  @IsNotEmpty()
+  address: string
+
+  // Signed WalletProofVerifier.buildLinkChallenge naming the primary
+  @ValidateNested()
+  @Type(() => WalletProofDto)
+  proof: WalletProofDto
+}
+
+export class LinkWalletsDto {
+  @ValidateNested()
+  @Type(() => WalletLinkDto)
+  primary: WalletLinkDto
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_LINKED_WALLETS_PER_REQUEST)
+  @ValidateNested({ each: true })
+  @Type(() => WalletLinkDto)
+  wallets: WalletLinkDto[]
+}
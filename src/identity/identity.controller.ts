@@ -0,0 +1,89 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UsePipes,
+  ValidationPipe
+} from '@nestjs/common'
+import { IdentityService } from './identity.service'
+import { LinkWalletsDto, WalletLinkDto } from './dto/link-wallets.dto'
+import type { WalletLink } from './identity.types'
+import { WalletProofVerifier } from '../utils/wallet-proof.verifier'
+import {
+  ResolvedWallet,
+  WalletResolverService
+} from '../names/wallet-resolver.service'
+
+@Controller('identities')
+@UsePipes(
+  new ValidationPipe({
+    whitelist: true,
+    forbidNonWhitelisted: true,
+    transform: true
+  })
+)
+export class IdentityController {
+  constructor(
+    private readonly identityService: IdentityService,
+    private readonly walletResolver: WalletResolverService
+  ) {}
+
+  /**
+   * Challenge a wallet signs to be linked to the primary address
+   */
+  @Get('challenge')
+  async getChallenge(
+    @Query('address') address: string,
+    @Query('primary') primary: string
+  ) {
+    return {
+      message: WalletProofVerifier.buildLinkChallenge(
+        (await this.validate(address)).normalized!,
+        (await this.validate(primary)).normalized!
+      )
+    }
+  }
+
+  /**
+   * Link wallets to a primary address, every wallet signing a link challenge
+   */
+  @Post('links')
+  @HttpCode(HttpStatus.OK)
+  async link(@Body() dto: LinkWalletsDto) {
+    return this.identityService.link(
+      await this.toWalletLink(dto.primary),
+      await Promise.all(dto.wallets.map((wallet) => this.toWalletLink(wallet)))
+    )
+  }
+
+  @Get(':address')
+  async getIdentity(@Param('address') address: string) {
+    return this.identityService.getIdentity(
+      (await this.validate(address)).normalized!
+    )
+  }
+
+  private async toWalletLink({
+    address,
+    proof
+  }: WalletLinkDto): Promise<WalletLink> {
+    const validation = await this.validate(address)
+    return { address: validation.normalized!, type: validation.type!, proof }
+  }
+
+  private async validate(address: string): Promise<ResolvedWallet> {
+    const validation = await this.walletResolver.resolve(address)
+    if (!validation.valid || !validation.normalized || !validation.type) {
+      throw new BadRequestException(
+        `Wallet validation failed: ${validation.error}`
+      )
+    }
+    return validation
+  }
+}
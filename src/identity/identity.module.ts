@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common'
+import { IdentityService } from './identity.service'
+import { IdentityController } from './identity.controller'
+import { RedisModule } from '../redis/redis.module'
+import { AuditModule } from '../audit/audit.module'
+import { NamesModule } from '../names/names.module'
+
+@Module({
+  imports: [RedisModule, AuditModule, NamesModule],
+  controllers: [IdentityController],
+  providers: [IdentityService],
+  exports: [IdentityService]
+})
+export class IdentityModule {}
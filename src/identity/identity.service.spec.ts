@@ -0,0 +1,108 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { BadRequestException, ConflictException } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { HDNodeWallet, Wallet } from 'ethers'
+import { REDIS_CLIENT } from '../redis/redis.module'
+import { AuditService } from '../audit/audit.service'
+import { WalletProofVerifier } from '../utils/wallet-proof.verifier'
+import { IdentityService } from './identity.service'
+import type { WalletLink } from './identity.types'
+
+describe('IdentityService', () => {
+  let identityService: IdentityService
+  let mockRedis: { get: jest.Mock; smembers: jest.Mock; eval: jest.Mock }
+  const primary = Wallet.createRandom()
+  const secondary = Wallet.createRandom()
+
+  const linkOf = async (
+    wallet: HDNodeWallet,
+    primaryAddress = primary.address
+  ): Promise<WalletLink> => {
+    const message = WalletProofVerifier.buildLinkChallenge(
+      wallet.address,
+      primaryAddress
+    )
+    return {
+      address: wallet.address,
+      type: 'evm',
+      proof: { message, signature: await wallet.signMessage(message) }
+    }
+  }
+
+  beforeEach(async () => {
+    mockRedis = {
+      get: jest.fn().mockResolvedValue(null),
+      smembers: jest.fn().mockResolvedValue([]),
+      eval: jest.fn().mockResolvedValue([primary.address, secondary.address])
+    }
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdentityService,
+        { provide: ConfigService, useValue: { get: () => undefined } },
+        { provide: REDIS_CLIENT, useValue: mockRedis },
+        {
+          provide: AuditService,
+          useValue: { record: jest.fn().mockResolvedValue({}) }
+        }
+      ]
+    }).compile()
+
+    identityService = app.get<IdentityService>(IdentityService)
+  })
+
+  it('should resolve unlinked wallets to themselves', async () => {
+    await expect(
+      identityService.getIdentity(secondary.address)
+    ).resolves.toEqual({
+      primary: secondary.address,
+      wallets: [secondary.address]
+    })
+  })
+
+  it('should resolve linked wallets to their primary', async () => {
+    mockRedis.get.mockResolvedValue(primary.address)
+
+    await expect(
+      identityService.resolvePrimary(secondary.address)
+    ).resolves.toBe(primary.address)
+  })
+
+  it('should link wallets whose proofs name the primary', async () => {
+    const identity = await identityService.link(await linkOf(primary), [
+      await linkOf(secondary)
+    ])
+
+    expect(identity.primary).toBe(primary.address)
+    expect(mockRedis.eval).toHaveBeenCalledWith(
+      expect.any(String),
+      3,
+      `rewards:identity:wallets:${primary.address}`,
+      `rewards:identity:primary:${primary.address}`,
+      `rewards:identity:primary:${secondary.address}`,
+      primary.address,
+      10,
+      primary.address,
+      secondary.address
+    )
+  })
+
+  it('should reject proofs signed for another primary', async () => {
+    await expect(
+      identityService.link(await linkOf(primary), [
+        await linkOf(secondary, secondary.address)
+      ])
+    ).rejects.toThrow(BadRequestException)
+    expect(mockRedis.eval).not.toHaveBeenCalled()
+  })
+
+  it('should reject wallets linked to another primary', async () => {
+    mockRedis.eval.mockRejectedValue(
+      new Error(`CONFLICT ${secondary.address} is linked to someone-else`)
+    )
+
+    await expect(
+      identityService.link(await linkOf(primary), [await linkOf(secondary)])
+    ).rejects.toThrow(ConflictException)
+  })
+})
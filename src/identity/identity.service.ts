@@ -0,0 +1,161 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger
+} from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import Redis from 'ioredis'
+import { REDIS_CLIENT } from '../redis/redis.module'
+import { WalletProofVerifier } from '../utils/wallet-proof.verifier'
+import { AuditService } from '../audit/audit.service'
+import type { WalletIdentity, WalletLink } from './identity.types'
+
+const KEY_PREFIX = 'rewards:identity'
+
+// Link wallets to ARGV[1] unless one of them (or the primary itself) already
+// belongs to another primary or the identity would exceed ARGV[2] wallets.
+// KEYS[1]: wallet set of the primary, KEYS[2..]: primary key of each wallet,
+// the primary first, in the order of ARGV[3..]
+const LINK_SCRIPT = `
+local primary = ARGV[1]
+local added = 0
+for i = 2, #KEYS do
+  local current = redis.call("get", KEYS[i])
+  if current and current ~= primary then
+    return redis.error_reply("CONFLICT " .. ARGV[i + 1] .. " is linked to " .. current)
+  end
+  if not current then
+    added = added + 1
+  end
+end
+if redis.call("scard", KEYS[1]) + added > tonumber(ARGV[2]) then
+  return redis.error_reply("LIMIT identities hold at most " .. ARGV[2] .. " wallets")
+end
+for i = 2, #KEYS do
+  redis.call("set", KEYS[i], primary)
+  redis.call("sadd", KEYS[1], ARGV[i + 1])
+end
+return redis.call("smembers", KEYS[1])
+`
+
+/**
+ * Links wallets across chains into one identity whose primary address
+ * receives every award. Each wallet, the primary included, must sign a link
+ * challenge naming the primary.
+ * - rewards:identity:primary:<wallet>: primary address of a linked wallet
+ * - rewards:identity:wallets:<primary>: linked wallets of a primary
+ */
+@Injectable()
+export class IdentityService {
+  private readonly logger = new Logger(IdentityService.name)
+  private readonly walletProofMaxAgeMs: number
+  private readonly maxWallets: number
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    private readonly auditService: AuditService
+  ) {
+    this.walletProofMaxAgeMs = parseInt(
+      this.configService.get<string>('WALLET_PROOF_MAX_AGE_MS', {
+        infer: true
+      }) ?? '600000'
+    )
+    this.maxWallets = parseInt(
+      this.configService.get<string>('IDENTITY_MAX_WALLETS', {
+        infer: true
+      }) ?? '10'
+    )
+  }
+
+  /**
+   * Primary address of a normalized wallet, the wallet itself if unlinked
+   */
+  async resolvePrimary(walletAddress: string): Promise<string> {
+    return (
+      (await this.redis.get(this.primaryKey(walletAddress))) ?? walletAddress
+    )
+  }
+
+  async getIdentity(walletAddress: string): Promise<WalletIdentity> {
+    const primary = await this.resolvePrimary(walletAddress)
+    const wallets = await this.redis.smembers(this.walletsKey(primary))
+
+    return {
+      primary,
+      wallets: wallets.length > 0 ? wallets.sort() : [primary]
+    }
+  }
+
+  /**
+   * Verify every link proof and link the wallets to the primary
+   */
+  async link(
+    primary: WalletLink,
+    wallets: WalletLink[]
+  ): Promise<WalletIdentity> {
+    const links = [
+      primary,
+      ...wallets.filter(
+        (wallet, i) =>
+          wallet.address !== primary.address &&
+          wallets.findIndex(({ address }) => address === wallet.address) === i
+      )
+    ]
+
+    for (const { address, type, proof } of links) {
+      const verification = WalletProofVerifier.verify(address, type, proof, {
+        maxAgeMs: this.walletProofMaxAgeMs,
+        linkTo: primary.address
+      })
+      if (!verification.valid) {
+        throw new BadRequestException(
+          `Link proof for ${address} failed: ${verification.error}`
+        )
+      }
+    }
+
+    let members: string[]
+    try {
+      members = (await this.redis.eval(
+        LINK_SCRIPT,
+        links.length + 1,
+        this.walletsKey(primary.address),
+        ...links.map(({ address }) => this.primaryKey(address)),
+        primary.address,
+        this.maxWallets,
+        ...links.map(({ address }) => address)
+      )) as string[]
+    } catch (error) {
+      const message = (error as Error).message
+      if (message.startsWith('CONFLICT ')) {
+        throw new ConflictException(message.slice('CONFLICT '.length))
+      }
+      if (message.startsWith('LIMIT ')) {
+        throw new BadRequestException(message.slice('LIMIT '.length))
+      }
+      throw error
+    }
+
+    const linked = links.slice(1).map(({ address }) => address)
+    this.logger.log(`Linked ${linked.join(', ')} to ${primary.address}`)
+    await this.auditService.record({
+      action: 'identity.link',
+      actor: `wallet:${primary.address}`,
+      wallet: primary.address,
+      details: { linked }
+    })
+
+    return { primary: primary.address, wallets: members.sort() }
+  }
+
+  private primaryKey(walletAddress: string): string {
+    return `${KEY_PREFIX}:primary:${walletAddress}`
+  }
+
+  private walletsKey(primary: string): string {
+    return `${KEY_PREFIX}:wallets:${primary}`
+  }
+}
@@ -0,0 +1,21 @@
+import type { WalletProof } from '../utils/wallet-proof.verifier'
+import type { WalletType } from '../utils/wallet.validator'
+
+/**
+ * Wallets one person proved control of. Awards and progress go to the
+ * primary address, lookups by any linked wallet resolve to it.
+ */
+export interface WalletIdentity {
+  primary: string
+  // Every linked wallet, the primary included
+  wallets: string[]
+}
+
+/**
+ * A normalized wallet with its signed link challenge
+ */
+export interface WalletLink {
+  address: string
+  type: WalletType
+  proof: WalletProof
+}
@@ -0,0 +1,41 @@
+import { Type } from 'class-transformer'
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min
+} from 'class-validator'
+
+export const LEADERBOARD_WINDOWS = ['all', 'weekly', 'monthly'] as const
+export type LeaderboardWindow = (typeof LEADERBOARD_WINDOWS)[number]
+
+export class LeaderboardScopeDto {
+  // Only count cheese mints of this category
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  category?: string
+
+  // Only count awards made in the last 7 (weekly) or 30 (monthly) days
+  @IsOptional()
+  @IsIn(LEADERBOARD_WINDOWS)
+  window?: LeaderboardWindow
+}
+
+export class LeaderboardQueryDto extends LeaderboardScopeDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number
+}
@@ -0,0 +1,46 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Param,
+  Query,
+  UsePipes,
+  ValidationPipe
+} from '@nestjs/common'
+import { LeaderboardService } from './leaderboard.service'
+import {
+  LeaderboardQueryDto,
+  LeaderboardScopeDto
+} from './dto/leaderboard-query.dto'
+import { WalletResolverService } from '../names/wallet-resolver.service'
+
+@Controller()
+@UsePipes(new ValidationPipe({ whitelist: true, transform: true }))
+export class LeaderboardController {
+  constructor(
+    private readonly leaderboardService: LeaderboardService,
+    private readonly walletResolver: WalletResolverService
+  ) {}
+
+  @Get('leaderboard')
+  async getLeaderboard(@Query() query: LeaderboardQueryDto) {
+    const { page, limit, ...scope } = query
+
+    return this.leaderboardService.getLeaderboard(scope, page, limit)
+  }
+
+  @Get('wallets/:address/rank')
+  async getWalletRank(
+    @Param('address') address: string,
+    @Query() scope: LeaderboardScopeDto
+  ) {
+    const validation = await this.walletResolver.resolve(address)
+    if (!validation.valid || !validation.normalized) {
+      throw new BadRequestException(
+        `Wallet validation failed: ${validation.error}`
+      )
+    }
+
+    return this.leaderboardService.getWalletRank(validation.normalized, scope)
+  }
+}
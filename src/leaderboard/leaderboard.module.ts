@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common'
+import { LeaderboardService } from './leaderboard.service'
+import { LeaderboardController } from './leaderboard.controller'
+import { AchievementsModule } from '../achievements/achievements.module'
+import { NamesModule } from '../names/names.module'
+
+@Module({
+  imports: [AchievementsModule, NamesModule],
+  controllers: [LeaderboardController],
+  providers: [LeaderboardService],
+  exports: [LeaderboardService]
+})
+export class LeaderboardModule {}
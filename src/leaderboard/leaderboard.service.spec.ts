@@ -0,0 +1,110 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { LeaderboardService } from './leaderboard.service'
+import { AchievementsService } from '../achievements/achievements.service'
+import type { CheeseMintCollectionState } from '../achievements/achievements.types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const now = Date.now()
+
+const mint = (id: string, points: number, category: string) => ({
+  id,
+  name: id,
+  created_at: 1,
+  created_by: 'owner',
+  description: id,
+  points,
+  icon: id,
+  category
+})
+const award = (awardedAt: number) => ({
+  awarded_by: 'goblin',
+  awarded_at: awardedAt,
+  message_id: 'msg'
+})
+
+const state: CheeseMintCollectionState = {
+  owner: 'owner',
+  acl: { roles: {} },
+  cheese_mints_by_id: {
+    searcher: mint('searcher', 10, 'search'),
+    image: mint('image', 20, 'search'),
+    event: mint('event', 50, 'events')
+  },
+  cheese_mints_by_address: {
+    alice: { searcher: award(now - 60 * DAY_MS), image: award(now - DAY_MS) },
+    bob: { event: award(now - 10 * DAY_MS) },
+    carol: { searcher: award(now - DAY_MS), image: award(now - 2 * DAY_MS) }
+  }
+}
+
+describe('LeaderboardService', () => {
+  let leaderboardService: LeaderboardService
+  let getProcessState: jest.Mock
+
+  beforeEach(async () => {
+    getProcessState = jest.fn().mockResolvedValue(state)
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        LeaderboardService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn(() => undefined) }
+        },
+        {
+          provide: AchievementsService,
+          useValue: { getProcessState }
+        }
+      ]
+    }).compile()
+
+    leaderboardService = app.get<LeaderboardService>(LeaderboardService)
+  })
+
+  it('should rank wallets by total points with shared ranks for ties', async () => {
+    const leaderboard = await leaderboardService.getLeaderboard({})
+
+    expect(
+      leaderboard.entries.map(({ rank, wallet, points }) => [
+        rank,
+        wallet,
+        points
+      ])
+    ).toEqual([
+      [1, 'bob', 50],
+      [2, 'alice', 30],
+      [2, 'carol', 30]
+    ])
+  })
+
+  it('should filter by category and time window', async () => {
+    const search = await leaderboardService.getLeaderboard({
+      category: 'search',
+      window: 'weekly'
+    })
+
+    expect(search.entries).toEqual([
+      { rank: 1, wallet: 'carol', points: 30, achievements: 2 },
+      { rank: 2, wallet: 'alice', points: 20, achievements: 1 }
+    ])
+  })
+
+  it('should paginate and report wallet ranks', async () => {
+    const page = await leaderboardService.getLeaderboard({}, 2, 2)
+    expect(page.entries.map(({ wallet }) => wallet)).toEqual(['carol'])
+
+    await expect(
+      leaderboardService.getWalletRank('dave', {})
+    ).resolves.toMatchObject({ rank: 4, points: 0, total: 3 })
+  })
+
+  it('should reuse cached rankings while the state is unchanged', async () => {
+    const rankSpy = jest.spyOn(LeaderboardService, 'rank')
+
+    await leaderboardService.getLeaderboard({})
+    await leaderboardService.getWalletRank('alice', {})
+
+    expect(rankSpy).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,157 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { AchievementsService } from '../achievements/achievements.service'
+import type { CheeseMintCollectionState } from '../achievements/achievements.types'
+import type {
+  LeaderboardScopeDto,
+  LeaderboardWindow
+} from './dto/leaderboard-query.dto'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WINDOW_DURATIONS_MS: Record<LeaderboardWindow, number | null> = {
+  all: null,
+  weekly: 7 * DAY_MS,
+  monthly: 30 * DAY_MS
+}
+
+export interface LeaderboardEntry {
+  rank: number
+  wallet: string
+  points: number
+  achievements: number
+}
+
+interface CachedRanking {
+  state: CheeseMintCollectionState
+  computedAt: number
+  entries: LeaderboardEntry[]
+}
+
+/**
+ * Ranks wallets by the points of their awarded cheese mints. Rankings are
+ * cached per category/window until the TTL expires or the process state
+ * is refreshed.
+ */
+@Injectable()
+export class LeaderboardService {
+  private readonly logger = new Logger(LeaderboardService.name)
+  private readonly cacheTtlMs: number
+  private readonly rankings: Map<string, CachedRanking> = new Map()
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly achievementsService: AchievementsService
+  ) {
+    // Default TTL of 1 minute, configurable via env
+    this.cacheTtlMs = parseInt(
+      this.configService.get<string>('LEADERBOARD_CACHE_TTL_MS', {
+        infer: true
+      }) ?? '60000'
+    )
+  }
+
+  async getLeaderboard(scope: LeaderboardScopeDto, page = 1, limit = 25) {
+    const entries = await this.getRanking(scope)
+    const offset = (page - 1) * limit
+
+    return {
+      window: scope.window ?? 'all',
+      category: scope.category ?? null,
+      page,
+      limit,
+      total: entries.length,
+      entries: entries.slice(offset, offset + limit)
+    }
+  }
+
+  async getWalletRank(
+    walletAddress: string,
+    scope: LeaderboardScopeDto
+  ): Promise<LeaderboardEntry & { total: number }> {
+    const entries = await this.getRanking(scope)
+    const entry = entries.find(({ wallet }) => wallet === walletAddress)
+
+    return {
+      ...(entry ?? {
+        rank: entries.length + 1,
+        wallet: walletAddress,
+        points: 0,
+        achievements: 0
+      }),
+      total: entries.length
+    }
+  }
+
+  private async getRanking(
+    scope: LeaderboardScopeDto
+  ): Promise<LeaderboardEntry[]> {
+    const state = await this.achievementsService.getProcessState()
+    const key = `${scope.category ?? '*'}|${scope.window ?? 'all'}`
+    const now = Date.now()
+    const cached = this.rankings.get(key)
+
+    if (
+      cached &&
+      cached.state === state &&
+      now - cached.computedAt < this.cacheTtlMs
+    ) {
+      return cached.entries
+    }
+
+    this.logger.debug(`Computing leaderboard ranking for ${key}`)
+    const entries = LeaderboardService.rank(state, scope, now)
+    this.rankings.set(key, { state, computedAt: now, entries })
+
+    return entries
+  }
+
+  /**
+   * Sum points per wallet and assign competition ranks (1, 2, 2, 4)
+   */
+  static rank(
+    state: CheeseMintCollectionState,
+    { category, window = 'all' }: LeaderboardScopeDto,
+    now: number
+  ): LeaderboardEntry[] {
+    const duration = WINDOW_DURATIONS_MS[window]
+    const since = duration === null ? null : now - duration
+    const totals: Omit<LeaderboardEntry, 'rank'>[] = []
+
+    for (const [wallet, awards] of Object.entries(
+      state.cheese_mints_by_address
+    )) {
+      let points = 0
+      let achievements = 0
+
+      for (const [mintId, award] of Object.entries(awards)) {
+        const mint = state.cheese_mints_by_id[mintId]
+        if (
+          !mint ||
+          (category && mint.category !== category) ||
+          (since !== null && award.awarded_at < since)
+        ) {
+          continue
+        }
+
+        points += mint.points ?? 0
+        achievements++
+      }
+
+      if (achievements > 0) {
+        totals.push({ wallet, points, achievements })
+      }
+    }
+
+    totals.sort(
+      (a, b) => b.points - a.points || a.wallet.localeCompare(b.wallet)
+    )
+
+    let rank = 0
+    return totals.map((total, index) => {
+      if (index === 0 || totals[index - 1].points !== total.points) {
+        rank = index + 1
+      }
+      return { rank, ...total }
+    })
+  }
+}
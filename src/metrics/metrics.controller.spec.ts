@@ -0,0 +1,64 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { getQueueToken } from '@nestjs/bullmq'
+import type { Response } from 'express'
+import { MetricsController } from './metrics.controller'
+import { REWARDS_DLQ_NAME } from '../rewards/dead-letter.service'
+import { REWARDS_REVIEW_QUEUE_NAME } from '../rewards/review.service'
+import { eventsProcessed } from './metrics'
+
+describe('MetricsController', () => {
+  let metricsController: MetricsController
+  const res = { setHeader: jest.fn() }
+
+  const queue = (name: string, waiting: number) => ({
+    name,
+    getJobCounts: jest
+      .fn()
+      .mockResolvedValue({ waiting, active: 1, delayed: 0, failed: 2 })
+  })
+
+  beforeEach(async () => {
+    const app: TestingModule = await Test.createTestingModule({
+      controllers: [MetricsController],
+      providers: [
+        {
+          provide: getQueueToken('rewards-events'),
+          useValue: queue('rewards-events', 7)
+        },
+        {
+          provide: getQueueToken(REWARDS_DLQ_NAME),
+          useValue: queue(REWARDS_DLQ_NAME, 3)
+        },
+        {
+          provide: getQueueToken(REWARDS_REVIEW_QUEUE_NAME),
+          useValue: queue(REWARDS_REVIEW_QUEUE_NAME, 2)
+        }
+      ]
+    }).compile()
+
+    metricsController = app.get<MetricsController>(MetricsController)
+  })
+
+  it('should expose queue depths and counters in Prometheus format', async () => {
+    eventsProcessed.inc({ job_name: 'image-search' })
+
+    const body = await metricsController.getMetrics(res as unknown as Response)
+
+    expect(res.setHeader).toHaveBeenCalledWith(
+      'Content-Type',
+      expect.stringContaining('text/plain')
+    )
+    expect(body).toContain(
+      'rewards_queue_jobs{queue="rewards-events",state="waiting"} 7'
+    )
+    expect(body).toContain(
+      `rewards_queue_jobs{queue="${REWARDS_DLQ_NAME}",state="waiting"} 3`
+    )
+    expect(body).toContain(
+      `rewards_queue_jobs{queue="${REWARDS_REVIEW_QUEUE_NAME}",state="waiting"} 2`
+    )
+    expect(body).toContain(
+      'rewards_events_processed_total{job_name="image-search"} 1'
+    )
+  })
+})
@@ -0,0 +1,41 @@
+import { Controller, Get, Res } from '@nestjs/common'
+import { InjectQueue } from '@nestjs/bullmq'
+import { Queue } from 'bullmq'
+import type { Response } from 'express'
+import { REWARDS_DLQ_NAME } from '../rewards/dead-letter.service'
+import { REWARDS_REVIEW_QUEUE_NAME } from '../rewards/review.service'
+import { metricsRegistry, queueJobs } from './metrics'
+
+const QUEUE_STATES = ['waiting', 'active', 'delayed', 'failed'] as const
+
+@Controller('metrics')
+export class MetricsController {
+  constructor(
+    @InjectQueue('rewards-events')
+    private readonly rewardsQueue: Queue,
+    @InjectQueue(REWARDS_DLQ_NAME)
+    private readonly deadLetterQueue: Queue,
+    @InjectQueue(REWARDS_REVIEW_QUEUE_NAME)
+    private readonly reviewQueue: Queue
+  ) {}
+
+  /**
+   * Prometheus text exposition of every metric, queue depths read on scrape
+   */
+  @Get()
+  async getMetrics(@Res({ passthrough: true }) res: Response) {
+    for (const queue of [
+      this.rewardsQueue,
+      this.deadLetterQueue,
+      this.reviewQueue
+    ]) {
+      const counts = await queue.getJobCounts(...QUEUE_STATES)
+      for (const state of QUEUE_STATES) {
+        queueJobs.set({ queue: queue.name, state }, counts[state] ?? 0)
+      }
+    }
+
+    res.setHeader('Content-Type', metricsRegistry.contentType)
+    return metricsRegistry.metrics()
+  }
+}
@@ -0,0 +1,18 @@
+import { Module, OnModuleInit } from '@nestjs/common'
+import { collectDefaultMetrics } from 'prom-client'
+import { MetricsController } from './metrics.controller'
+import { metricsRegistry } from './metrics'
+import { RewardsModule } from '../rewards/rewards.module'
+
+@Module({
+  imports: [RewardsModule],
+  controllers: [MetricsController]
+})
+export class MetricsModule implements OnModuleInit {
+  onModuleInit() {
+    // Process metrics (CPU, memory, event loop lag), registered once
+    if (!metricsRegistry.getSingleMetric('process_cpu_seconds_total')) {
+      collectDefaultMetrics({ register: metricsRegistry })
+    }
+  }
+}
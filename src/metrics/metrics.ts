@@ -0,0 +1,104 @@
+import { Counter, Gauge, Histogram, Registry } from 'prom-client'
+
+/**
+ * Prometheus registry served on GET /metrics. Metrics are module-level so
+ * plain utilities like utils/aos can record them without injection.
+ */
+export const metricsRegistry = new Registry()
+
+export const eventsProcessed = new Counter({
+  name: 'rewards_events_processed_total',
+  help: 'Reward event jobs completed, per job name',
+  labelNames: ['job_name'] as const,
+  registers: [metricsRegistry]
+})
+
+export const eventsFailed = new Counter({
+  name: 'rewards_events_failed_total',
+  help: 'Failed reward event job attempts, per job name',
+  labelNames: ['job_name', 'retryable'] as const,
+  registers: [metricsRegistry]
+})
+
+export const awards = new Counter({
+  name: 'rewards_awards_total',
+  help: 'Award outcomes per achievement: awarded, already-held, skipped-by-rule, unknown-achievement or failed',
+  labelNames: ['achievement', 'status'] as const,
+  registers: [metricsRegistry]
+})
+
+export const abuseSignals = new Counter({
+  name: 'rewards_abuse_signals_total',
+  help: 'Events tripping an anti-abuse check, per check: deny-list, wallet-rate, ip-rate, producer-rate, new-wallet-velocity or new-wallets-per-ip',
+  labelNames: ['check'] as const,
+  registers: [metricsRegistry]
+})
+
+export const aoRequestDuration = new Histogram({
+  name: 'rewards_ao_request_duration_seconds',
+  help: 'Duration of AO calls including retries, per operation: message (MU), result and dry-run (CU)',
+  labelNames: ['operation', 'outcome'] as const,
+  buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  registers: [metricsRegistry]
+})
+
+export const aoRequestRetries = new Counter({
+  name: 'rewards_ao_request_retries_total',
+  help: 'Retried AO calls, per operation and error kind: timeout, rate-limited, server or network',
+  labelNames: ['operation', 'reason'] as const,
+  registers: [metricsRegistry]
+})
+
+export const aoEndpointRequests = new Counter({
+  name: 'rewards_ao_endpoint_requests_total',
+  help: 'AO call attempts per operation, CU/MU endpoint and outcome: success or error',
+  labelNames: ['operation', 'endpoint', 'outcome'] as const,
+  registers: [metricsRegistry]
+})
+
+export const aoEndpointUp = new Gauge({
+  name: 'rewards_ao_endpoint_up',
+  help: '1 while a CU or MU endpoint is considered healthy, 0 otherwise',
+  labelNames: ['kind', 'endpoint'] as const,
+  registers: [metricsRegistry]
+})
+
+export const aoCircuitOpen = new Gauge({
+  name: 'rewards_ao_circuit_open',
+  help: '1 while the AO circuit breaker is open or half-open and the rewards worker is paused, 0 otherwise',
+  registers: [metricsRegistry]
+})
+
+export const stateCacheRequests = new Counter({
+  name: 'rewards_state_cache_requests_total',
+  help: 'Process state reads served from the cache (hit) or the backend (miss)',
+  labelNames: ['result'] as const,
+  registers: [metricsRegistry]
+})
+
+let stateCacheUpdatedAt: number | null = null
+
+/**
+ * Remember when the process state cache was last refreshed
+ */
+export function markStateCacheUpdated(at: number = Date.now()): void {
+  stateCacheUpdatedAt = at
+}
+
+export const stateCacheAge = new Gauge({
+  name: 'rewards_state_cache_age_seconds',
+  help: 'Seconds since the process state was last fetched from the backend',
+  registers: [metricsRegistry],
+  collect() {
+    if (stateCacheUpdatedAt !== null) {
+      this.set((Date.now() - stateCacheUpdatedAt) / 1000)
+    }
+  }
+})
+
+export const queueJobs = new Gauge({
+  name: 'rewards_queue_jobs',
+  help: 'Jobs per queue and state',
+  labelNames: ['queue', 'state'] as const,
+  registers: [metricsRegistry]
+})
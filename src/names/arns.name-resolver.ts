@@ -0,0 +1,55 @@
+import { ConfigService } from '@nestjs/config'
+import { AoClient } from '../utils/ao-client'
+import { sendAosDryRun } from '../utils/aos'
+import { NameResolver, NameResolverType } from './name-resolver'
+
+// AR.IO network process holding the ArNS primary names
+const DEFAULT_ARIO_PROCESS_ID = 'qNvAoz0TgcH7DMg8BCVn8jF32QH5L6T29VjHxhHqqGE'
+
+/**
+ * Resolves ArNS names, written as name.ar or ar://name, to the wallet that
+ * set the name as its primary name in the AR.IO network process
+ */
+export class ArnsNameResolver implements NameResolver {
+  readonly type: NameResolverType = 'arns'
+  private readonly processId: string
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly aoClient: AoClient
+  ) {
+    this.processId =
+      this.configService.get<string>('ARIO_PROCESS_ID', { infer: true }) ??
+      DEFAULT_ARIO_PROCESS_ID
+  }
+
+  supports(name: string): boolean {
+    return /^(ar:\/\/[a-z0-9_-]+|[a-z0-9_-]+\.ar)$/i.test(name)
+  }
+
+  async resolve(name: string): Promise<string | null> {
+    const arnsName = name
+      .toLowerCase()
+      .replace(/^ar:\/\//, '')
+      .replace(/\.ar$/, '')
+    const { result } = await sendAosDryRun(this.aoClient, {
+      processId: this.processId,
+      tags: [
+        { name: 'Action', value: 'Primary-Name' },
+        { name: 'Name', value: arnsName }
+      ]
+    })
+
+    // Unknown names are answered with an error notice instead of the record
+    const [message] = (result.Messages ?? []) as { Data?: string }[]
+    const data = message?.Data
+    if (result.Error || !data) {
+      return null
+    }
+    try {
+      return (JSON.parse(data) as { owner?: string }).owner ?? null
+    } catch {
+      return null
+    }
+  }
+}
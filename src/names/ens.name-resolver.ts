@@ -0,0 +1,30 @@
+import { ConfigService } from '@nestjs/config'
+import { JsonRpcProvider } from 'ethers'
+import { NameResolver, NameResolverType } from './name-resolver'
+
+/**
+ * Resolves ENS names (*.eth) through an Ethereum mainnet JSON-RPC endpoint
+ */
+export class EnsNameResolver implements NameResolver {
+  readonly type: NameResolverType = 'ens'
+  private readonly provider: JsonRpcProvider
+
+  constructor(private readonly configService: ConfigService) {
+    const rpcUrl = this.configService.get<string>('ENS_RPC_URL', {
+      infer: true
+    })
+    if (!rpcUrl) {
+      throw new Error('ENS_RPC_URL is required for the ens name resolver')
+    }
+
+    this.provider = new JsonRpcProvider(rpcUrl)
+  }
+
+  supports(name: string): boolean {
+    return /^([a-z0-9-]+\.)+eth$/i.test(name)
+  }
+
+  async resolve(name: string): Promise<string | null> {
+    return this.provider.resolveName(name.toLowerCase())
+  }
+}
@@ -0,0 +1,38 @@
+import { ConfigService } from '@nestjs/config'
+import { AoClient } from '../utils/ao-client'
+import { ArnsNameResolver } from './arns.name-resolver'
+import { EnsNameResolver } from './ens.name-resolver'
+import {
+  NAME_RESOLVER_TYPES,
+  NameResolver,
+  NameResolverType
+} from './name-resolver'
+
+/**
+ * Create the name resolvers listed in NAME_RESOLVERS, comma-separated.
+ * Names are not resolved when it is unset.
+ */
+export function createNameResolvers(
+  configService: ConfigService,
+  aoClient: AoClient
+): NameResolver[] {
+  const types = (
+    configService.get<string>('NAME_RESOLVERS', { infer: true }) ?? ''
+  )
+    .split(',')
+    .map((type) => type.trim())
+    .filter(Boolean)
+
+  return types.map((type) => {
+    switch (type as NameResolverType) {
+      case 'ens':
+        return new EnsNameResolver(configService)
+      case 'arns':
+        return new ArnsNameResolver(configService, aoClient)
+      default:
+        throw new Error(
+          `Unknown name resolver "${type}", expected any of: ${NAME_RESOLVER_TYPES.join(', ')}`
+        )
+    }
+  })
+}
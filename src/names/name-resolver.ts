@@ -0,0 +1,15 @@
+export const NAME_RESOLVERS = 'NAME_RESOLVERS'
+
+export const NAME_RESOLVER_TYPES = ['ens', 'arns'] as const
+export type NameResolverType = (typeof NAME_RESOLVER_TYPES)[number]
+
+/**
+ * Resolves human-readable names, e.g. vitalik.eth, to wallet addresses
+ */
+export interface NameResolver {
+  readonly type: NameResolverType
+  // Whether the input looks like a name this resolver handles
+  supports(name: string): boolean
+  // Address the name points at, null when it is not registered
+  resolve(name: string): Promise<string | null>
+}
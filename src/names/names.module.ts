@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { AO_CLIENT, AoModule } from '../ao/ao.module'
+import { NAME_RESOLVERS } from './name-resolver'
+import { createNameResolvers } from './name-resolver.factory'
+import { WalletResolverService } from './wallet-resolver.service'
+
+@Module({
+  imports: [AoModule],
+  providers: [
+    WalletResolverService,
+    {
+      provide: NAME_RESOLVERS,
+      inject: [ConfigService, AO_CLIENT],
+      useFactory: createNameResolvers
+    }
+  ],
+  exports: [WalletResolverService]
+})
+export class NamesModule {}
@@ -0,0 +1,62 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { NAME_RESOLVERS, NameResolver } from './name-resolver'
+import { WalletResolverService } from './wallet-resolver.service'
+
+describe('WalletResolverService', () => {
+  let walletResolver: WalletResolverService
+  let resolve: jest.Mock
+
+  beforeEach(async () => {
+    resolve = jest.fn((name: string) =>
+      Promise.resolve(
+        name === 'goblin.eth'
+          ? '0x742d35cc6634c0532925a3b844bc9e7595f0beb0'
+          : null
+      )
+    )
+    const ens: NameResolver = {
+      type: 'ens',
+      supports: (name: string) => name.endsWith('.eth'),
+      resolve
+    }
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        WalletResolverService,
+        { provide: ConfigService, useValue: { get: () => undefined } },
+        { provide: NAME_RESOLVERS, useValue: [ens] }
+      ]
+    }).compile()
+
+    walletResolver = app.get<WalletResolverService>(WalletResolverService)
+  })
+
+  it('should validate addresses without resolving them', async () => {
+    await expect(
+      walletResolver.resolve('vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw')
+    ).resolves.toMatchObject({ valid: true, type: 'arweave' })
+    expect(resolve).not.toHaveBeenCalled()
+  })
+
+  it('should resolve names to normalized addresses once per TTL', async () => {
+    const first = await walletResolver.resolve('Goblin.eth')
+    await walletResolver.resolve('goblin.eth')
+
+    expect(first).toEqual({
+      valid: true,
+      type: 'evm',
+      normalized: '0x742D35CC6634c0532925A3b844BC9E7595F0BEb0',
+      name: 'goblin.eth'
+    })
+    expect(resolve).toHaveBeenCalledTimes(1)
+  })
+
+  it('should reject names that do not resolve', async () => {
+    await expect(walletResolver.resolve('nobody.eth')).resolves.toEqual({
+      valid: false,
+      name: 'nobody.eth',
+      error: 'nobody.eth does not resolve'
+    })
+  })
+})
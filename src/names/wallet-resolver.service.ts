@@ -0,0 +1,94 @@
+import { Inject, Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import {
+  WalletValidationResult,
+  WalletValidator
+} from '../utils/wallet.validator'
+import { NAME_RESOLVERS, NameResolver } from './name-resolver'
+
+const MAX_CACHED_NAMES = 10000
+
+export interface ResolvedWallet extends WalletValidationResult {
+  // Name the address was resolved from
+  name?: string
+}
+
+/**
+ * Validates wallet input that is either an address or, with NAME_RESOLVERS
+ * configured, a human-readable name such as vitalik.eth or name.ar
+ */
+@Injectable()
+export class WalletResolverService {
+  private readonly logger = new Logger(WalletResolverService.name)
+  private readonly cacheTtlMs: number
+  private readonly cache = new Map<
+    string,
+    { address: string | null; expiresAt: number }
+  >()
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(NAME_RESOLVERS) private readonly resolvers: NameResolver[]
+  ) {
+    this.cacheTtlMs = parseInt(
+      this.configService.get<string>('NAME_RESOLUTION_CACHE_TTL_MS', {
+        infer: true
+      }) ?? '300000'
+    )
+  }
+
+  /**
+   * Whether the input is a name one of the resolvers handles
+   */
+  isName(input: string): boolean {
+    return this.findResolver(input) !== undefined
+  }
+
+  async resolve(input: string): Promise<ResolvedWallet> {
+    const resolver = this.findResolver(input)
+    if (!resolver) {
+      return WalletValidator.validateAndNormalize(input)
+    }
+
+    const name = input.trim().toLowerCase()
+    let address: string | null
+    try {
+      address = await this.resolveCached(resolver, name)
+    } catch (error) {
+      const err = error as Error
+      this.logger.warn(`Failed to resolve ${resolver.type} name ${name}`, err)
+      return { valid: false, name, error: `Could not resolve ${name}` }
+    }
+
+    if (!address) {
+      return { valid: false, name, error: `${name} does not resolve` }
+    }
+
+    return { ...WalletValidator.validateAndNormalize(address), name }
+  }
+
+  private findResolver(input: string): NameResolver | undefined {
+    const name = typeof input === 'string' ? input.trim() : ''
+    return this.resolvers.find((resolver) => resolver.supports(name))
+  }
+
+  private async resolveCached(
+    resolver: NameResolver,
+    name: string
+  ): Promise<string | null> {
+    const cached = this.cache.get(name)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.address
+    }
+
+    const address = await resolver.resolve(name)
+    if (this.cache.size >= MAX_CACHED_NAMES) {
+      // Maps iterate in insertion order, drop the oldest entry
+      const [oldest] = this.cache.keys()
+      this.cache.delete(oldest)
+    }
+    this.cache.set(name, { address, expiresAt: Date.now() + this.cacheTtlMs })
+    this.logger.debug(`Resolved ${resolver.type} name ${name} to ${address}`)
+    return address
+  }
+}
@@ -0,0 +1,67 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit
+} from '@nestjs/common'
+import Redis from 'ioredis'
+import { filter, Observable, Subject } from 'rxjs'
+import { REDIS_CLIENT } from '../redis/redis.module'
+import type { AwardNotification } from './notifications.types'
+
+const BROADCAST_CHANNEL = 'rewards:notifications'
+
+/**
+ * In-process fan-out of award notifications to stream subscribers. Every
+ * replica receives every completed job through its own QueueEvents listener,
+ * notifications made outside reward jobs are broadcast over Redis pub/sub.
+ */
+@Injectable()
+export class AwardNotificationsService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(AwardNotificationsService.name)
+  private readonly notifications = new Subject<AwardNotification>()
+  private subscriber?: Redis
+
+  constructor(@Inject(REDIS_CLIENT) private readonly redis: Redis) {}
+
+  async onModuleInit() {
+    // A subscribed connection can't run other commands, use a dedicated one
+    this.subscriber = this.redis.duplicate()
+    this.subscriber.on('message', (_channel: string, message: string) => {
+      try {
+        this.publish(JSON.parse(message) as AwardNotification)
+      } catch {
+        this.logger.warn(`Ignoring unreadable notification: ${message}`)
+      }
+    })
+    await this.subscriber.subscribe(BROADCAST_CHANNEL)
+  }
+
+  publish(notification: AwardNotification): void {
+    this.notifications.next(notification)
+  }
+
+  /**
+   * Publish a notification on every replica
+   */
+  async broadcast(notification: AwardNotification): Promise<void> {
+    await this.redis.publish(BROADCAST_CHANNEL, JSON.stringify(notification))
+  }
+
+  /**
+   * Notifications for a normalized wallet address
+   */
+  forWallet(wallet: string): Observable<AwardNotification> {
+    return this.notifications.pipe(
+      filter((notification) => notification.wallet === wallet)
+    )
+  }
+
+  async onModuleDestroy() {
+    this.notifications.complete()
+    await this.subscriber?.quit()
+  }
+}
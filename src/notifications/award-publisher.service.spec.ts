@@ -0,0 +1,98 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { AwardPublisher, AwardContext } from './award-publisher.service'
+import { AwardNotificationsService } from './award-notifications.service'
+import { WebhooksService } from '../webhooks/webhooks.service'
+import type { AwardOutcome } from '../achievements/achievements.types'
+
+const ALICE = 'vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw'
+
+const AWARDS: AwardOutcome[] = [
+  {
+    achievement: 'Wuzzy Searcher',
+    achievementId: 'mint-searcher',
+    status: 'already-held'
+  },
+  {
+    achievement: 'Wuzzy Image Searcher',
+    achievementId: 'mint-image',
+    status: 'awarded',
+    messageId: 'message-1'
+  }
+]
+
+describe('AwardPublisher', () => {
+  let publisher: AwardPublisher
+  const webhooksService = { publish: jest.fn() }
+  const notificationsService = { broadcast: jest.fn() }
+
+  const context = (jobId: string | null): AwardContext => ({
+    wallet: ALICE,
+    walletType: 'arweave',
+    eventType: jobId ? 'image-search' : 'admin.award',
+    jobId,
+    producer: null
+  })
+
+  beforeEach(async () => {
+    jest.resetAllMocks()
+    webhooksService.publish.mockResolvedValue(null)
+    notificationsService.broadcast.mockResolvedValue(undefined)
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        AwardPublisher,
+        { provide: WebhooksService, useValue: webhooksService },
+        { provide: AwardNotificationsService, useValue: notificationsService }
+      ]
+    }).compile()
+
+    publisher = app.get<AwardPublisher>(AwardPublisher)
+  })
+
+  it('should publish a webhook per new award of a reward job', async () => {
+    await publisher.publish(context('job-1'), AWARDS)
+
+    expect(webhooksService.publish).toHaveBeenCalledTimes(1)
+    expect(webhooksService.publish).toHaveBeenCalledWith(
+      'achievement.awarded',
+      expect.objectContaining({
+        wallet: ALICE,
+        achievementId: 'mint-image',
+        messageId: 'message-1',
+        jobId: 'job-1'
+      })
+    )
+    // The job's completion notifies the wallet stream
+    expect(notificationsService.broadcast).not.toHaveBeenCalled()
+  })
+
+  it('should notify every replica of operator awards', async () => {
+    await publisher.publish(context(null), AWARDS)
+
+    expect(webhooksService.publish).toHaveBeenCalledWith(
+      'achievement.awarded',
+      expect.objectContaining({ eventType: 'admin.award', jobId: null })
+    )
+    expect(notificationsService.broadcast).toHaveBeenCalledWith(
+      expect.objectContaining({
+        jobId: null,
+        wallet: ALICE,
+        awarded: [AWARDS[1]],
+        alreadyHeld: [AWARDS[0]]
+      })
+    )
+  })
+
+  it('should only log failures to publish', async () => {
+    webhooksService.publish.mockRejectedValue(
+      new Error('Connection is closed.')
+    )
+    notificationsService.broadcast.mockRejectedValue(
+      new Error('Connection is closed.')
+    )
+
+    await expect(
+      publisher.publish(context(null), AWARDS)
+    ).resolves.toBeUndefined()
+  })
+})
@@ -0,0 +1,86 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { AwardNotificationsService } from './award-notifications.service'
+import { WebhooksService } from '../webhooks/webhooks.service'
+import type { AwardOutcome } from '../achievements/achievements.types'
+import type { WalletType } from '../utils/wallet.validator'
+
+/**
+ * Where a set of awards came from
+ */
+export interface AwardContext {
+  wallet: string
+  walletType: WalletType
+  eventType: string
+  // Reward job that made the awards, null for operator awards
+  jobId: string | null
+  producer: string | null
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * Announces newly made awards to webhook subscribers and wallet streams,
+ * whether a reward job or an operator made them
+ */
+@Injectable()
+export class AwardPublisher {
+  private readonly logger = new Logger(AwardPublisher.name)
+
+  constructor(
+    private readonly webhooksService: WebhooksService,
+    private readonly notificationsService: AwardNotificationsService
+  ) {}
+
+  /**
+   * Publish an achievement.awarded webhook per awarded outcome. Failures are
+   * logged only, the awards have already been made.
+   */
+  async publish(context: AwardContext, awards: AwardOutcome[]): Promise<void> {
+    const awarded = awards.filter(({ status }) => status === 'awarded')
+    const source = context.jobId ? `job ${context.jobId}` : context.eventType
+
+    for (const award of awarded) {
+      try {
+        await this.webhooksService.publish('achievement.awarded', {
+          wallet: context.wallet,
+          walletType: context.walletType,
+          achievementId: award.achievementId!,
+          achievementName: award.achievement,
+          messageId: award.messageId ?? null,
+          eventType: context.eventType,
+          jobId: context.jobId,
+          producer: context.producer,
+          metadata: context.metadata
+        })
+      } catch (error) {
+        const err = error as Error
+        this.logger.error(
+          `Failed to publish achievement.awarded for ${source}: ${err.message}`,
+          err.stack
+        )
+      }
+    }
+
+    // Wallet streams learn of reward jobs when they complete, see
+    // RewardsEventsListener; other awards have no job to complete
+    if (context.jobId || awarded.length === 0) {
+      return
+    }
+    try {
+      await this.notificationsService.broadcast({
+        jobId: null,
+        wallet: context.wallet,
+        walletType: context.walletType,
+        eventType: context.eventType,
+        awarded,
+        alreadyHeld: awards.filter(({ status }) => status === 'already-held'),
+        processedAt: new Date().toISOString()
+      })
+    } catch (error) {
+      const err = error as Error
+      this.logger.error(
+        `Failed to notify ${context.wallet} of ${source}: ${err.message}`,
+        err.stack
+      )
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { BadRequestException } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { firstValueFrom, Subject } from 'rxjs'
+import { NotificationsController } from './notifications.controller'
+import { AwardNotificationsService } from './award-notifications.service'
+import { IdentityService } from '../identity/identity.service'
+import { WalletResolverService } from '../names/wallet-resolver.service'
+import type { AwardNotification } from './notifications.types'
+
+const ALICE = 'vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw'
+
+describe('NotificationsController', () => {
+  let controller: NotificationsController
+  let notifications: Subject<AwardNotification>
+  let notificationsService: { forWallet: jest.Mock }
+
+  beforeEach(async () => {
+    notifications = new Subject<AwardNotification>()
+    notificationsService = {
+      forWallet: jest.fn(() => notifications.asObservable())
+    }
+
+    const app: TestingModule = await Test.createTestingModule({
+      controllers: [NotificationsController],
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: { get: () => undefined }
+        },
+        { provide: AwardNotificationsService, useValue: notificationsService },
+        {
+          provide: IdentityService,
+          useValue: {
+            resolvePrimary: (wallet: string) => Promise.resolve(wallet)
+          }
+        },
+        {
+          provide: WalletResolverService,
+          useValue: {
+            resolve: (name: string) =>
+              Promise.resolve(
+                name === 'alice.ar'
+                  ? { valid: true, type: 'arweave', normalized: ALICE, name }
+                  : { valid: false, name, error: `${name} does not resolve` }
+              )
+          }
+        }
+      ]
+    }).compile()
+
+    controller = app.get<NotificationsController>(NotificationsController)
+  })
+
+  it('should stream the notifications of the wallet a name resolves to', async () => {
+    const notification: AwardNotification = {
+      jobId: '1',
+      wallet: ALICE,
+      walletType: 'arweave',
+      eventType: 'image-search',
+      awarded: [],
+      alreadyHeld: [],
+      processedAt: new Date(0).toISOString()
+    }
+
+    const stream = await controller.stream('alice.ar')
+    const event = firstValueFrom(stream)
+    // Let the primary wallet resolve before publishing
+    await new Promise(setImmediate)
+    notifications.next(notification)
+
+    await expect(event).resolves.toEqual({
+      id: '1',
+      type: 'award',
+      data: notification
+    })
+    expect(notificationsService.forWallet).toHaveBeenCalledWith(ALICE)
+  })
+
+  it('should reject names that do not resolve', async () => {
+    await expect(controller.stream('nobody.ar')).rejects.toThrow(
+      BadRequestException
+    )
+  })
+})
@@ -0,0 +1,63 @@
+import {
+  BadRequestException,
+  Controller,
+  MessageEvent,
+  Param,
+  Sse
+} from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { from, interval, map, merge, Observable, switchMap } from 'rxjs'
+import { AwardNotificationsService } from './award-notifications.service'
+import { IdentityService } from '../identity/identity.service'
+import { WalletResolverService } from '../names/wallet-resolver.service'
+
+@Controller('wallets')
+export class NotificationsController {
+  private readonly heartbeatMs: number
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly notificationsService: AwardNotificationsService,
+    private readonly identityService: IdentityService,
+    private readonly walletResolver: WalletResolverService
+  ) {
+    // Keeps idle connections open through proxies, default 30 seconds
+    this.heartbeatMs = parseInt(
+      this.configService.get<string>('NOTIFICATIONS_HEARTBEAT_MS', {
+        infer: true
+      }) ?? '30000'
+    )
+  }
+
+  /**
+   * Server-sent events for a wallet: an `award` event per completed reward
+   * job or operator award of its identity and periodic `heartbeat` events
+   */
+  @Sse(':address/stream')
+  async stream(
+    @Param('address') address: string
+  ): Promise<Observable<MessageEvent>> {
+    const validation = await this.walletResolver.resolve(address)
+    if (!validation.valid || !validation.normalized) {
+      throw new BadRequestException(
+        `Wallet validation failed: ${validation.error}`
+      )
+    }
+
+    return merge(
+      from(this.identityService.resolvePrimary(validation.normalized)).pipe(
+        switchMap((primary) => this.notificationsService.forWallet(primary)),
+        map(
+          (notification): MessageEvent => ({
+            id: notification.jobId ?? undefined,
+            type: 'award',
+            data: notification
+          })
+        )
+      ),
+      interval(this.heartbeatMs).pipe(
+        map((): MessageEvent => ({ type: 'heartbeat', data: {} }))
+      )
+    )
+  }
+}
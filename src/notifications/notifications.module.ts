@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common'
+import { AwardNotificationsService } from './award-notifications.service'
+import { RewardsEventsListener } from './rewards-events.listener'
+import { NotificationsController } from './notifications.controller'
+import { AwardPublisher } from './award-publisher.service'
+import { IdentityModule } from '../identity/identity.module'
+import { RedisModule } from '../redis/redis.module'
+import { NamesModule } from '../names/names.module'
+import { WebhooksModule } from '../webhooks/webhooks.module'
+
+@Module({
+  imports: [IdentityModule, NamesModule, RedisModule, WebhooksModule],
+  controllers: [NotificationsController],
+  providers: [AwardNotificationsService, AwardPublisher, RewardsEventsListener],
+  exports: [AwardNotificationsService, AwardPublisher]
+})
+export class NotificationsModule {}
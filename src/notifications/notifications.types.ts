@@ -0,0 +1,18 @@
+import type { WalletType } from '../utils/wallet.validator'
+import type { AwardOutcome } from '../achievements/achievements.types'
+
+/**
+ * Outcome of a completed rewards-events job, pushed to the job's wallet
+ */
+export interface AwardNotification {
+  // Null for awards made by operators
+  jobId: string | null
+  wallet: string
+  walletType: WalletType
+  eventType: string
+  // Achievements this event earned
+  awarded: AwardOutcome[]
+  // Achievements the event qualified for that the wallet already held
+  alreadyHeld: AwardOutcome[]
+  processedAt: string
+}
@@ -0,0 +1,98 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { firstValueFrom, take, toArray } from 'rxjs'
+import { RewardsEventsListener } from './rewards-events.listener'
+import { AwardNotificationsService } from './award-notifications.service'
+import { REDIS_CLIENT } from '../redis/redis.module'
+import type { RewardJobResult } from '../rewards/rewards.types'
+
+const ALICE = 'vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw'
+const BOB = '0x742D35CC6634c0532925A3b844BC9E7595F0BEb0'
+
+const result = (wallet: string): RewardJobResult => ({
+  success: true,
+  eventType: 'image-search',
+  wallet,
+  walletType: 'arweave',
+  rules: ['wuzzy-searcher', 'wuzzy-image-searcher'],
+  awards: [
+    {
+      achievement: 'Wuzzy Searcher',
+      achievementId: 'mint-searcher',
+      status: 'already-held'
+    },
+    {
+      achievement: 'Wuzzy Image Searcher',
+      achievementId: 'mint-image',
+      status: 'awarded',
+      messageId: 'message-1'
+    }
+  ],
+  counters: { events: 1 },
+  proofVerified: false,
+  producer: null,
+  processedAt: '2026-01-01T00:00:00.000Z'
+})
+
+describe('RewardsEventsListener', () => {
+  let listener: RewardsEventsListener
+  let notificationsService: AwardNotificationsService
+
+  beforeEach(async () => {
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        RewardsEventsListener,
+        AwardNotificationsService,
+        { provide: REDIS_CLIENT, useValue: {} }
+      ]
+    }).compile()
+
+    listener = app.get<RewardsEventsListener>(RewardsEventsListener)
+    notificationsService = app.get<AwardNotificationsService>(
+      AwardNotificationsService
+    )
+  })
+
+  it('should notify the job wallet of new and already held awards', async () => {
+    const notifications = firstValueFrom(
+      notificationsService.forWallet(ALICE).pipe(take(2), toArray())
+    )
+
+    listener.onCompleted({ jobId: '1', returnvalue: result(BOB) })
+    listener.onCompleted({ jobId: '2', returnvalue: result(ALICE) })
+    listener.onCompleted({
+      jobId: '3',
+      returnvalue: JSON.stringify(result(ALICE))
+    })
+
+    const [first, second] = await notifications
+    expect(first).toMatchObject({
+      jobId: '2',
+      wallet: ALICE,
+      awarded: [{ achievementId: 'mint-image', messageId: 'message-1' }],
+      alreadyHeld: [{ achievementId: 'mint-searcher' }]
+    })
+    expect(second.jobId).toBe('3')
+  })
+
+  it('should not notify wallets of events held for review', async () => {
+    const notifications = firstValueFrom(
+      notificationsService.forWallet(ALICE).pipe(take(1), toArray())
+    )
+
+    listener.onCompleted({
+      jobId: '1',
+      returnvalue: {
+        success: false,
+        eventType: 'image-search',
+        wallet: ALICE,
+        inReview: true,
+        reviewId: 'review-1',
+        signals: []
+      }
+    })
+    listener.onCompleted({ jobId: '2', returnvalue: result(ALICE) })
+
+    const [notification] = await notifications
+    expect(notification.jobId).toBe('2')
+  })
+})
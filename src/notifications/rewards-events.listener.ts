@@ -0,0 +1,64 @@
+import { Logger } from '@nestjs/common'
+import {
+  OnQueueEvent,
+  QueueEventsHost,
+  QueueEventsListener
+} from '@nestjs/bullmq'
+import { AwardNotificationsService } from './award-notifications.service'
+import type {
+  RewardJobResult,
+  RewardJobReviewResult
+} from '../rewards/rewards.types'
+
+/**
+ * Turns rewards-events job completions, from any replica, into award
+ * notifications
+ */
+@QueueEventsListener('rewards-events')
+export class RewardsEventsListener extends QueueEventsHost {
+  private readonly logger = new Logger(RewardsEventsListener.name)
+
+  constructor(
+    private readonly notificationsService: AwardNotificationsService
+  ) {
+    super()
+  }
+
+  @OnQueueEvent('completed')
+  onCompleted({
+    jobId,
+    returnvalue
+  }: {
+    jobId: string
+    returnvalue: string | RewardJobResult | RewardJobReviewResult
+  }) {
+    let result: RewardJobResult | RewardJobReviewResult
+    try {
+      // QueueEvents parses the return value, older versions pass the JSON
+      result =
+        typeof returnvalue === 'string'
+          ? (JSON.parse(returnvalue) as RewardJobResult | RewardJobReviewResult)
+          : returnvalue
+    } catch {
+      this.logger.warn(`Job ${jobId} completed with unreadable result`)
+      return
+    }
+
+    // Events held for review have not been rewarded, their approval is
+    // another job
+    if (!result?.wallet || 'inReview' in result) {
+      return
+    }
+
+    const awards = result.awards ?? []
+    this.notificationsService.publish({
+      jobId,
+      wallet: result.wallet,
+      walletType: result.walletType,
+      eventType: result.eventType,
+      awarded: awards.filter(({ status }) => status === 'awarded'),
+      alreadyHeld: awards.filter(({ status }) => status === 'already-held'),
+      processedAt: result.processedAt
+    })
+  }
+}
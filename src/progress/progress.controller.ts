@@ -0,0 +1,38 @@
+import { BadRequestException, Controller, Get, Param } from '@nestjs/common'
+import { ProgressService } from './progress.service'
+import { WalletResolverService } from '../names/wallet-resolver.service'
+import { IdentityService } from '../identity/identity.service'
+
+@Controller('wallets')
+export class ProgressController {
+  constructor(
+    private readonly progressService: ProgressService,
+    private readonly identityService: IdentityService,
+    private readonly walletResolver: WalletResolverService
+  ) {}
+
+  /**
+   * Progress is counted for the primary address of linked wallets
+   */
+  @Get(':address/progress')
+  async getProgress(@Param('address') address: string) {
+    const validation = await this.walletResolver.resolve(address)
+    if (!validation.valid || !validation.normalized) {
+      throw new BadRequestException(
+        `Wallet validation failed: ${validation.error}`
+      )
+    }
+
+    const primary = await this.identityService.resolvePrimary(
+      validation.normalized
+    )
+
+    return {
+      ...(await this.progressService.getProgress(primary)),
+      wallet: validation.normalized,
+      walletType: validation.type,
+      name: validation.name,
+      primary
+    }
+  }
+}
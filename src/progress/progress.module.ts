@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common'
+import { ProgressService } from './progress.service'
+import { ProgressController } from './progress.controller'
+import { RedisModule } from '../redis/redis.module'
+import { RulesModule } from '../rules/rules.module'
+import { IdentityModule } from '../identity/identity.module'
+import { NamesModule } from '../names/names.module'
+
+@Module({
+  imports: [RedisModule, RulesModule, IdentityModule, NamesModule],
+  controllers: [ProgressController],
+  providers: [ProgressService],
+  exports: [ProgressService]
+})
+export class ProgressModule {}
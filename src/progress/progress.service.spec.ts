@@ -0,0 +1,129 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { REDIS_CLIENT } from '../redis/redis.module'
+import { RulesService } from '../rules/rules.service'
+import { ProgressService } from './progress.service'
+
+const WALLET = 'vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw'
+
+/**
+ * In-memory stand-in for the Redis commands the service uses, evaluating the
+ * record event script as Redis would
+ */
+function createRedis() {
+  const markers = new Set<string>()
+  const hashes = new Map<string, Map<string, number>>()
+  const sets = new Map<string, Set<string>>()
+
+  return {
+    eval: jest.fn(
+      (
+        _script: string,
+        _keys: number,
+        markerKey: string,
+        countersKey: string,
+        daysKey: string,
+        ...argv: unknown[]
+      ) => {
+        if (markers.has(markerKey)) {
+          return Promise.resolve(0)
+        }
+        markers.add(markerKey)
+
+        const counters = hashes.get(countersKey) ?? new Map<string, number>()
+        for (const field of ['events', `events:${String(argv[2])}`]) {
+          counters.set(field, (counters.get(field) ?? 0) + 1)
+        }
+        hashes.set(countersKey, counters)
+        sets.set(daysKey, (sets.get(daysKey) ?? new Set()).add(String(argv[3])))
+        return Promise.resolve(1)
+      }
+    ),
+    hgetall: jest.fn((key: string) =>
+      Promise.resolve(
+        Object.fromEntries(
+          Array.from(hashes.get(key) ?? [], ([field, value]) => [
+            field,
+            String(value)
+          ])
+        )
+      )
+    ),
+    scard: jest.fn((key: string) => Promise.resolve(sets.get(key)?.size ?? 0))
+  }
+}
+
+describe('ProgressService', () => {
+  let progressService: ProgressService
+  let redis: ReturnType<typeof createRedis>
+
+  beforeEach(async () => {
+    redis = createRedis()
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProgressService,
+        { provide: REDIS_CLIENT, useValue: redis },
+        {
+          provide: RulesService,
+          useValue: { getThresholdRules: jest.fn().mockReturnValue([]) }
+        }
+      ]
+    }).compile()
+
+    progressService = app.get<ProgressService>(ProgressService)
+  })
+
+  it('should count events per type and distinct days', async () => {
+    await progressService.recordEvent(
+      'job-1',
+      WALLET,
+      'image-search',
+      new Date('2025-01-01T10:00:00Z')
+    )
+    await progressService.recordEvent(
+      'job-2',
+      WALLET,
+      'image-search',
+      new Date('2025-01-01T23:00:00Z')
+    )
+    const counters = await progressService.recordEvent(
+      'job-3',
+      WALLET,
+      'audio-search',
+      new Date('2025-01-02T01:00:00Z')
+    )
+
+    expect(counters).toEqual({
+      events: 3,
+      'events:image-search': 2,
+      'events:audio-search': 1,
+      days: 2
+    })
+  })
+
+  it('should count a job once across retries', async () => {
+    await progressService.recordEvent('job-1', WALLET, 'image-search')
+    const counters = await progressService.recordEvent(
+      'job-1',
+      WALLET,
+      'image-search'
+    )
+
+    expect(counters).toMatchObject({ events: 1, 'events:image-search': 1 })
+  })
+
+  it('should count a job retried after recording failed', async () => {
+    redis.eval.mockRejectedValueOnce(new Error('Connection is closed.'))
+
+    await expect(
+      progressService.recordEvent('job-1', WALLET, 'image-search')
+    ).rejects.toThrow('Connection is closed.')
+    const counters = await progressService.recordEvent(
+      'job-1',
+      WALLET,
+      'image-search'
+    )
+
+    expect(counters).toMatchObject({ events: 1, 'events:image-search': 1 })
+  })
+})
@@ -0,0 +1,135 @@
+import { Inject, Injectable, Logger } from '@nestjs/common'
+import Redis from 'ioredis'
+import { REDIS_CLIENT } from '../redis/redis.module'
+import { RulesService } from '../rules/rules.service'
+import type { RuleCounters } from '../rules/rules.types'
+
+const KEY_PREFIX = 'rewards:progress'
+// How long a processed job is remembered so retries are not double counted
+const JOB_MARKER_TTL_SECONDS = 7 * 24 * 60 * 60
+
+// Mark job KEYS[1] as counted for wallet ARGV[1] for ARGV[2] seconds and, if
+// it wasn't already, increment the counters in KEYS[2] for event type ARGV[3]
+// and add day ARGV[4] to KEYS[3]. Returns 1 if the event was counted.
+const RECORD_EVENT_SCRIPT = `
+if not redis.call("set", KEYS[1], ARGV[1], "EX", ARGV[2], "NX") then
+  return 0
+end
+redis.call("hincrby", KEYS[2], "events", 1)
+redis.call("hincrby", KEYS[2], "events:" .. ARGV[3], 1)
+redis.call("sadd", KEYS[3], ARGV[4])
+return 1
+`
+
+export interface ThresholdProgress {
+  rule: string
+  achievement: string
+  counter: string
+  current: number
+  target: number
+  completed: boolean
+}
+
+export interface WalletProgress {
+  wallet: string
+  counters: RuleCounters
+  thresholds: ThresholdProgress[]
+}
+
+/**
+ * Per-wallet event counters persisted in Redis
+ * - events: total events
+ * - events:<eventType>: events of a given type
+ * - days: distinct UTC days with at least one event
+ */
+@Injectable()
+export class ProgressService {
+  private readonly logger = new Logger(ProgressService.name)
+
+  constructor(
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    private readonly rulesService: RulesService
+  ) {}
+
+  /**
+   * Count an event for a wallet and return the updated counters. Counting is
+   * idempotent per job ID so BullMQ retries don't inflate progress.
+   */
+  async recordEvent(
+    jobId: string,
+    walletAddress: string,
+    eventType: string,
+    occurredAt: Date = new Date()
+  ): Promise<RuleCounters> {
+    // Marking and counting run as one script, so a failure can't leave the
+    // job marked without its increments
+    const counted = (await this.redis.eval(
+      RECORD_EVENT_SCRIPT,
+      3,
+      `${KEY_PREFIX}:jobs:${jobId}`,
+      this.countersKey(walletAddress),
+      this.daysKey(walletAddress),
+      walletAddress,
+      JOB_MARKER_TTL_SECONDS,
+      eventType,
+      occurredAt.toISOString().slice(0, 10)
+    )) as number
+
+    if (!counted) {
+      this.logger.debug(
+        `Job ${jobId} already counted for ${walletAddress}, skipping increment`
+      )
+    }
+
+    return this.getCounters(walletAddress)
+  }
+
+  /**
+   * Current counters for a wallet
+   */
+  async getCounters(walletAddress: string): Promise<RuleCounters> {
+    const [counts, days] = await Promise.all([
+      this.redis.hgetall(this.countersKey(walletAddress)),
+      this.redis.scard(this.daysKey(walletAddress))
+    ])
+
+    const counters: RuleCounters = { events: 0, days }
+    for (const [name, value] of Object.entries(counts)) {
+      counters[name] = parseInt(value, 10)
+    }
+
+    return counters
+  }
+
+  /**
+   * Counters plus progress towards each threshold achievement
+   */
+  async getProgress(walletAddress: string): Promise<WalletProgress> {
+    const counters = await this.getCounters(walletAddress)
+    const thresholds = this.rulesService
+      .getThresholdRules()
+      .map(({ id, achievement, threshold }) => {
+        const { counter, value } = threshold!
+        const current = counters[counter] ?? 0
+
+        return {
+          rule: id,
+          achievement,
+          counter,
+          current,
+          target: value,
+          completed: current >= value
+        }
+      })
+
+    return { wallet: walletAddress, counters, thresholds }
+  }
+
+  private countersKey(walletAddress: string): string {
+    return `${KEY_PREFIX}:${walletAddress}`
+  }
+
+  private daysKey(walletAddress: string): string {
+    return `${KEY_PREFIX}:${walletAddress}:days`
+  }
+}
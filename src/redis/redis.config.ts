@@ -0,0 +1,70 @@
+import { Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import type { ConnectionOptions } from 'bullmq'
+
+export type RedisConfig = ConfigService<{
+  REDIS_MODE: string
+  REDIS_HOST: string
+  REDIS_PORT: number
+  REDIS_MASTER_NAME: string
+  REDIS_SENTINEL_1_HOST: string
+  REDIS_SENTINEL_1_PORT: number
+  REDIS_SENTINEL_2_HOST: string
+  REDIS_SENTINEL_2_PORT: number
+  REDIS_SENTINEL_3_HOST: string
+  REDIS_SENTINEL_3_PORT: number
+}>
+
+/**
+ * Build Redis connection options for standalone or sentinel mode, shared by
+ * BullMQ and the application Redis client
+ */
+export function createRedisConnectionOptions(
+  config: RedisConfig
+): ConnectionOptions {
+  const logger = new Logger('RedisConfig')
+  const redisMode = config.get('REDIS_MODE', { infer: true }) ?? 'standalone'
+
+  let connection: ConnectionOptions = {
+    host: config.get('REDIS_HOST', { infer: true }) as string,
+    port: config.get('REDIS_PORT', { infer: true }) as number
+  }
+
+  if (redisMode === 'sentinel') {
+    const name = config.get('REDIS_MASTER_NAME', {
+      infer: true
+    }) as string
+    const sentinels = [
+      {
+        host: config.get('REDIS_SENTINEL_1_HOST', {
+          infer: true
+        }) as string,
+        port: config.get('REDIS_SENTINEL_1_PORT', {
+          infer: true
+        }) as number
+      },
+      {
+        host: config.get('REDIS_SENTINEL_2_HOST', {
+          infer: true
+        }) as string,
+        port: config.get('REDIS_SENTINEL_2_PORT', {
+          infer: true
+        }) as number
+      },
+      {
+        host: config.get('REDIS_SENTINEL_3_HOST', {
+          infer: true
+        }) as string,
+        port: config.get('REDIS_SENTINEL_3_PORT', {
+          infer: true
+        }) as number
+      }
+    ]
+    connection = { sentinels, name }
+  }
+
+  logger.log(`Connecting to Redis with mode ${redisMode}`)
+  logger.log(`Connection: ${JSON.stringify(connection)}`)
+
+  return connection
+}
@@ -0,0 +1,25 @@
+import { Inject, Module, OnApplicationShutdown } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import Redis, { RedisOptions } from 'ioredis'
+import { createRedisConnectionOptions, RedisConfig } from './redis.config'
+
+export const REDIS_CLIENT = 'REDIS_CLIENT'
+
+@Module({
+  providers: [
+    {
+      provide: REDIS_CLIENT,
+      inject: [ConfigService],
+      useFactory: (config: RedisConfig) =>
+        new Redis(createRedisConnectionOptions(config) as RedisOptions)
+    }
+  ],
+  exports: [REDIS_CLIENT]
+})
+export class RedisModule implements OnApplicationShutdown {
+  constructor(@Inject(REDIS_CLIENT) private readonly redis: Redis) {}
+
+  async onApplicationShutdown() {
+    await this.redis.quit()
+  }
+}
@@ -0,0 +1,65 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  UseGuards,
+  UsePipes,
+  ValidationPipe
+} from '@nestjs/common'
+import { AdminAuthGuard } from '../auth/admin-auth.guard'
+import { DeadLetterService } from './dead-letter.service'
+import { ReplayDeadLettersDto } from './dto/replay-dead-letters.dto'
+
+@Controller('admin/dlq')
+@UseGuards(AdminAuthGuard)
+@UsePipes(
+  new ValidationPipe({
+    whitelist: true,
+    forbidNonWhitelisted: true,
+    transform: true
+  })
+)
+export class DeadLetterController {
+  constructor(private readonly deadLetterService: DeadLetterService) {}
+
+  @Get()
+  async list(
+    @Query('start', new ParseIntPipe({ optional: true })) start = 0,
+    @Query('end', new ParseIntPipe({ optional: true })) end = 49
+  ) {
+    return this.deadLetterService.list(start, end)
+  }
+
+  /**
+   * Bulk replay, replays everything without IDs
+   */
+  @Post('replay')
+  async replayMany(@Body() dto: ReplayDeadLettersDto) {
+    return this.deadLetterService.replayMany(dto.ids)
+  }
+
+  @Get(':id')
+  async get(@Param('id') id: string) {
+    return this.deadLetterService.get(id)
+  }
+
+  @Post(':id/replay')
+  async replay(@Param('id') id: string) {
+    return this.deadLetterService.replay(id)
+  }
+
+  @Delete(':id')
+  async remove(@Param('id') id: string) {
+    return this.deadLetterService.remove(id)
+  }
+
+  @Delete()
+  async purge() {
+    return this.deadLetterService.purge()
+  }
+}
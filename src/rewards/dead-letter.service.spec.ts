@@ -0,0 +1,96 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { NotFoundException } from '@nestjs/common'
+import { getQueueToken } from '@nestjs/bullmq'
+import { Job } from 'bullmq'
+import type { RewardEventData } from './rewards.types'
+import { DeadLetterService, REWARDS_DLQ_NAME } from './dead-letter.service'
+
+describe('DeadLetterService', () => {
+  let deadLetterService: DeadLetterService
+  let mockRewardsQueue: { add: jest.Mock }
+  let mockDeadLetterQueue: { add: jest.Mock; getJob: jest.Mock }
+
+  beforeEach(async () => {
+    mockRewardsQueue = { add: jest.fn().mockResolvedValue({ id: '42' }) }
+    mockDeadLetterQueue = {
+      add: jest.fn().mockResolvedValue({ id: 'dlq-7' }),
+      getJob: jest.fn().mockResolvedValue(undefined)
+    }
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeadLetterService,
+        {
+          provide: getQueueToken('rewards-events'),
+          useValue: mockRewardsQueue
+        },
+        {
+          provide: getQueueToken(REWARDS_DLQ_NAME),
+          useValue: mockDeadLetterQueue
+        }
+      ]
+    }).compile()
+
+    deadLetterService = app.get<DeadLetterService>(DeadLetterService)
+  })
+
+  it('should record the failure reason, attempts and wallet', async () => {
+    const job = {
+      id: '7',
+      name: 'image-search',
+      data: {
+        eventType: 'image-search',
+        walletAddress: 'vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw'
+      },
+      attemptsMade: 3,
+      stacktrace: ['Error: 1', 'Error: 2', 'Error: 3'],
+      timestamp: Date.now()
+    } as unknown as Job<RewardEventData>
+
+    await expect(
+      deadLetterService.add(job, new Error('AO unreachable'))
+    ).resolves.toBe('dlq-7')
+    expect(mockDeadLetterQueue.add).toHaveBeenCalledWith(
+      'image-search',
+      expect.objectContaining({
+        originalJobId: '7',
+        walletAddress: 'vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw',
+        failedReason: 'AO unreachable',
+        attemptsMade: 3,
+        attemptErrors: ['Error: 1', 'Error: 2', 'Error: 3']
+      }),
+      { jobId: 'dlq-7' }
+    )
+  })
+
+  it('should replay a dead letter as its original job', async () => {
+    const remove = jest.fn()
+    mockDeadLetterQueue.getJob.mockResolvedValue({
+      id: 'dlq-7',
+      data: {
+        name: 'image-search',
+        data: { walletAddress: 'abc' },
+        originalJobId: '7',
+        enqueuedAt: '2025-01-01T00:00:00.000Z'
+      },
+      remove
+    })
+
+    await expect(deadLetterService.replay('dlq-7')).resolves.toEqual({
+      id: 'dlq-7',
+      jobId: '42'
+    })
+    expect(mockRewardsQueue.add).toHaveBeenCalledWith('image-search', {
+      walletAddress: 'abc',
+      originalJobId: '7',
+      originalTimestamp: Date.parse('2025-01-01T00:00:00.000Z')
+    })
+    expect(remove).toHaveBeenCalled()
+  })
+
+  it('should report unknown dead letters as not found', async () => {
+    await expect(deadLetterService.replay('missing')).rejects.toThrow(
+      NotFoundException
+    )
+  })
+})
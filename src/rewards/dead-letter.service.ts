@@ -0,0 +1,141 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common'
+import { InjectQueue } from '@nestjs/bullmq'
+import { Job, Queue } from 'bullmq'
+import type { DeadLetterData, RewardEventData } from './rewards.types'
+
+export const REWARDS_DLQ_NAME = 'rewards-events-dlq'
+
+export interface DeadLetterEntry extends DeadLetterData {
+  id: string
+}
+
+/**
+ * Parks rewards-events jobs that exhausted their attempts on the
+ * rewards-events-dlq queue, which has no worker, until they are replayed or
+ * purged
+ */
+@Injectable()
+export class DeadLetterService {
+  private readonly logger = new Logger(DeadLetterService.name)
+
+  constructor(
+    @InjectQueue('rewards-events')
+    private readonly rewardsQueue: Queue<RewardEventData>,
+    @InjectQueue(REWARDS_DLQ_NAME)
+    private readonly deadLetterQueue: Queue<DeadLetterData>
+  ) {}
+
+  /**
+   * Copy a failed job onto the dead letter queue
+   */
+  async add(job: Job<RewardEventData>, error: Error): Promise<string> {
+    const entry = await this.deadLetterQueue.add(
+      job.name,
+      {
+        originalJobId: job.data.originalJobId ?? (job.id as string),
+        name: job.name,
+        data: job.data,
+        walletAddress: job.data.walletAddress,
+        failedReason: error.message,
+        attemptsMade: job.attemptsMade,
+        attemptErrors: job.stacktrace ?? [],
+        enqueuedAt: new Date(
+          job.data.originalTimestamp ?? job.timestamp
+        ).toISOString(),
+        failedAt: new Date().toISOString()
+      },
+      // Keyed by original job ID so a duplicate failed event is a no-op
+      { jobId: `dlq-${job.id}` }
+    )
+
+    this.logger.warn(
+      `Job ${job.id} (${job.name}) moved to ${REWARDS_DLQ_NAME} as ${entry.id}`
+    )
+    return entry.id as string
+  }
+
+  async list(start = 0, end = 49) {
+    const [total, jobs] = await Promise.all([
+      this.deadLetterQueue.getWaitingCount(),
+      this.deadLetterQueue.getWaiting(start, end)
+    ])
+
+    return { total, entries: jobs.map((job) => this.toEntry(job)) }
+  }
+
+  async get(id: string): Promise<DeadLetterEntry> {
+    return this.toEntry(await this.getJob(id))
+  }
+
+  /**
+   * Re-enqueue a dead letter on rewards-events and remove it from the DLQ.
+   * The replay keeps the original job ID and enqueue time, so progress the
+   * event already counted isn't counted again and its proof doesn't expire.
+   */
+  async replay(id: string) {
+    const job = await this.getJob(id)
+    const { name, data, originalJobId, enqueuedAt } = job.data
+    const replayed = await this.rewardsQueue.add(name, {
+      ...data,
+      originalJobId,
+      originalTimestamp: Date.parse(enqueuedAt)
+    })
+    await job.remove()
+
+    this.logger.log(`Replayed ${id} as rewards-events job ${replayed.id}`)
+    return { id, jobId: replayed.id as string }
+  }
+
+  /**
+   * Replay the given dead letters, or every dead letter when no IDs are given
+   */
+  async replayMany(ids?: string[]) {
+    const targets =
+      ids && ids.length > 0
+        ? ids
+        : (await this.deadLetterQueue.getWaiting()).map((job) => job.id!)
+
+    const replayed: { id: string; jobId: string }[] = []
+    const failed: { id: string; error: string }[] = []
+    for (const id of targets) {
+      try {
+        replayed.push(await this.replay(id))
+      } catch (error) {
+        failed.push({ id, error: (error as Error).message })
+      }
+    }
+
+    return { replayed, failed }
+  }
+
+  async remove(id: string) {
+    const job = await this.getJob(id)
+    await job.remove()
+
+    return { id, removed: true }
+  }
+
+  /**
+   * Remove every dead letter
+   */
+  async purge() {
+    const total = await this.deadLetterQueue.getWaitingCount()
+    await this.deadLetterQueue.drain()
+
+    this.logger.warn(`Purged ${total} entries from ${REWARDS_DLQ_NAME}`)
+    return { purged: total }
+  }
+
+  private async getJob(id: string): Promise<Job<DeadLetterData>> {
+    const job = await this.deadLetterQueue.getJob(id)
+    if (!job) {
+      throw new NotFoundException(`Dead letter ${id} not found`)
+    }
+
+    return job
+  }
+
+  private toEntry(job: Job<DeadLetterData>): DeadLetterEntry {
+    return { id: job.id as string, ...job.data }
+  }
+}
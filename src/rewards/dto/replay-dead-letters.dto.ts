@@ -0,0 +1,12 @@
+import { ArrayMaxSize, IsArray, IsOptional, IsString } from 'class-validator'
+
+export const MAX_DEAD_LETTER_REPLAY_SIZE = 100
+
+export class ReplayDeadLettersDto {
+  // Dead letter IDs, every dead letter is replayed when omitted
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @ArrayMaxSize(MAX_DEAD_LETTER_REPLAY_SIZE)
+  ids?: string[]
+}
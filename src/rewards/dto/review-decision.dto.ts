@@ -0,0 +1,7 @@
+import { IsOptional, IsString } from 'class-validator'
+
+export class ReviewDecisionDto {
+  @IsOptional()
+  @IsString()
+  reason?: string
+}
@@ -1,13 +1,39 @@
-import { IsEnum, IsNotEmpty, IsString } from 'class-validator'
+import { Type } from 'class-transformer'
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested
+} from 'class-validator'
 
-export type RewardEventType =
-  | 'arns-search'
-  | 'image-search'
-  | 'audio-search'
-  | 'video-search'
+/**
+ * Event types are declared by the reward rules, see RulesService
+ */
+export type RewardEventType = string
+
+export const MAX_REWARD_EVENT_BATCH_SIZE = 100
+
+export class WalletProofDto {
+  @IsString()
+  @IsNotEmpty()
+  message: string
+
+  @IsString()
+  @IsNotEmpty()
+  signature: string
+
+  // Required for Arweave wallets: base64url RSA public modulus
+  @IsOptional()
+  @IsString()
+  publicKey?: string
+}
 
 export class RewardEventDto {
-  @IsEnum(['arns-search', 'image-search', 'audio-search', 'video-search'])
+  @IsString()
   @IsNotEmpty()
   eventType: RewardEventType
 
@@ -16,5 +42,22 @@ export class RewardEventDto {
   walletAddress: string
 
   // Optional metadata that can be included with the event
+  @IsOptional()
+  @IsObject()
   metadata?: Record<string, any>
+
+  // Optional signed challenge proving ownership of walletAddress
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => WalletProofDto)
+  proof?: WalletProofDto
+}
+
+export class RewardEventBatchDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_REWARD_EVENT_BATCH_SIZE)
+  @ValidateNested({ each: true })
+  @Type(() => RewardEventDto)
+  events: RewardEventDto[]
 }
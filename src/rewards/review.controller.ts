@@ -0,0 +1,99 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  UseGuards,
+  UsePipes,
+  ValidationPipe
+} from '@nestjs/common'
+import { AdminAuthGuard } from '../auth/admin-auth.guard'
+import { Operator } from '../auth/operator.decorator'
+import type { OperatorIdentity } from '../auth/operator.types'
+import { AuditService } from '../audit/audit.service'
+import { ReviewDecisionDto } from './dto/review-decision.dto'
+import { ReviewService } from './review.service'
+
+/**
+ * Events held by the anti-abuse checks, approved or rejected by operators
+ */
+@Controller('admin/reviews')
+@UseGuards(AdminAuthGuard)
+@UsePipes(
+  new ValidationPipe({
+    whitelist: true,
+    forbidNonWhitelisted: true,
+    transform: true
+  })
+)
+export class ReviewController {
+  constructor(
+    private readonly reviewService: ReviewService,
+    private readonly auditService: AuditService
+  ) {}
+
+  @Get()
+  async list(
+    @Query('start', new ParseIntPipe({ optional: true })) start = 0,
+    @Query('end', new ParseIntPipe({ optional: true })) end = 49
+  ) {
+    return this.reviewService.list(start, end)
+  }
+
+  @Get(':id')
+  async get(@Param('id') id: string) {
+    return this.reviewService.get(id)
+  }
+
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  async approve(
+    @Param('id') id: string,
+    @Body() dto: ReviewDecisionDto,
+    @Operator() operator: OperatorIdentity
+  ) {
+    const entry = await this.reviewService.get(id)
+    const result = await this.reviewService.approve(
+      id,
+      `operator:${operator.id}`
+    )
+    await this.auditService.record({
+      action: 'admin.review-approve',
+      actor: `operator:${operator.id}`,
+      wallet: entry.walletAddress,
+      jobId: result.jobId,
+      eventType: entry.name,
+      reason: dto.reason,
+      details: { reviewId: id, signals: entry.signals }
+    })
+
+    return result
+  }
+
+  @Post(':id/reject')
+  @HttpCode(HttpStatus.OK)
+  async reject(
+    @Param('id') id: string,
+    @Body() dto: ReviewDecisionDto,
+    @Operator() operator: OperatorIdentity
+  ) {
+    const entry = await this.reviewService.get(id)
+    const result = await this.reviewService.reject(id)
+    await this.auditService.record({
+      action: 'admin.review-reject',
+      actor: `operator:${operator.id}`,
+      wallet: entry.walletAddress,
+      jobId: entry.originalJobId,
+      eventType: entry.name,
+      reason: dto.reason,
+      details: { reviewId: id, signals: entry.signals }
+    })
+
+    return result
+  }
+}
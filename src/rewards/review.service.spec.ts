@@ -0,0 +1,107 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { NotFoundException } from '@nestjs/common'
+import { getQueueToken } from '@nestjs/bullmq'
+import { Job } from 'bullmq'
+import type { RewardEventData } from './rewards.types'
+import { REWARDS_REVIEW_QUEUE_NAME, ReviewService } from './review.service'
+
+describe('ReviewService', () => {
+  let reviewService: ReviewService
+  let mockRewardsQueue: { add: jest.Mock }
+  let mockReviewQueue: { add: jest.Mock; getJob: jest.Mock }
+
+  const data: RewardEventData = {
+    eventType: 'image-search',
+    walletAddress: 'vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw',
+    metadata: { ip: '203.0.113.7' }
+  }
+  const signals = [
+    {
+      check: 'wallet-rate' as const,
+      subject: data.walletAddress,
+      count: 31,
+      limit: 30,
+      windowMs: 60000,
+      reason: 'wallet-rate exceeded'
+    }
+  ]
+
+  beforeEach(async () => {
+    mockRewardsQueue = { add: jest.fn().mockResolvedValue({ id: '42' }) }
+    mockReviewQueue = {
+      add: jest.fn().mockResolvedValue({ id: 'review-7' }),
+      getJob: jest.fn().mockResolvedValue(undefined)
+    }
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReviewService,
+        {
+          provide: getQueueToken('rewards-events'),
+          useValue: mockRewardsQueue
+        },
+        {
+          provide: getQueueToken(REWARDS_REVIEW_QUEUE_NAME),
+          useValue: mockReviewQueue
+        }
+      ]
+    }).compile()
+
+    reviewService = app.get<ReviewService>(ReviewService)
+  })
+
+  it('should hold a flagged job once with its signals', async () => {
+    const job = {
+      id: '7',
+      name: 'image-search',
+      data,
+      timestamp: Date.parse('2025-01-01T00:00:00.000Z')
+    } as Job<RewardEventData>
+
+    await expect(
+      reviewService.add(job, data.walletAddress, signals)
+    ).resolves.toBe('review-7')
+    expect(mockReviewQueue.add).toHaveBeenCalledWith(
+      'image-search',
+      expect.objectContaining({
+        originalJobId: '7',
+        data,
+        walletAddress: data.walletAddress,
+        signals,
+        enqueuedAt: '2025-01-01T00:00:00.000Z'
+      }),
+      { jobId: 'review-7' }
+    )
+  })
+
+  it('should re-enqueue approved events marked as reviewed', async () => {
+    const remove = jest.fn()
+    mockReviewQueue.getJob.mockResolvedValue({
+      id: 'review-7',
+      data: {
+        name: 'image-search',
+        data,
+        originalJobId: '7',
+        enqueuedAt: '2025-01-01T00:00:00.000Z'
+      },
+      remove
+    })
+
+    await expect(
+      reviewService.approve('review-7', 'operator:alice')
+    ).resolves.toEqual({ id: 'review-7', jobId: '42' })
+    expect(mockRewardsQueue.add).toHaveBeenCalledWith('image-search', {
+      ...data,
+      reviewedBy: 'operator:alice',
+      originalJobId: '7',
+      originalTimestamp: Date.parse('2025-01-01T00:00:00.000Z')
+    })
+    expect(remove).toHaveBeenCalled()
+  })
+
+  it('should throw NotFoundException for unknown reviews', async () => {
+    await expect(reviewService.reject('missing')).rejects.toThrow(
+      NotFoundException
+    )
+  })
+})
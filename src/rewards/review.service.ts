@@ -0,0 +1,116 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common'
+import { InjectQueue } from '@nestjs/bullmq'
+import { Job, Queue } from 'bullmq'
+import type { AbuseSignal } from '../abuse/abuse.types'
+import type { RewardEventData, ReviewData } from './rewards.types'
+
+export const REWARDS_REVIEW_QUEUE_NAME = 'rewards-events-review'
+
+export interface ReviewEntry extends ReviewData {
+  id: string
+}
+
+/**
+ * Holds rewards-events jobs flagged by the anti-abuse checks on the
+ * rewards-events-review queue, which has no worker, until an operator
+ * approves or rejects them
+ */
+@Injectable()
+export class ReviewService {
+  private readonly logger = new Logger(ReviewService.name)
+
+  constructor(
+    @InjectQueue('rewards-events')
+    private readonly rewardsQueue: Queue<RewardEventData>,
+    @InjectQueue(REWARDS_REVIEW_QUEUE_NAME)
+    private readonly reviewQueue: Queue<ReviewData>
+  ) {}
+
+  /**
+   * Copy a flagged job onto the review queue
+   */
+  async add(
+    job: Job<RewardEventData>,
+    walletAddress: string,
+    signals: AbuseSignal[]
+  ): Promise<string> {
+    const entry = await this.reviewQueue.add(
+      job.name,
+      {
+        originalJobId: job.data.originalJobId ?? (job.id as string),
+        name: job.name,
+        data: job.data,
+        walletAddress,
+        signals,
+        enqueuedAt: new Date(
+          job.data.originalTimestamp ?? job.timestamp
+        ).toISOString(),
+        flaggedAt: new Date().toISOString()
+      },
+      // Keyed by original job ID so a retried job is held once
+      { jobId: `review-${job.id}` }
+    )
+
+    this.logger.warn(
+      `Job ${job.id} (${job.name}) held for review as ${entry.id}`
+    )
+    return entry.id as string
+  }
+
+  async list(start = 0, end = 49) {
+    const [total, jobs] = await Promise.all([
+      this.reviewQueue.getWaitingCount(),
+      this.reviewQueue.getWaiting(start, end)
+    ])
+
+    return { total, entries: jobs.map((job) => this.toEntry(job)) }
+  }
+
+  async get(id: string): Promise<ReviewEntry> {
+    return this.toEntry(await this.getJob(id))
+  }
+
+  /**
+   * Re-enqueue a held event on rewards-events, skipping the anti-abuse
+   * checks, and remove it from the review queue. Like DLQ replays it keeps
+   * the original job ID and enqueue time.
+   */
+  async approve(id: string, reviewedBy: string) {
+    const job = await this.getJob(id)
+    const { name, data, originalJobId, enqueuedAt } = job.data
+    const approved = await this.rewardsQueue.add(name, {
+      ...data,
+      reviewedBy,
+      originalJobId,
+      originalTimestamp: Date.parse(enqueuedAt)
+    })
+    await job.remove()
+
+    this.logger.log(`Approved ${id} as rewards-events job ${approved.id}`)
+    return { id, jobId: approved.id as string }
+  }
+
+  /**
+   * Drop a held event without rewarding it
+   */
+  async reject(id: string) {
+    const job = await this.getJob(id)
+    await job.remove()
+
+    this.logger.log(`Rejected ${id}`)
+    return { id, rejected: true }
+  }
+
+  private async getJob(id: string): Promise<Job<ReviewData>> {
+    const job = await this.reviewQueue.getJob(id)
+    if (!job) {
+      throw new NotFoundException(`Review ${id} not found`)
+    }
+
+    return job
+  }
+
+  private toEntry(job: Job<ReviewData>): ReviewEntry {
+    return { id: job.id as string, ...job.data }
+  }
+}
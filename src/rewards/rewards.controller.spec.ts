@@ -0,0 +1,208 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { BadRequestException, ValidationPipe } from '@nestjs/common'
+import { getQueueToken } from '@nestjs/bullmq'
+import { RewardsController } from './rewards.controller'
+import { RulesService } from '../rules/rules.service'
+import { RewardEventBatchDto } from './dto/reward-event.dto'
+import { ProducerAuthGuard } from '../auth/producer-auth.guard'
+import type { ProducerIdentity } from '../auth/producer.types'
+import { AuditService } from '../audit/audit.service'
+import { WalletResolverService } from '../names/wallet-resolver.service'
+
+describe('RewardsController', () => {
+  let rewardsController: RewardsController
+  let mockQueue: { add: jest.Mock; addBulk: jest.Mock }
+  let mockAuditService: { record: jest.Mock }
+  const producer: ProducerIdentity = { id: 'wuzzy-web', method: 'api-key' }
+
+  beforeEach(async () => {
+    mockQueue = {
+      add: jest.fn().mockResolvedValue({ id: '1' }),
+      addBulk: jest
+        .fn()
+        .mockImplementation((jobs: unknown[]) =>
+          Promise.resolve(jobs.map((_, i) => ({ id: `${i + 1}` })))
+        )
+    }
+    mockAuditService = { record: jest.fn().mockResolvedValue({}) }
+
+    const app: TestingModule = await Test.createTestingModule({
+      controllers: [RewardsController],
+      providers: [
+        {
+          provide: getQueueToken('rewards-events'),
+          useValue: mockQueue
+        },
+        {
+          provide: RulesService,
+          useValue: {
+            hasEventType: (eventType: string) => eventType === 'image-search',
+            getEventTypes: () => ['image-search']
+          }
+        },
+        { provide: AuditService, useValue: mockAuditService },
+        {
+          provide: WalletResolverService,
+          useValue: {
+            isName: (address: string) => address.endsWith('.eth'),
+            resolve: (name: string) =>
+              Promise.resolve(
+                name === 'goblin.eth'
+                  ? {
+                      valid: true,
+                      type: 'evm',
+                      normalized: '0x742D35CC6634c0532925A3b844BC9E7595F0BEb0',
+                      name
+                    }
+                  : { valid: false, name, error: `${name} does not resolve` }
+              )
+          }
+        }
+      ]
+    })
+      .overrideGuard(ProducerAuthGuard)
+      .useValue({ canActivate: () => true })
+      .compile()
+
+    rewardsController = app.get<RewardsController>(RewardsController)
+  })
+
+  describe('createEvent', () => {
+    it('should enqueue the event using its type as the job name', async () => {
+      const result = await rewardsController.createEvent(
+        {
+          eventType: 'image-search',
+          walletAddress: 'vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw'
+        },
+        producer
+      )
+
+      expect(result).toEqual({ jobId: '1' })
+      expect(mockQueue.add).toHaveBeenCalledWith('image-search', {
+        eventType: 'image-search',
+        walletAddress: 'vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw',
+        metadata: undefined,
+        producer
+      })
+    })
+
+    it('should enqueue the address an ENS name resolves to', async () => {
+      await rewardsController.createEvent(
+        { eventType: 'image-search', walletAddress: 'goblin.eth' },
+        producer
+      )
+
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        'image-search',
+        expect.objectContaining({
+          walletAddress: '0x742D35CC6634c0532925A3b844BC9E7595F0BEb0',
+          walletName: 'goblin.eth'
+        })
+      )
+    })
+
+    it('should reject names that do not resolve', async () => {
+      await expect(
+        rewardsController.createEvent(
+          { eventType: 'image-search', walletAddress: 'nobody.eth' },
+          producer
+        )
+      ).rejects.toThrow(BadRequestException)
+      expect(mockQueue.add).not.toHaveBeenCalled()
+    })
+
+    it('should reject event types without rules', async () => {
+      await expect(
+        rewardsController.createEvent(
+          {
+            eventType: 'pdf-search',
+            walletAddress: 'vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw'
+          },
+          producer
+        )
+      ).rejects.toThrow(BadRequestException)
+      expect(mockQueue.add).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('createEvents', () => {
+    it('should enqueue every event in the batch', async () => {
+      const result = await rewardsController.createEvents(
+        {
+          events: [
+            {
+              eventType: 'image-search',
+              walletAddress: 'vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw'
+            },
+            {
+              eventType: 'image-search',
+              walletAddress: '0x742D35CC6634c0532925A3b844BC9E7595F0BEb0'
+            }
+          ]
+        },
+        producer
+      )
+
+      expect(result).toEqual({ jobIds: ['1', '2'] })
+    })
+
+    it('should audit every received event with its wallet validation', async () => {
+      await rewardsController.createEvents(
+        {
+          events: [
+            {
+              eventType: 'image-search',
+              walletAddress: '0x742d35cc6634c0532925a3b844bc9e7595f0beb0'
+            },
+            { eventType: 'image-search', walletAddress: 'not-a-wallet' }
+          ]
+        },
+        producer
+      )
+
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'reward.received',
+          actor: 'producer:wuzzy-web',
+          wallet: '0x742D35CC6634c0532925A3b844BC9E7595F0BEb0',
+          jobId: '1',
+          eventType: 'image-search'
+        })
+      )
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          jobId: '2',
+          wallet: undefined,
+          details: expect.objectContaining({
+            validation: expect.objectContaining({ valid: false }) as unknown
+          }) as unknown
+        })
+      )
+    })
+
+    it('should enqueue events even when auditing fails', async () => {
+      mockAuditService.record.mockRejectedValue(new Error('Redis down'))
+
+      await expect(
+        rewardsController.createEvent(
+          {
+            eventType: 'image-search',
+            walletAddress: 'vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw'
+          },
+          producer
+        )
+      ).resolves.toEqual({ jobId: '1' })
+    })
+
+    it('should validate nested events', async () => {
+      const pipe = new ValidationPipe({ whitelist: true, transform: true })
+
+      await expect(
+        pipe.transform(
+          { events: [{ eventType: 'image-search' }] },
+          { type: 'body', metatype: RewardEventBatchDto }
+        )
+      ).rejects.toThrow(BadRequestException)
+    })
+  })
+})
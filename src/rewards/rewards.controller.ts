@@ -0,0 +1,185 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Post,
+  UseGuards,
+  UsePipes,
+  ValidationPipe
+} from '@nestjs/common'
+import { InjectQueue } from '@nestjs/bullmq'
+import { Queue } from 'bullmq'
+import { RulesService } from '../rules/rules.service'
+import { RewardEventBatchDto, RewardEventDto } from './dto/reward-event.dto'
+import { ProducerAuthGuard } from '../auth/producer-auth.guard'
+import { Producer } from '../auth/producer.decorator'
+import type { ProducerIdentity } from '../auth/producer.types'
+import { AuditService } from '../audit/audit.service'
+import { WalletValidator } from '../utils/wallet.validator'
+import { WalletResolverService } from '../names/wallet-resolver.service'
+
+type ResolvedRewardEvent = RewardEventDto & { walletName?: string }
+
+@Controller('events')
+@UseGuards(ProducerAuthGuard)
+@UsePipes(
+  new ValidationPipe({
+    whitelist: true,
+    forbidNonWhitelisted: true,
+    transform: true
+  })
+)
+export class RewardsController {
+  private readonly logger = new Logger(RewardsController.name)
+
+  constructor(
+    @InjectQueue('rewards-events')
+    private readonly rewardsQueue: Queue,
+    private readonly rulesService: RulesService,
+    private readonly auditService: AuditService,
+    private readonly walletResolver: WalletResolverService
+  ) {}
+
+  /**
+   * Enqueue a single reward event, using its event type as the job name
+   */
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  async createEvent(
+    @Body() dto: RewardEventDto,
+    @Producer() producer: ProducerIdentity
+  ) {
+    this.assertKnownEventTypes([dto])
+    const [event] = await this.resolveNames([dto])
+
+    const job = await this.rewardsQueue.add(event.eventType, {
+      eventType: event.eventType,
+      walletAddress: event.walletAddress,
+      walletName: event.walletName,
+      metadata: event.metadata,
+      proof: event.proof,
+      producer
+    })
+    await this.auditReceived([event], [job.id as string], producer)
+
+    return { jobId: job.id }
+  }
+
+  /**
+   * Enqueue a batch of reward events atomically
+   */
+  @Post('batch')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async createEvents(
+    @Body() batch: RewardEventBatchDto,
+    @Producer() producer: ProducerIdentity
+  ) {
+    this.assertKnownEventTypes(batch.events)
+    const events = await this.resolveNames(batch.events)
+
+    const jobs = await this.rewardsQueue.addBulk(
+      events.map((event) => ({
+        name: event.eventType,
+        data: {
+          eventType: event.eventType,
+          walletAddress: event.walletAddress,
+          walletName: event.walletName,
+          metadata: event.metadata,
+          proof: event.proof,
+          producer
+        }
+      }))
+    )
+    await this.auditReceived(
+      events,
+      jobs.map((job) => job.id as string),
+      producer
+    )
+
+    return { jobIds: jobs.map((job) => job.id) }
+  }
+
+  /**
+   * Record enqueued events with their wallet validation result. Failures are
+   * logged only, the events are already queued.
+   */
+  private async auditReceived(
+    events: ResolvedRewardEvent[],
+    jobIds: string[],
+    producer: ProducerIdentity
+  ) {
+    try {
+      await Promise.all(
+        events.map((event, i) => {
+          const validation = WalletValidator.validateAndNormalize(
+            event.walletAddress
+          )
+          return this.auditService.record({
+            action: 'reward.received',
+            actor: `producer:${producer.id}`,
+            wallet: validation.normalized,
+            jobId: jobIds[i],
+            eventType: event.eventType,
+            details: {
+              walletAddress: event.walletAddress,
+              walletName: event.walletName,
+              validation,
+              metadata: event.metadata,
+              hasProof: Boolean(event.proof)
+            }
+          })
+        })
+      )
+    } catch (error) {
+      const err = error as Error
+      this.logger.error(
+        `Failed to audit received events ${jobIds.join(', ')}: ${err.message}`,
+        err.stack
+      )
+    }
+  }
+
+  /**
+   * Replace ENS/ArNS names with the addresses they resolve to, rejecting the
+   * request if one does not resolve
+   */
+  private async resolveNames(
+    events: RewardEventDto[]
+  ): Promise<ResolvedRewardEvent[]> {
+    return Promise.all(
+      events.map(async (event) => {
+        if (!this.walletResolver.isName(event.walletAddress)) {
+          return event
+        }
+
+        const resolved = await this.walletResolver.resolve(event.walletAddress)
+        if (!resolved.valid || !resolved.normalized) {
+          throw new BadRequestException(
+            `Wallet validation failed: ${resolved.error}`
+          )
+        }
+        return {
+          ...event,
+          walletAddress: resolved.normalized,
+          walletName: resolved.name
+        }
+      })
+    )
+  }
+
+  private assertKnownEventTypes(events: RewardEventDto[]) {
+    const unknown = events
+      .map((event) => event.eventType)
+      .filter((eventType) => !this.rulesService.hasEventType(eventType))
+
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown event type(s): ${Array.from(new Set(unknown)).join(', ')}. ` +
+          `Supported: ${this.rulesService.getEventTypes().join(', ')}`
+      )
+    }
+  }
+}
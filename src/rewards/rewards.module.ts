@@ -1,11 +1,38 @@
 import { Module } from '@nestjs/common'
 import { BullModule } from '@nestjs/bullmq'
 import { RewardsProcessor } from './rewards.processor'
+import { RewardsController } from './rewards.controller'
+import { DeadLetterService, REWARDS_DLQ_NAME } from './dead-letter.service'
+import { DeadLetterController } from './dead-letter.controller'
+import { ReviewService, REWARDS_REVIEW_QUEUE_NAME } from './review.service'
+import { ReviewController } from './review.controller'
 import { AchievementsModule } from '../achievements/achievements.module'
+import { RulesModule } from '../rules/rules.module'
+import { ProgressModule } from '../progress/progress.module'
+import { AuthModule } from '../auth/auth.module'
+import { WebhooksModule } from '../webhooks/webhooks.module'
+import { AuditModule } from '../audit/audit.module'
+import { IdentityModule } from '../identity/identity.module'
+import { NamesModule } from '../names/names.module'
+import { AbuseModule } from '../abuse/abuse.module'
+import { RedisModule } from '../redis/redis.module'
+import { AoModule } from '../ao/ao.module'
+import { NotificationsModule } from '../notifications/notifications.module'
 
 @Module({
   imports: [
     AchievementsModule,
+    RulesModule,
+    ProgressModule,
+    AuthModule,
+    WebhooksModule,
+    AuditModule,
+    IdentityModule,
+    NamesModule,
+    AbuseModule,
+    RedisModule,
+    AoModule,
+    NotificationsModule,
     BullModule.registerQueue({
       name: 'rewards-events',
       defaultJobOptions: {
@@ -18,11 +45,20 @@ import { AchievementsModule } from '../achievements/achievements.module'
         removeOnFail: 500 // Keep last 500 failed jobs for debugging
       }
     }),
+    // No worker consumes the DLQ, entries wait until replayed or purged
+    BullModule.registerQueue({
+      name: REWARDS_DLQ_NAME
+    }),
+    // No worker consumes the review queue either, operators approve or reject
+    BullModule.registerQueue({
+      name: REWARDS_REVIEW_QUEUE_NAME
+    }),
     BullModule.registerFlowProducer({
       name: 'rewards-flow'
     })
   ],
-  providers: [RewardsProcessor],
-  exports: [BullModule]
+  controllers: [RewardsController, DeadLetterController, ReviewController],
+  providers: [RewardsProcessor, DeadLetterService, ReviewService],
+  exports: [BullModule, RewardsProcessor]
 })
 export class RewardsModule {}
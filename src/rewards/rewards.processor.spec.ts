@@ -0,0 +1,479 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { DelayedError, Job, UnrecoverableError } from 'bullmq'
+import { Wallet } from 'ethers'
+import { RewardsProcessor } from './rewards.processor'
+import { DeadLetterService } from './dead-letter.service'
+import { ReviewService } from './review.service'
+import { REDIS_CLIENT } from '../redis/redis.module'
+import { AO_CLIENT } from '../ao/ao.module'
+import { AchievementsService } from '../achievements/achievements.service'
+import {
+  AwardBatcher,
+  BATCH_AWARD_RESULT_ACTION
+} from '../achievements/backends/award-batcher'
+import { RulesService } from '../rules/rules.service'
+import { ProgressService } from '../progress/progress.service'
+import { WebhooksService } from '../webhooks/webhooks.service'
+import { AuditService } from '../audit/audit.service'
+import { IdentityService } from '../identity/identity.service'
+import { AbuseService } from '../abuse/abuse.service'
+import { AwardPublisher } from '../notifications/award-publisher.service'
+import { AoClient, readAoClientConfig } from '../utils/ao-client'
+import { WalletProofVerifier } from '../utils/wallet-proof.verifier'
+import type { RewardRule } from '../rules/rules.types'
+import type { RewardEventData, RewardJobResult } from './rewards.types'
+
+const ALICE = 'vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw'
+const BOB = '0x742D35CC6634c0532925A3b844BC9E7595F0BEb0'
+
+const IMAGE_RULE: RewardRule = {
+  id: 'wuzzy-image-searcher',
+  events: ['image-search'],
+  achievement: 'Wuzzy Image Searcher'
+}
+
+const VERIFIED_RULE: RewardRule = {
+  id: 'verified-searcher',
+  events: ['image-search'],
+  achievement: 'Verified Searcher',
+  requireProof: true
+}
+
+const createJob = (id: string, data: Partial<RewardEventData> = {}) =>
+  ({
+    id,
+    name: 'image-search',
+    timestamp: Date.now(),
+    attemptsMade: 0,
+    opts: { attempts: 3 },
+    data: { eventType: 'image-search', walletAddress: ALICE, ...data },
+    moveToDelayed: jest.fn().mockResolvedValue(undefined),
+    updateData: jest.fn().mockResolvedValue(undefined)
+  }) as unknown as Job<RewardEventData>
+
+describe('RewardsProcessor', () => {
+  let processor: RewardsProcessor
+  let config: Record<string, string>
+  let aoClient: AoClient
+
+  const achievementsService = {
+    awardAchievement: jest.fn(),
+    getAchievementId: jest.fn(),
+    getProcessState: jest.fn()
+  }
+  const rulesService = { hasEventType: jest.fn(), explain: jest.fn() }
+  const progressService = { recordEvent: jest.fn() }
+  const webhooksService = { publish: jest.fn() }
+  const abuseService = { assess: jest.fn() }
+  const reviewService = { add: jest.fn() }
+  const awardPublisher = { publish: jest.fn() }
+  const deadLetterService = { add: jest.fn() }
+  const identityService = { resolvePrimary: jest.fn() }
+  const redis = { set: jest.fn(), get: jest.fn() }
+
+  const createProcessor = async () => {
+    const configService = {
+      get: (key: string) => config[key]
+    } as unknown as ConfigService
+    aoClient = new AoClient(readAoClientConfig(configService))
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        RewardsProcessor,
+        { provide: ConfigService, useValue: configService },
+        { provide: AchievementsService, useValue: achievementsService },
+        { provide: RulesService, useValue: rulesService },
+        { provide: ProgressService, useValue: progressService },
+        { provide: DeadLetterService, useValue: deadLetterService },
+        { provide: WebhooksService, useValue: webhooksService },
+        {
+          provide: AuditService,
+          useValue: { record: jest.fn().mockResolvedValue(undefined) }
+        },
+        { provide: IdentityService, useValue: identityService },
+        { provide: AbuseService, useValue: abuseService },
+        { provide: ReviewService, useValue: reviewService },
+        { provide: AwardPublisher, useValue: awardPublisher },
+        { provide: REDIS_CLIENT, useValue: redis },
+        { provide: AO_CLIENT, useValue: aoClient }
+      ]
+    }).compile()
+
+    return app.get<RewardsProcessor>(RewardsProcessor)
+  }
+
+  beforeEach(async () => {
+    jest.resetAllMocks()
+    config = {}
+
+    achievementsService.getAchievementId.mockReturnValue('mint-image')
+    rulesService.hasEventType.mockReturnValue(true)
+    rulesService.explain.mockReturnValue([{ rule: IMAGE_RULE, matched: true }])
+    progressService.recordEvent.mockResolvedValue({ events: 1 })
+    identityService.resolvePrimary.mockImplementation((wallet: string) =>
+      Promise.resolve(wallet)
+    )
+    webhooksService.publish.mockResolvedValue(undefined)
+    abuseService.assess.mockResolvedValue({ decision: 'allow', signals: [] })
+    awardPublisher.publish.mockResolvedValue(undefined)
+    achievementsService.awardAchievement.mockImplementation(
+      (achievement: string) =>
+        Promise.resolve({
+          achievement,
+          achievementId: 'mint-image',
+          status: 'awarded',
+          messageId: 'message-1'
+        })
+    )
+
+    processor = await createProcessor()
+  })
+
+  describe('wallet proofs', () => {
+    const wallet = Wallet.createRandom()
+    const proof = async () => {
+      const message = WalletProofVerifier.buildChallenge(wallet.address)
+      return { message, signature: await wallet.signMessage(message) }
+    }
+
+    beforeEach(() => {
+      rulesService.explain.mockReturnValue([
+        { rule: IMAGE_RULE, matched: true },
+        { rule: VERIFIED_RULE, matched: true }
+      ])
+    })
+
+    it('should skip only the rules requiring a proof without one', async () => {
+      const result = (await processor.process(
+        createJob('1', { walletAddress: wallet.address })
+      )) as RewardJobResult
+
+      expect(result.proofVerified).toBe(false)
+      expect(result.awards).toEqual([
+        expect.objectContaining({ rule: IMAGE_RULE.id, status: 'awarded' }),
+        expect.objectContaining({
+          rule: VERIFIED_RULE.id,
+          status: 'skipped-by-rule',
+          reason: 'Wallet proof required: No wallet proof submitted'
+        })
+      ])
+    })
+
+    it('should award proof gated rules once the proof is claimed', async () => {
+      redis.set.mockResolvedValue('OK')
+
+      const result = (await processor.process(
+        createJob('1', { walletAddress: wallet.address, proof: await proof() })
+      )) as RewardJobResult
+
+      expect(result.proofVerified).toBe(true)
+      expect(result.awards.map(({ status }) => status)).toEqual([
+        'awarded',
+        'awarded'
+      ])
+      expect(redis.set).toHaveBeenCalledWith(
+        expect.stringMatching(/^rewards:proofs:/),
+        '1',
+        'PX',
+        1200000,
+        'NX'
+      )
+    })
+
+    it('should not accept a proof another event already used', async () => {
+      redis.set.mockResolvedValue(null)
+      redis.get.mockResolvedValue('other-job')
+
+      const result = (await processor.process(
+        createJob('1', { walletAddress: wallet.address, proof: await proof() })
+      )) as RewardJobResult
+
+      expect(result.proofVerified).toBe(false)
+      expect(result.awards[1]).toMatchObject({
+        status: 'skipped-by-rule',
+        reason: 'Wallet proof required: Proof has already been used'
+      })
+    })
+  })
+
+  describe('progress', () => {
+    it('should count replayed events when they were first enqueued', async () => {
+      const enqueuedAt = Date.parse('2025-01-01T00:00:00.000Z')
+
+      await processor.process(createJob('1', { originalTimestamp: enqueuedAt }))
+
+      expect(progressService.recordEvent).toHaveBeenCalledWith(
+        '1',
+        ALICE,
+        'image-search',
+        new Date(enqueuedAt)
+      )
+    })
+  })
+
+  describe('linked wallets', () => {
+    it('should reward the primary of a linked wallet', async () => {
+      identityService.resolvePrimary.mockResolvedValue(BOB)
+
+      await processor.process(createJob('1'))
+
+      expect(achievementsService.awardAchievement).toHaveBeenCalledWith(
+        IMAGE_RULE.achievement,
+        BOB
+      )
+      expect(awardPublisher.publish).toHaveBeenCalledWith(
+        expect.objectContaining({ wallet: BOB, walletType: 'evm' }),
+        expect.any(Array)
+      )
+    })
+
+    it('should fail events linked to an invalid primary without retries', async () => {
+      identityService.resolvePrimary.mockResolvedValue('not-a-wallet')
+
+      await expect(processor.process(createJob('1'))).rejects.toThrow(
+        UnrecoverableError
+      )
+      expect(progressService.recordEvent).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('abuse screening', () => {
+    it('should fail deny-listed events without retries', async () => {
+      abuseService.assess.mockResolvedValue({
+        decision: 'deny',
+        signals: [{ check: 'deny-list', reason: 'wallet is deny-listed' }]
+      })
+
+      await expect(processor.process(createJob('1'))).rejects.toThrow(
+        UnrecoverableError
+      )
+      expect(progressService.recordEvent).not.toHaveBeenCalled()
+    })
+
+    it('should hold suspicious events for review instead of rewarding them', async () => {
+      const signals = [{ check: 'wallet-rate', reason: 'too many events' }]
+      abuseService.assess.mockResolvedValue({ decision: 'review', signals })
+      reviewService.add.mockResolvedValue('review-1')
+
+      await expect(processor.process(createJob('1'))).resolves.toEqual({
+        success: false,
+        eventType: 'image-search',
+        wallet: ALICE,
+        inReview: true,
+        reviewId: 'review-1',
+        signals
+      })
+      expect(achievementsService.awardAchievement).not.toHaveBeenCalled()
+    })
+
+    it('should skip the checks for events an operator approved', async () => {
+      await processor.process(createJob('1', { reviewedBy: 'alice' }))
+
+      expect(abuseService.assess).not.toHaveBeenCalled()
+      expect(achievementsService.awardAchievement).toHaveBeenCalled()
+    })
+  })
+
+  describe('AO circuit', () => {
+    const openCircuit = () => {
+      for (let i = 0; i < aoClient.config.circuitFailureThreshold; i++) {
+        aoClient.circuitBreaker.recordFailure()
+      }
+    }
+
+    afterEach(() => {
+      processor.onModuleDestroy()
+    })
+
+    it('should pause the worker while the circuit is open', () => {
+      const worker = {
+        pause: jest.fn().mockResolvedValue(undefined),
+        resume: jest.fn()
+      }
+      Object.assign(processor, { _worker: worker })
+      processor.onModuleInit()
+
+      openCircuit()
+      expect(worker.pause).toHaveBeenCalledWith(true)
+
+      aoClient.circuitBreaker.recordSuccess()
+      expect(worker.resume).toHaveBeenCalled()
+    })
+
+    it('should delay jobs failing while the circuit is open', async () => {
+      openCircuit()
+      achievementsService.awardAchievement.mockRejectedValue(
+        new Error('AO circuit is open')
+      )
+      const job = createJob('1')
+      const moveToDelayed = jest.spyOn(job, 'moveToDelayed')
+
+      await expect(processor.process(job, 'token')).rejects.toThrow(
+        DelayedError
+      )
+      expect(moveToDelayed).toHaveBeenCalledWith(expect.any(Number), 'token')
+    })
+  })
+
+  describe('failures', () => {
+    it('should publish reward.failed for permanently failed jobs', async () => {
+      await processor.onFailed(
+        createJob('1'),
+        new UnrecoverableError('Event denied: wallet is deny-listed')
+      )
+
+      expect(webhooksService.publish).toHaveBeenCalledWith(
+        'reward.failed',
+        expect.objectContaining({
+          wallet: ALICE,
+          jobId: '1',
+          error: 'Event denied: wallet is deny-listed'
+        })
+      )
+      expect(deadLetterService.add).not.toHaveBeenCalled()
+    })
+
+    it('should dead letter jobs that exhausted their attempts', async () => {
+      const job = createJob('1')
+      Object.assign(job, { attemptsMade: 3 })
+      const error = new Error('CU unavailable')
+
+      await processor.onFailed(job, error)
+
+      expect(deadLetterService.add).toHaveBeenCalledWith(job, error)
+      expect(webhooksService.publish).toHaveBeenCalledWith(
+        'reward.failed',
+        expect.objectContaining({ attemptsMade: 3, error: 'CU unavailable' })
+      )
+    })
+
+    it('should wait for retries before publishing a failure', async () => {
+      await processor.onFailed(createJob('1'), new Error('CU unavailable'))
+
+      expect(webhooksService.publish).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('publishing', () => {
+    const outcome = (status: string, messageId?: string) => ({
+      achievement: IMAGE_RULE.achievement,
+      achievementId: 'mint-image',
+      status,
+      messageId
+    })
+
+    it('should publish new awards and remember them in the job', async () => {
+      achievementsService.awardAchievement.mockResolvedValue(
+        outcome('awarded', 'message-1')
+      )
+      const job = createJob('1')
+      const updateData = jest.spyOn(job, 'updateData')
+
+      await processor.process(job)
+
+      expect(updateData).toHaveBeenCalledWith(
+        expect.objectContaining({ awarded: { 'mint-image': 'message-1' } })
+      )
+      expect(awardPublisher.publish).toHaveBeenCalledWith(
+        expect.objectContaining({ wallet: ALICE, jobId: '1' }),
+        [expect.objectContaining({ status: 'awarded', messageId: 'message-1' })]
+      )
+    })
+
+    it('should publish awards an earlier attempt made as awarded', async () => {
+      achievementsService.awardAchievement.mockResolvedValue(
+        outcome('already-held', 'message-1')
+      )
+
+      const result = (await processor.process(
+        createJob('1', { awarded: { 'mint-image': 'message-1' } })
+      )) as RewardJobResult
+
+      expect(result.awards).toEqual([
+        expect.objectContaining({ status: 'awarded', messageId: 'message-1' })
+      ])
+      expect(awardPublisher.publish).toHaveBeenCalledWith(
+        expect.anything(),
+        result.awards
+      )
+    })
+
+    it('should keep achievements held before the job already held', async () => {
+      achievementsService.awardAchievement.mockResolvedValue(
+        outcome('already-held')
+      )
+
+      const result = (await processor.process(
+        createJob('1')
+      )) as RewardJobResult
+
+      expect(result.awards).toEqual([
+        expect.objectContaining({ status: 'already-held' })
+      ])
+    })
+  })
+
+  describe('batching', () => {
+    it('should batch the awards of jobs processed concurrently', async () => {
+      const postMessage = jest.fn().mockResolvedValue('batch-message-id')
+      const batcher = new AwardBatcher({
+        windowMs: 10,
+        maxSize: 50,
+        postMessage,
+        fetchResult: jest.fn().mockResolvedValue({
+          Messages: [
+            {
+              Tags: [{ name: 'Action', value: BATCH_AWARD_RESULT_ACTION }],
+              Data: JSON.stringify(
+                [ALICE, BOB].map((wallet) => ({
+                  cheese_mint_id: 'mint-image',
+                  award_to_address: wallet,
+                  status: 'awarded'
+                }))
+              )
+            }
+          ]
+        })
+      })
+      achievementsService.awardAchievement.mockImplementation(
+        async (achievement: string, walletAddress: string) => ({
+          achievement,
+          achievementId: 'mint-image',
+          ...(await batcher.submit({
+            walletAddress,
+            achievementId: 'mint-image'
+          }))
+        })
+      )
+
+      const results = (await Promise.all([
+        processor.process(createJob('1', { walletAddress: ALICE })),
+        processor.process(createJob('2', { walletAddress: BOB }))
+      ])) as RewardJobResult[]
+
+      expect(postMessage).toHaveBeenCalledTimes(1)
+      expect(results.map(({ awards }) => awards[0])).toEqual([
+        expect.objectContaining({
+          status: 'awarded',
+          messageId: 'batch-message-id'
+        }),
+        expect.objectContaining({
+          status: 'awarded',
+          messageId: 'batch-message-id'
+        })
+      ])
+    })
+
+    it('should process REWARDS_WORKER_CONCURRENCY jobs at once', async () => {
+      config.REWARDS_WORKER_CONCURRENCY = '8'
+      const configured = await createProcessor()
+      const worker = { concurrency: 1 }
+      Object.assign(configured, { _worker: worker })
+
+      configured.onApplicationBootstrap()
+
+      expect(worker.concurrency).toBe(8)
+    })
+  })
+})
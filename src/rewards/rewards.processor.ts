@@ -1,42 +1,165 @@
-import { Logger } from '@nestjs/common'
+import {
+  Inject,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+  OnModuleInit
+} from '@nestjs/common'
 import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq'
-import { Job } from 'bullmq'
+import { ConfigService } from '@nestjs/config'
+import { DelayedError, Job, UnrecoverableError } from 'bullmq'
+import Redis from 'ioredis'
 import { WalletType, WalletValidator } from '../utils/wallet.validator'
 import {
-  ACHIEVEMENT_WUZZY_ARNS_SEARCHER,
-  ACHIEVEMENT_WUZZY_AUDIO_SEARCHER,
-  ACHIEVEMENT_WUZZY_IMAGE_SEARCHER,
-  ACHIEVEMENT_WUZZY_SEARCHER,
-  ACHIEVEMENT_WUZZY_VIDEO_SEARCHER,
-  AchievementsService
-} from '../achievements/achievements.service'
-import type { RewardEventType } from './dto/reward-event.dto'
-
-interface RewardEventData {
-  eventType: RewardEventType
-  walletAddress: string
-  metadata?: Record<string, any>
-}
+  WalletProof,
+  WalletProofVerificationResult,
+  WalletProofVerifier
+} from '../utils/wallet-proof.verifier'
+import { REDIS_CLIENT } from '../redis/redis.module'
+import { AO_CLIENT } from '../ao/ao.module'
+import { AoClient } from '../utils/ao-client'
+import { AchievementsService } from '../achievements/achievements.service'
+import type { AwardOutcome } from '../achievements/achievements.types'
+import { RulesService } from '../rules/rules.service'
+import { ProgressService } from '../progress/progress.service'
+import { DeadLetterService } from './dead-letter.service'
+import { WebhooksService } from '../webhooks/webhooks.service'
+import { AwardPublisher } from '../notifications/award-publisher.service'
+import { AuditService } from '../audit/audit.service'
+import { IdentityService } from '../identity/identity.service'
+import type { AuditEntryInput } from '../audit/audit.types'
+import {
+  awards as awardsMetric,
+  eventsFailed,
+  eventsProcessed
+} from '../metrics/metrics'
+import { AbuseService } from '../abuse/abuse.service'
+import { ReviewService } from './review.service'
+import type {
+  RewardEventData,
+  RewardJobResult,
+  RewardJobReviewResult
+} from './rewards.types'
+
+const PROOF_KEY_PREFIX = 'rewards:proofs'
 
 @Processor('rewards-events')
-export class RewardsProcessor extends WorkerHost {
+export class RewardsProcessor
+  extends WorkerHost
+  implements OnModuleInit, OnApplicationBootstrap, OnModuleDestroy
+{
   private readonly logger = new Logger(RewardsProcessor.name)
+  private readonly walletProofMaxAgeMs: number
+  private readonly concurrency: number
+  private unsubscribeFromCircuit?: () => void
+  private probeTimer?: NodeJS.Timeout
 
-  constructor(private readonly achievementsService: AchievementsService) {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly achievementsService: AchievementsService,
+    private readonly rulesService: RulesService,
+    private readonly progressService: ProgressService,
+    private readonly deadLetterService: DeadLetterService,
+    private readonly webhooksService: WebhooksService,
+    private readonly auditService: AuditService,
+    private readonly identityService: IdentityService,
+    private readonly abuseService: AbuseService,
+    private readonly reviewService: ReviewService,
+    private readonly awardPublisher: AwardPublisher,
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    @Inject(AO_CLIENT) private readonly aoClient: AoClient
+  ) {
     super()
+
+    // Default max proof age of 10 minutes, configurable via env
+    this.walletProofMaxAgeMs = parseInt(
+      this.configService.get<string>('WALLET_PROOF_MAX_AGE_MS', {
+        infer: true
+      }) ?? '600000'
+    )
+
+    // Jobs processed at once, awards of concurrent jobs can share a batch
+    this.concurrency = parseInt(
+      this.configService.get<string>('REWARDS_WORKER_CONCURRENCY', {
+        infer: true
+      }) ?? '1'
+    )
+  }
+
+  /**
+   * Pause the worker while the AO circuit is open instead of failing every
+   * job against a CU/MU that is down, and resume it once a probe gets through
+   */
+  onModuleInit() {
+    this.unsubscribeFromCircuit = this.aoClient.circuitBreaker.onStateChange(
+      (state) => {
+        if (state === 'open') {
+          this.logger.warn('AO circuit opened, pausing the rewards worker')
+          this.worker
+            .pause(true)
+            .catch((error: Error) =>
+              this.logger.error(
+                `Failed to pause the rewards worker: ${error.message}`
+              )
+            )
+          this.scheduleCircuitProbe()
+        } else {
+          this.logger.log('AO circuit closed, resuming the rewards worker')
+          clearTimeout(this.probeTimer)
+          this.probeTimer = undefined
+          this.worker.resume()
+        }
+      }
+    )
+  }
+
+  /**
+   * The worker is created during module init, configure it once it exists
+   */
+  onApplicationBootstrap() {
+    this.worker.concurrency = this.concurrency
+  }
+
+  onModuleDestroy() {
+    this.unsubscribeFromCircuit?.()
+    clearTimeout(this.probeTimer)
+  }
+
+  /**
+   * Refresh the process state once the circuit admits a trial call. Success
+   * closes the circuit, failure opens it again and schedules the next probe.
+   */
+  private scheduleCircuitProbe() {
+    if (this.probeTimer) {
+      return
+    }
+
+    this.probeTimer = setTimeout(() => {
+      this.probeTimer = undefined
+      this.achievementsService
+        .getProcessState(true)
+        .catch((error: Error) =>
+          this.logger.warn(`AO circuit probe failed: ${error.message}`)
+        )
+        .finally(() => {
+          if (this.aoClient.circuitBreaker.getState() !== 'closed') {
+            this.scheduleCircuitProbe()
+          }
+        })
+    }, this.aoClient.circuitBreaker.options.resetTimeoutMs)
   }
 
-  async process(job: Job<RewardEventData>): Promise<any> {
+  async process(job: Job<RewardEventData>, token?: string): Promise<any> {
     this.logger.debug(
       `Processing job ${job.id} - ${job.name}, attempt ${job.attemptsMade + 1}/${job.opts.attempts}`
     )
 
-    try {
-      // Validate wallet address for all job types
-      const validation = WalletValidator.validateAndNormalize(
-        job.data.walletAddress
-      )
+    // Validate wallet address for all job types
+    const validation = WalletValidator.validateAndNormalize(
+      job.data.walletAddress
+    )
 
+    try {
       if (!validation.valid) {
         throw new Error(`Wallet validation failed: ${validation.error}`)
       }
@@ -50,6 +173,12 @@ export class RewardsProcessor extends WorkerHost {
         throw new Error('Validation succeeded but missing normalized data')
       }
 
+      // Screen for abuse before the event counts towards any progress
+      const review = await this.screen(job, validation.normalized)
+      if (review) {
+        return review
+      }
+
       // Route to appropriate handler based on job name
       const result = await this.handleEvent(
         job,
@@ -58,168 +187,340 @@ export class RewardsProcessor extends WorkerHost {
       )
 
       this.logger.log(`Job ${job.id} completed successfully`)
+      eventsProcessed.inc({ job_name: job.name })
+      for (const { achievement, status } of result.awards) {
+        awardsMetric.inc({ achievement, status })
+      }
+      await this.audit(job, {
+        action: 'reward.processed',
+        wallet: validation.normalized,
+        details: { ...result }
+      })
       return result
     } catch (error) {
       const err = error as Error
+
+      // Failures while AO is down are most likely caused by it, retry once the
+      // circuit has had time to close without using up an attempt
+      if (
+        token &&
+        !(error instanceof UnrecoverableError) &&
+        this.aoClient.circuitBreaker.getState() !== 'closed'
+      ) {
+        this.logger.warn(
+          `Job ${job.id} failed while the AO circuit is open, delaying: ${err.message}`
+        )
+        await job.moveToDelayed(
+          Date.now() + this.aoClient.circuitBreaker.options.resetTimeoutMs,
+          token
+        )
+        throw new DelayedError()
+      }
+
       this.logger.error(
         `Job ${job.id} failed on attempt ${job.attemptsMade + 1}: ${err.message}`,
         err.stack
       )
+      eventsFailed.inc({
+        job_name: job.name,
+        retryable: String(!(error instanceof UnrecoverableError))
+      })
+      await this.audit(job, {
+        action: 'reward.failed',
+        wallet: validation.normalized,
+        reason: err.message,
+        details: {
+          attempt: job.attemptsMade + 1,
+          retryable: !(error instanceof UnrecoverableError),
+          validation
+        }
+      })
       throw error // Re-throw to trigger retry
     }
   }
 
   /**
-   * Route to the appropriate handler based on job name
+   * Record a reward decision in the audit log. Failures are logged only, the
+   * decision has already been made.
    */
-  private async handleEvent(
+  private async audit(
     job: Job<RewardEventData>,
-    normalizedWallet: string,
-    walletType: WalletType
-  ): Promise<Record<string, unknown>> {
-    switch (job.name) {
-      case 'arns-search':
-        return this.handleArnsSearch(job, normalizedWallet, walletType)
-      case 'image-search':
-        return this.handleImageSearch(job, normalizedWallet, walletType)
-      case 'audio-search':
-        return this.handleAudioSearch(job, normalizedWallet, walletType)
-      case 'video-search':
-        return this.handleVideoSearch(job, normalizedWallet, walletType)
-      default:
-        throw new Error(`Unknown job type: ${job.name}`)
+    entry: Omit<AuditEntryInput, 'actor' | 'jobId' | 'eventType'>
+  ) {
+    try {
+      await this.auditService.record({
+        ...entry,
+        actor: 'rewards-worker',
+        jobId: job.id as string,
+        eventType: job.name
+      })
+    } catch (error) {
+      const err = error as Error
+      this.logger.error(
+        `Failed to audit job ${job.id}: ${err.message}`,
+        err.stack
+      )
     }
   }
 
   /**
-   * Handle ARNS search reward event
+   * Run the anti-abuse checks unless an operator approved the event.
+   * Deny-listed events fail without retries, suspicious ones are held for
+   * review instead of rewarded.
    */
-  private async handleArnsSearch(
+  private async screen(
     job: Job<RewardEventData>,
-    normalizedWallet: string,
-    walletType: WalletType
-  ): Promise<Record<string, unknown>> {
-    this.logger.log(
-      `Processing ARNS search for wallet ${normalizedWallet} (${walletType})`
-    )
+    wallet: string
+  ): Promise<RewardJobReviewResult | null> {
+    if (job.data.reviewedBy) {
+      this.logger.debug(
+        `Job ${job.id} was approved by ${job.data.reviewedBy}, skipping abuse checks`
+      )
+      return null
+    }
 
-    await this.achievementsService.awardAchievement(
-      ACHIEVEMENT_WUZZY_SEARCHER,
-      normalizedWallet
-    )
-    await this.achievementsService.awardAchievement(
-      ACHIEVEMENT_WUZZY_ARNS_SEARCHER,
-      normalizedWallet
-    )
+    const ip: unknown = job.data.metadata?.ip
+    const { decision, signals } = await this.abuseService.assess({
+      jobId: this.eventId(job),
+      wallet,
+      ip: typeof ip === 'string' ? ip : undefined,
+      producer: job.data.producer?.id
+    })
+    const reasons = signals.map(({ reason }) => reason).join('; ')
+    if (decision === 'deny') {
+      throw new UnrecoverableError(`Event denied: ${reasons}`)
+    }
+    if (decision === 'allow') {
+      return null
+    }
 
-    return Promise.resolve({
-      success: true,
-      eventType: 'arns-search',
-      wallet: normalizedWallet,
-      walletType,
-      processedAt: new Date().toISOString(),
-      metadata: job.data.metadata
+    const reviewId = await this.reviewService.add(job, wallet, signals)
+    await this.audit(job, {
+      action: 'reward.review',
+      wallet,
+      reason: reasons,
+      details: { reviewId, signals }
     })
+
+    return {
+      success: false,
+      eventType: job.name,
+      wallet,
+      inReview: true,
+      reviewId,
+      signals
+    }
   }
 
   /**
-   * Handle image search reward event
+   * Award the achievements of every rule matching the job's event type
    */
-  private async handleImageSearch(
+  private async handleEvent(
     job: Job<RewardEventData>,
     normalizedWallet: string,
-    walletType: string
-  ): Promise<Record<string, unknown>> {
+    walletType: WalletType
+  ): Promise<RewardJobResult> {
+    if (!this.rulesService.hasEventType(job.name)) {
+      throw new Error(`Unknown job type: ${job.name}`)
+    }
+
     this.logger.log(
-      `Processing image search for wallet ${normalizedWallet} (${walletType})`
+      `Processing ${job.name} for wallet ${normalizedWallet} (${walletType})`
     )
 
-    await this.achievementsService.awardAchievement(
-      ACHIEVEMENT_WUZZY_SEARCHER,
-      normalizedWallet
+    // A missing, forged or reused proof only costs the event the rules that
+    // require one
+    const proof: WalletProofVerificationResult = job.data.proof
+      ? await this.verifyProof(
+          job,
+          job.data.proof,
+          normalizedWallet,
+          walletType
+        )
+      : { valid: false, error: 'No wallet proof submitted' }
+    const proofVerified = proof.valid
+
+    // Linked wallets earn progress and awards for their identity's primary
+    const wallet = await this.identityService.resolvePrimary(normalizedWallet)
+    let primaryType = walletType
+    if (wallet !== normalizedWallet) {
+      const primary = WalletValidator.validateAndNormalize(wallet)
+      if (!primary.valid || !primary.type) {
+        // A bad identity link fails every retry the same way
+        throw new UnrecoverableError(
+          `Primary wallet ${wallet} of ${normalizedWallet} is invalid: ${primary.error}`
+        )
+      }
+      primaryType = primary.type
+      this.logger.debug(`Wallet ${normalizedWallet} is linked to ${wallet}`)
+    }
+
+    // Count replayed and retried events in the period they occurred
+    const counters = await this.progressService.recordEvent(
+      this.eventId(job),
+      wallet,
+      job.name,
+      new Date(job.data.originalTimestamp ?? job.timestamp)
     )
-    await this.achievementsService.awardAchievement(
-      ACHIEVEMENT_WUZZY_IMAGE_SEARCHER,
-      normalizedWallet
+    const evaluations = this.rulesService.explain(
+      job.name,
+      job.data.metadata,
+      counters
     )
+    const rules = evaluations
+      .filter(
+        ({ matched, rule }) => matched && (proofVerified || !rule.requireProof)
+      )
+      .map(({ rule }) => rule)
 
-    return Promise.resolve({
-      success: true,
-      eventType: 'image-search',
-      wallet: normalizedWallet,
-      walletType,
+    const awards: AwardOutcome[] = []
+    for (const { rule, matched, reason } of evaluations) {
+      if (!matched || (rule.requireProof && !proofVerified)) {
+        awards.push({
+          achievement: rule.achievement,
+          achievementId:
+            this.achievementsService.getAchievementId(rule.achievement) ?? null,
+          status: 'skipped-by-rule',
+          rule: rule.id,
+          reason: matched ? `Wallet proof required: ${proof.error}` : reason
+        })
+        continue
+      }
+
+      let outcome: AwardOutcome
+      try {
+        outcome = await this.achievementsService.awardAchievement(
+          rule.achievement,
+          wallet
+        )
+      } catch (error) {
+        awardsMetric.inc({ achievement: rule.achievement, status: 'failed' })
+        throw error
+      }
+      awards.push({ ...(await this.trackAward(job, outcome)), rule: rule.id })
+    }
+
+    await this.awardPublisher.publish(
+      {
+        wallet,
+        walletType: primaryType,
+        eventType: job.name,
+        jobId: job.id as string,
+        producer: job.data.producer?.id ?? null,
+        metadata: job.data.metadata
+      },
+      awards
+    )
+
+    return {
+      // False when a matched rule names an achievement missing from the catalog
+      success: awards.every(({ status }) => status !== 'unknown-achievement'),
+      eventType: job.name,
+      wallet,
+      walletType: primaryType,
+      linkedFrom: wallet === normalizedWallet ? undefined : normalizedWallet,
+      rules: rules.map((rule) => rule.id),
+      awards,
+      counters,
+      proofVerified,
+      producer: job.data.producer ?? null,
       processedAt: new Date().toISOString(),
       metadata: job.data.metadata
-    })
+    }
   }
 
   /**
-   * Handle audio search reward event
+   * Remember awards in the job data, so an attempt after a later award failed
+   * reports them as awarded instead of already held and they still get
+   * published
    */
-  private async handleAudioSearch(
+  private async trackAward(
     job: Job<RewardEventData>,
-    normalizedWallet: string,
-    walletType: string
-  ): Promise<Record<string, unknown>> {
-    this.logger.log(
-      `Processing audio search for wallet ${normalizedWallet} (${walletType})`
-    )
+    outcome: AwardOutcome
+  ): Promise<AwardOutcome> {
+    const { achievementId, status } = outcome
+    const awarded = job.data.awarded ?? {}
 
-    await this.achievementsService.awardAchievement(
-      ACHIEVEMENT_WUZZY_SEARCHER,
-      normalizedWallet
-    )
-    await this.achievementsService.awardAchievement(
-      ACHIEVEMENT_WUZZY_AUDIO_SEARCHER,
-      normalizedWallet
-    )
-
-    return Promise.resolve({
-      success: true,
-      eventType: 'audio-search',
-      wallet: normalizedWallet,
-      walletType,
-      processedAt: new Date().toISOString(),
-      metadata: job.data.metadata
-    })
+    if (status === 'already-held' && achievementId! in awarded) {
+      return {
+        ...outcome,
+        status: 'awarded',
+        messageId: awarded[achievementId!] ?? undefined
+      }
+    }
+    if (status === 'awarded') {
+      await job.updateData({
+        ...job.data,
+        awarded: { ...awarded, [achievementId!]: outcome.messageId ?? null }
+      })
+    }
+    return outcome
   }
 
   /**
-   * Handle video search reward event
+   * Verify a wallet ownership proof and claim its nonce, so a signed
+   * challenge is accepted for a single event. The challenge age is measured
+   * from when the event was first enqueued so retries and replays of a valid
+   * proof don't expire.
    */
-  private async handleVideoSearch(
+  private async verifyProof(
     job: Job<RewardEventData>,
+    proof: WalletProof,
     normalizedWallet: string,
-    walletType: string
-  ): Promise<Record<string, unknown>> {
-    this.logger.log(
-      `Processing video search for wallet ${normalizedWallet} (${walletType})`
+    walletType: WalletType
+  ): Promise<WalletProofVerificationResult> {
+    const verification = WalletProofVerifier.verify(
+      normalizedWallet,
+      walletType,
+      proof,
+      {
+        maxAgeMs: this.walletProofMaxAgeMs,
+        now: job.data.originalTimestamp ?? job.timestamp
+      }
     )
+    if (!verification.valid) {
+      this.logger.warn(
+        `Wallet proof verification failed for job ${job.id}: ${verification.error}`
+      )
+      return verification
+    }
 
-    await this.achievementsService.awardAchievement(
-      ACHIEVEMENT_WUZZY_SEARCHER,
-      normalizedWallet
-    )
-    await this.achievementsService.awardAchievement(
-      ACHIEVEMENT_WUZZY_VIDEO_SEARCHER,
-      normalizedWallet
-    )
+    // Claims outlive the max proof age, after which the challenge expires
+    const key = `${PROOF_KEY_PREFIX}:${normalizedWallet}:${WalletProofVerifier.getNonce(proof.message)}`
+    const jobId = this.eventId(job)
+    const claimed =
+      (await this.redis.set(
+        key,
+        jobId,
+        'PX',
+        this.walletProofMaxAgeMs * 2,
+        'NX'
+      )) || (await this.redis.get(key)) === jobId
+    if (!claimed) {
+      this.logger.warn(`Wallet proof of job ${job.id} was already used`)
+      return { valid: false, error: 'Proof has already been used' }
+    }
 
-    return Promise.resolve({
-      success: true,
-      eventType: 'video-search',
-      wallet: normalizedWallet,
-      walletType,
-      processedAt: new Date().toISOString(),
-      metadata: job.data.metadata
-    })
+    this.logger.debug(`Wallet proof verified for ${normalizedWallet}`)
+    return verification
+  }
+
+  /**
+   * ID of the job the event was first submitted as, the same for retries,
+   * DLQ replays and approvals after review
+   */
+  private eventId(job: Job<RewardEventData>): string {
+    return job.data.originalJobId ?? (job.id as string)
   }
 
   /**
    * Handle job completion event
    */
   @OnWorkerEvent('completed')
-  onCompleted(job: Job<RewardEventData>, result: Record<string, unknown>) {
+  onCompleted(
+    job: Job<RewardEventData>,
+    result: RewardJobResult | RewardJobReviewResult
+  ) {
     this.logger.debug(
       `Job ${job.id} (${job.name}) completed. Result: ${JSON.stringify(result)}`
     )
@@ -229,14 +530,28 @@ export class RewardsProcessor extends WorkerHost {
    * Handle job failure event
    */
   @OnWorkerEvent('failed')
-  onFailed(job: Job<RewardEventData>, error: Error) {
+  async onFailed(job: Job<RewardEventData>, error: Error) {
     const maxAttempts = job.opts?.attempts || 1
-    if (job.attemptsMade >= maxAttempts) {
+    if (error instanceof UnrecoverableError) {
+      this.logger.error(
+        `Job ${job.id} (${job.name}) failed permanently: ${error.message}`
+      )
+      await this.publishFailure(job, error)
+    } else if (job.attemptsMade >= maxAttempts) {
       this.logger.error(
         `Job ${job.id} (${job.name}) exhausted all ${maxAttempts} retry attempts. Final error: ${error.message}`,
         error.stack
       )
-      // TODO: Send to dead letter queue or alert system
+      try {
+        await this.deadLetterService.add(job, error)
+      } catch (dlqError) {
+        const err = dlqError as Error
+        this.logger.error(
+          `Failed to move job ${job.id} to dead letter queue: ${err.message}`,
+          err.stack
+        )
+      }
+      await this.publishFailure(job, error)
     } else {
       this.logger.warn(
         `Job ${job.id} (${job.name}) failed, will retry. Attempt ${job.attemptsMade}/${maxAttempts}`
@@ -244,6 +559,34 @@ export class RewardsProcessor extends WorkerHost {
     }
   }
 
+  /**
+   * Notify webhook subscribers that an event will not be rewarded
+   */
+  private async publishFailure(job: Job<RewardEventData>, error: Error) {
+    const validation = WalletValidator.validateAndNormalize(
+      job.data.walletAddress
+    )
+
+    try {
+      await this.webhooksService.publish('reward.failed', {
+        wallet: validation.normalized ?? job.data.walletAddress,
+        walletType: validation.type ?? null,
+        eventType: job.name,
+        jobId: job.id as string,
+        error: error.message,
+        attemptsMade: job.attemptsMade,
+        producer: job.data.producer?.id ?? null,
+        metadata: job.data.metadata
+      })
+    } catch (publishError) {
+      const err = publishError as Error
+      this.logger.error(
+        `Failed to publish reward.failed for job ${job.id}: ${err.message}`,
+        err.stack
+      )
+    }
+  }
+
   /**
    * Handle active job event
    */
@@ -0,0 +1,92 @@
+import type { RewardEventType } from './dto/reward-event.dto'
+import type { ProducerIdentity } from '../auth/producer.types'
+import type { WalletProof } from '../utils/wallet-proof.verifier'
+import type { WalletType } from '../utils/wallet.validator'
+import type { AwardOutcome } from '../achievements/achievements.types'
+import type { RuleCounters } from '../rules/rules.types'
+import type { AbuseSignal } from '../abuse/abuse.types'
+
+export interface RewardEventData {
+  eventType: RewardEventType
+  walletAddress: string
+  // ENS/ArNS name walletAddress was resolved from
+  walletName?: string
+  metadata?: Record<string, any>
+  // Signed challenge proving ownership of walletAddress
+  proof?: WalletProof
+  // Set by the ingestion API; absent for jobs enqueued directly on Redis
+  producer?: ProducerIdentity
+  // Operator who approved the event after an abuse review, skips the checks
+  reviewedBy?: string
+  // Set when the event is replayed from the DLQ or approved after review:
+  // the job it was first submitted as and when that job was enqueued (ms)
+  originalJobId?: string
+  originalTimestamp?: number
+  // Message IDs of the awards earlier attempts made, by achievement ID, so
+  // retries still report them as awarded
+  awarded?: Record<string, string | null>
+}
+
+/**
+ * Return value of a completed rewards-events job
+ */
+export interface RewardJobResult {
+  success: boolean
+  eventType: string
+  // Primary address of the submitted wallet's identity
+  wallet: string
+  walletType: WalletType
+  // Submitted wallet, when it is linked to another primary address
+  linkedFrom?: string
+  // IDs of the rules the event matched
+  rules: string[]
+  // Outcome per rule of the event type, matched or skipped
+  awards: AwardOutcome[]
+  counters: RuleCounters
+  proofVerified: boolean
+  producer: ProducerIdentity | null
+  processedAt: string
+  metadata?: Record<string, any>
+}
+
+/**
+ * Return value of a rewards-events job held for review instead of rewarded
+ */
+export interface RewardJobReviewResult {
+  success: false
+  eventType: string
+  wallet: string
+  inReview: true
+  reviewId: string
+  signals: AbuseSignal[]
+}
+
+/**
+ * A rewards-events job held for review by the anti-abuse checks
+ */
+export interface ReviewData {
+  originalJobId: string
+  name: string
+  data: RewardEventData
+  // Normalized wallet the event was submitted for
+  walletAddress: string
+  signals: AbuseSignal[]
+  enqueuedAt: string
+  flaggedAt: string
+}
+
+/**
+ * A rewards-events job that exhausted its attempts
+ */
+export interface DeadLetterData {
+  originalJobId: string
+  name: string
+  data: RewardEventData
+  walletAddress: string
+  failedReason: string
+  attemptsMade: number
+  // Stack trace of each failed attempt, oldest first
+  attemptErrors: string[]
+  enqueuedAt: string
+  failedAt: string
+}
@@ -0,0 +1,40 @@
+import type { RewardRulesConfig } from './rules.types'
+
+export const ACHIEVEMENT_WUZZY_SEARCHER = 'Wuzzy Searcher'
+export const ACHIEVEMENT_WUZZY_VIDEO_SEARCHER = 'Wuzzy Video Searcher'
+export const ACHIEVEMENT_WUZZY_IMAGE_SEARCHER = 'Wuzzy Image Searcher'
+export const ACHIEVEMENT_WUZZY_ARNS_SEARCHER = 'Wuzzy ArNS Searcher'
+export const ACHIEVEMENT_WUZZY_AUDIO_SEARCHER = 'Wuzzy Audio Searcher'
+
+/**
+ * Rules used when neither REWARDS_RULES_PATH nor REWARDS_RULES is configured
+ */
+export const DEFAULT_REWARD_RULES: RewardRulesConfig = {
+  rules: [
+    {
+      id: 'wuzzy-searcher',
+      events: ['arns-search', 'image-search', 'audio-search', 'video-search'],
+      achievement: ACHIEVEMENT_WUZZY_SEARCHER
+    },
+    {
+      id: 'wuzzy-arns-searcher',
+      events: ['arns-search'],
+      achievement: ACHIEVEMENT_WUZZY_ARNS_SEARCHER
+    },
+    {
+      id: 'wuzzy-image-searcher',
+      events: ['image-search'],
+      achievement: ACHIEVEMENT_WUZZY_IMAGE_SEARCHER
+    },
+    {
+      id: 'wuzzy-audio-searcher',
+      events: ['audio-search'],
+      achievement: ACHIEVEMENT_WUZZY_AUDIO_SEARCHER
+    },
+    {
+      id: 'wuzzy-video-searcher',
+      events: ['video-search'],
+      achievement: ACHIEVEMENT_WUZZY_VIDEO_SEARCHER
+    }
+  ]
+}
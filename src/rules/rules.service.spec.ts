@@ -0,0 +1,134 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { RulesService } from './rules.service'
+
+describe('RulesService', () => {
+  const createService = async (env: Record<string, string> = {}) => {
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        RulesService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => env[key]) }
+        }
+      ]
+    }).compile()
+
+    return app.get<RulesService>(RulesService)
+  }
+
+  describe('default rules', () => {
+    it('should award the searcher and type-specific achievements', async () => {
+      const rulesService = await createService()
+
+      const rules = rulesService.evaluate('arns-search')
+      expect(rules.map((rule) => rule.achievement)).toEqual([
+        'Wuzzy Searcher',
+        'Wuzzy ArNS Searcher'
+      ])
+    })
+
+    it('should derive required achievements from the rules', async () => {
+      const rulesService = await createService()
+
+      expect(rulesService.getRequiredAchievements()).toHaveLength(5)
+      expect(rulesService.hasEventType('video-search')).toBe(true)
+      expect(rulesService.hasEventType('pdf-search')).toBe(false)
+    })
+  })
+
+  describe('configured rules', () => {
+    const REWARDS_RULES = JSON.stringify({
+      rules: [
+        {
+          id: 'pdf-searcher',
+          events: ['document-search'],
+          achievement: 'Wuzzy PDF Searcher',
+          conditions: [
+            { field: 'file.mimeType', op: 'equals', value: 'application/pdf' },
+            { field: 'resultCount', op: 'gte', value: 1 }
+          ]
+        }
+      ]
+    })
+
+    it('should match rules whose metadata conditions hold', async () => {
+      const rulesService = await createService({ REWARDS_RULES })
+
+      expect(
+        rulesService.evaluate('document-search', {
+          file: { mimeType: 'application/pdf' },
+          resultCount: 3
+        })
+      ).toHaveLength(1)
+      expect(
+        rulesService.evaluate('document-search', {
+          file: { mimeType: 'text/plain' },
+          resultCount: 3
+        })
+      ).toHaveLength(0)
+      expect(rulesService.evaluate('document-search')).toHaveLength(0)
+    })
+
+    it('should explain why rules were skipped', async () => {
+      const rulesService = await createService({ REWARDS_RULES })
+
+      expect(
+        rulesService.explain('document-search', {
+          file: { mimeType: 'text/plain' }
+        })
+      ).toEqual([
+        expect.objectContaining({
+          matched: false,
+          reason: 'Condition file.mimeType equals not met'
+        })
+      ])
+    })
+
+    it('should only match threshold rules once the counter is reached', async () => {
+      const rulesService = await createService({
+        REWARDS_RULES: JSON.stringify({
+          rules: [
+            {
+              id: 'ten-image-searches',
+              events: ['image-search'],
+              achievement: 'Wuzzy Image Enthusiast',
+              threshold: { counter: 'events:image-search', value: 10 }
+            }
+          ]
+        })
+      })
+
+      expect(
+        rulesService.evaluate('image-search', {}, { 'events:image-search': 9 })
+      ).toHaveLength(0)
+      expect(
+        rulesService.evaluate('image-search', {}, { 'events:image-search': 10 })
+      ).toHaveLength(1)
+      expect(
+        rulesService.explain(
+          'image-search',
+          {},
+          { 'events:image-search': 9 }
+        )[0].reason
+      ).toBe('Threshold events:image-search at 9/10')
+    })
+
+    it('should reject rules with unknown operators', async () => {
+      await expect(
+        createService({
+          REWARDS_RULES: JSON.stringify({
+            rules: [
+              {
+                id: 'bad',
+                events: ['image-search'],
+                achievement: 'Wuzzy Image Searcher',
+                conditions: [{ field: 'x', op: 'approximately', value: 1 }]
+              }
+            ]
+          })
+        })
+      ).rejects.toThrow('unknown condition operator')
+    })
+  })
+})
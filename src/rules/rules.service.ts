@@ -0,0 +1,287 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { readFileSync } from 'fs'
+import { extname } from 'path'
+import { parse as parseYaml } from 'yaml'
+import { DEFAULT_REWARD_RULES } from './default-rules'
+import {
+  RULE_CONDITION_OPERATORS,
+  RewardRule,
+  RewardRulesConfig,
+  RuleCondition,
+  RuleCounters,
+  RuleEvaluation
+} from './rules.types'
+
+@Injectable()
+export class RulesService {
+  private readonly logger = new Logger(RulesService.name)
+  private readonly rules: RewardRule[]
+  private readonly rulesByEventType: Map<string, RewardRule[]> = new Map()
+
+  constructor(private readonly configService: ConfigService) {
+    this.rules = RulesService.validateRules(this.loadRulesConfig())
+
+    for (const rule of this.rules) {
+      for (const eventType of rule.events) {
+        const rules = this.rulesByEventType.get(eventType) ?? []
+        rules.push(rule)
+        this.rulesByEventType.set(eventType, rules)
+      }
+    }
+
+    this.logger.log(
+      `✓ Loaded ${this.rules.length} reward rules for event types: ${this.getEventTypes().join(', ')}`
+    )
+  }
+
+  /**
+   * Load rules from REWARDS_RULES_PATH (JSON or YAML), REWARDS_RULES (inline
+   * JSON) or fall back to the built-in defaults
+   */
+  private loadRulesConfig(): unknown {
+    const rulesPath = this.configService.get<string>('REWARDS_RULES_PATH', {
+      infer: true
+    })
+    const inlineRules = this.configService.get<string>('REWARDS_RULES', {
+      infer: true
+    })
+
+    if (rulesPath) {
+      this.logger.log(`Loading reward rules from ${rulesPath}`)
+      const raw = readFileSync(rulesPath, 'utf-8')
+      const extension = extname(rulesPath).toLowerCase()
+
+      return extension === '.yaml' || extension === '.yml'
+        ? parseYaml(raw)
+        : JSON.parse(raw)
+    }
+
+    if (inlineRules) {
+      this.logger.log('Loading reward rules from REWARDS_RULES')
+      return JSON.parse(inlineRules)
+    }
+
+    this.logger.log('Using default reward rules')
+    return DEFAULT_REWARD_RULES
+  }
+
+  /**
+   * Validate the shape of a rules config, throwing on the first problem found
+   */
+  static validateRules(config: unknown): RewardRule[] {
+    const rules = (config as RewardRulesConfig)?.rules
+    if (!Array.isArray(rules) || rules.length === 0) {
+      throw new Error('Reward rules config must contain a non-empty "rules"')
+    }
+
+    const ids = new Set<string>()
+    for (const [index, rule] of rules.entries()) {
+      if (!rule || typeof rule.id !== 'string' || !rule.id) {
+        throw new Error(`Reward rule at index ${index} is missing an id`)
+      }
+      if (ids.has(rule.id)) {
+        throw new Error(`Duplicate reward rule id: ${rule.id}`)
+      }
+      ids.add(rule.id)
+
+      if (
+        !Array.isArray(rule.events) ||
+        rule.events.length === 0 ||
+        rule.events.some((e) => typeof e !== 'string' || !e)
+      ) {
+        throw new Error(`Reward rule ${rule.id} must list at least one event`)
+      }
+      if (typeof rule.achievement !== 'string' || !rule.achievement) {
+        throw new Error(`Reward rule ${rule.id} is missing an achievement`)
+      }
+
+      if (rule.conditions !== undefined) {
+        if (!Array.isArray(rule.conditions)) {
+          throw new Error(`Reward rule ${rule.id} conditions must be an array`)
+        }
+        for (const condition of rule.conditions) {
+          RulesService.validateCondition(rule.id, condition)
+        }
+      }
+
+      if (rule.threshold !== undefined) {
+        const { counter, value } = rule.threshold ?? {}
+        if (typeof counter !== 'string' || !counter) {
+          throw new Error(
+            `Reward rule ${rule.id} threshold is missing a counter`
+          )
+        }
+        if (!Number.isInteger(value) || value < 1) {
+          throw new Error(
+            `Reward rule ${rule.id} threshold value must be a positive integer`
+          )
+        }
+      }
+
+      if (
+        rule.requireProof !== undefined &&
+        typeof rule.requireProof !== 'boolean'
+      ) {
+        throw new Error(`Reward rule ${rule.id} requireProof must be a boolean`)
+      }
+    }
+
+    return rules
+  }
+
+  private static validateCondition(ruleId: string, condition: RuleCondition) {
+    if (!condition || typeof condition.field !== 'string' || !condition.field) {
+      throw new Error(`Reward rule ${ruleId} has a condition without a field`)
+    }
+    if (!RULE_CONDITION_OPERATORS.includes(condition.op)) {
+      throw new Error(
+        `Reward rule ${ruleId} has unknown condition operator: ${condition.op}`
+      )
+    }
+    if (
+      (condition.op === 'in' || condition.op === 'notIn') &&
+      !Array.isArray(condition.value)
+    ) {
+      throw new Error(
+        `Reward rule ${ruleId} condition "${condition.op}" requires an array value`
+      )
+    }
+    if (condition.op === 'matches') {
+      if (typeof condition.value !== 'string') {
+        throw new Error(
+          `Reward rule ${ruleId} condition "matches" requires a string value`
+        )
+      }
+      new RegExp(condition.value)
+    }
+  }
+
+  /**
+   * All rules, in declaration order
+   */
+  getRules(): RewardRule[] {
+    return this.rules
+  }
+
+  /**
+   * Event types that at least one rule listens to
+   */
+  getEventTypes(): string[] {
+    return Array.from(this.rulesByEventType.keys())
+  }
+
+  hasEventType(eventType: string): boolean {
+    return this.rulesByEventType.has(eventType)
+  }
+
+  /**
+   * Unique achievement names referenced by the loaded rules
+   */
+  getRequiredAchievements(): string[] {
+    return Array.from(new Set(this.rules.map((rule) => rule.achievement)))
+  }
+
+  /**
+   * Rules that unlock on a counter threshold
+   */
+  getThresholdRules(): RewardRule[] {
+    return this.rules.filter((rule) => rule.threshold)
+  }
+
+  /**
+   * Return the rules for an event type whose conditions all hold and whose
+   * threshold, if any, has been reached by the wallet's counters
+   */
+  evaluate(
+    eventType: string,
+    metadata?: Record<string, any>,
+    counters: RuleCounters = {}
+  ): RewardRule[] {
+    return this.explain(eventType, metadata, counters)
+      .filter(({ matched }) => matched)
+      .map(({ rule }) => rule)
+  }
+
+  /**
+   * Evaluate every rule for the event type, with the reason each unmatched
+   * rule was skipped
+   */
+  explain(
+    eventType: string,
+    metadata?: Record<string, any>,
+    counters: RuleCounters = {}
+  ): RuleEvaluation[] {
+    const rules = this.rulesByEventType.get(eventType) ?? []
+
+    return rules.map((rule) => {
+      const failedCondition = (rule.conditions ?? []).find(
+        (condition) =>
+          !RulesService.evaluateCondition(condition, metadata ?? {})
+      )
+      if (failedCondition) {
+        return {
+          rule,
+          matched: false,
+          reason: `Condition ${failedCondition.field} ${failedCondition.op} not met`
+        }
+      }
+
+      const current = rule.threshold
+        ? (counters[rule.threshold.counter] ?? 0)
+        : 0
+      if (rule.threshold && current < rule.threshold.value) {
+        return {
+          rule,
+          matched: false,
+          reason: `Threshold ${rule.threshold.counter} at ${current}/${rule.threshold.value}`
+        }
+      }
+
+      return { rule, matched: true }
+    })
+  }
+
+  private static evaluateCondition(
+    condition: RuleCondition,
+    metadata: Record<string, any>
+  ): boolean {
+    const actual = condition.field
+      .split('.')
+      .reduce<unknown>(
+        (value, key) =>
+          value !== null && typeof value === 'object'
+            ? (value as Record<string, unknown>)[key]
+            : undefined,
+        metadata
+      )
+
+    switch (condition.op) {
+      case 'equals':
+        return actual === condition.value
+      case 'notEquals':
+        return actual !== condition.value
+      case 'in':
+        return (condition.value as unknown[]).includes(actual)
+      case 'notIn':
+        return !(condition.value as unknown[]).includes(actual)
+      case 'exists':
+        return (actual !== undefined) === (condition.value ?? true)
+      case 'gt':
+        return typeof actual === 'number' && actual > Number(condition.value)
+      case 'gte':
+        return typeof actual === 'number' && actual >= Number(condition.value)
+      case 'lt':
+        return typeof actual === 'number' && actual < Number(condition.value)
+      case 'lte':
+        return typeof actual === 'number' && actual <= Number(condition.value)
+      case 'matches':
+        return (
+          typeof actual === 'string' &&
+          new RegExp(condition.value as string).test(actual)
+        )
+      default:
+        return false
+    }
+  }
+}
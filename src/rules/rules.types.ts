@@ -0,0 +1,79 @@
+export type RuleConditionOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'in'
+  | 'notIn'
+  | 'exists'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'matches'
+
+export const RULE_CONDITION_OPERATORS: RuleConditionOperator[] = [
+  'equals',
+  'notEquals',
+  'in',
+  'notIn',
+  'exists',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'matches'
+]
+
+/**
+ * Condition evaluated against the event metadata
+ * - field: dot-separated path into metadata, e.g. "file.mimeType"
+ * - op: comparison operator
+ * - value: operand for the comparison (boolean for "exists", array for
+ *   "in"/"notIn", regex source for "matches")
+ */
+export interface RuleCondition {
+  field: string
+  op: RuleConditionOperator
+  value?: unknown
+}
+
+/**
+ * Unlocks once a per-wallet counter reaches the given value
+ * - counter: "events" (all events), "events:<eventType>" or "days" (distinct
+ *   UTC days with at least one event)
+ */
+export interface RuleThreshold {
+  counter: string
+  value: number
+}
+
+/**
+ * Declares that events of the listed types award the named cheese mint
+ * when all conditions hold and the threshold, if any, has been reached
+ */
+export interface RewardRule {
+  id: string
+  events: string[]
+  achievement: string
+  conditions?: RuleCondition[]
+  threshold?: RuleThreshold
+  // Only award when the event carries a valid wallet ownership proof
+  requireProof?: boolean
+}
+
+/**
+ * Whether a rule matched an event and, if not, why
+ */
+export interface RuleEvaluation {
+  rule: RewardRule
+  matched: boolean
+  reason?: string
+}
+
+/**
+ * Per-wallet counter values keyed by counter name
+ */
+export type RuleCounters = Record<string, number>
+
+export interface RewardRulesConfig {
+  rules: RewardRule[]
+}
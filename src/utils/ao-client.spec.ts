@@ -0,0 +1,252 @@
+import {
+  AoCircuitBreaker,
+  AoClient,
+  AoRequestError,
+  backoffDelay,
+  classifyAoError,
+  failedBeforeSending
+} from './ao-client'
+
+describe('classifyAoError', () => {
+  it('should classify MU status errors', () => {
+    expect(classifyAoError(new Error('500: Internal Server Error'))).toBe(
+      'server'
+    )
+    expect(classifyAoError(new Error('429: Too Many Requests'))).toBe(
+      'rate-limited'
+    )
+    expect(classifyAoError(new Error('400: Invalid data item'))).toBe('fatal')
+  })
+
+  it('should treat CU error pages the client failed to parse as server errors', () => {
+    let error: unknown
+    try {
+      JSON.parse('<html>502 Bad Gateway</html>')
+    } catch (err) {
+      error = err
+    }
+
+    expect(classifyAoError(error)).toBe('server')
+  })
+
+  it('should classify dropped connections as network errors', () => {
+    const error = new TypeError('fetch failed', {
+      cause: Object.assign(new Error('read ECONNRESET'), {
+        code: 'ECONNRESET'
+      })
+    })
+
+    expect(classifyAoError(error)).toBe('network')
+    expect(
+      classifyAoError(new Error('Error while communicating with MU: {}'))
+    ).toBe('network')
+    expect(classifyAoError(new Error('Invalid process info format'))).toBe(
+      'fatal'
+    )
+  })
+})
+
+describe('failedBeforeSending', () => {
+  it('should recognize connection failures, also wrapped by the MU client', () => {
+    const refused = new TypeError('fetch failed', {
+      cause: Object.assign(new Error('connect ECONNREFUSED'), {
+        code: 'ECONNREFUSED'
+      })
+    })
+
+    expect(failedBeforeSending(refused)).toBe(true)
+    expect(
+      failedBeforeSending(
+        new Error('Error while communicating with MU: {"code":"ECONNREFUSED"}')
+      )
+    ).toBe(true)
+    expect(
+      failedBeforeSending(new AoRequestError('open', 'message', 'circuit-open'))
+    ).toBe(true)
+  })
+
+  it('should not assume failures after connecting happened before sending', () => {
+    expect(failedBeforeSending(new Error('503: Service Unavailable'))).toBe(
+      false
+    )
+    expect(
+      failedBeforeSending(new Error('Error while communicating with MU: {}'))
+    ).toBe(false)
+  })
+})
+
+describe('backoffDelay', () => {
+  it('should double the delay per attempt with up to half of it jittered', () => {
+    expect(backoffDelay(1, 1000, 15000, () => 0)).toBe(500)
+    expect(backoffDelay(3, 1000, 15000, () => 1)).toBe(4000)
+    expect(backoffDelay(10, 1000, 15000, () => 1)).toBe(15000)
+  })
+})
+
+describe('AoCircuitBreaker', () => {
+  let now: number
+  let breaker: AoCircuitBreaker
+  const states: string[] = []
+
+  beforeEach(() => {
+    now = 0
+    states.length = 0
+    breaker = new AoCircuitBreaker({
+      failureThreshold: 2,
+      resetTimeoutMs: 1000,
+      now: () => now
+    })
+    breaker.onStateChange((state) => states.push(state))
+  })
+
+  it('should open after consecutive failures and fail fast until the reset timeout', () => {
+    breaker.recordFailure()
+    breaker.recordSuccess()
+    breaker.recordFailure()
+    expect(breaker.getState()).toBe('closed')
+
+    breaker.recordFailure()
+
+    expect(breaker.getState()).toBe('open')
+    expect(breaker.tryAcquire()).toBe(false)
+    expect(states).toEqual(['open'])
+  })
+
+  it('should admit a single trial call once half-open', () => {
+    breaker.recordFailure()
+    breaker.recordFailure()
+    now = 1000
+
+    expect(breaker.getState()).toBe('half-open')
+    expect(breaker.tryAcquire()).toBe(true)
+    expect(breaker.tryAcquire()).toBe(false)
+
+    breaker.recordSuccess()
+
+    expect(breaker.getState()).toBe('closed')
+    expect(states).toEqual(['open', 'closed'])
+  })
+
+  it('should open again when the trial call fails', () => {
+    breaker.recordFailure()
+    breaker.recordFailure()
+    now = 1000
+    breaker.tryAcquire()
+
+    breaker.recordFailure()
+
+    expect(breaker.getState()).toBe('open')
+    expect(states).toEqual(['open', 'open'])
+  })
+})
+
+describe('AoClient', () => {
+  let client: AoClient
+
+  beforeEach(() => {
+    client = new AoClient({
+      cuUrls: ['http://cu-1.test', 'http://cu-2.test'],
+      muUrls: ['http://mu.test'],
+      attempts: 3,
+      requestTimeoutMs: 50,
+      retryBaseDelayMs: 1,
+      retryMaxDelayMs: 1,
+      circuitFailureThreshold: 5,
+      circuitResetMs: 1000,
+      probeIntervalMs: 1000,
+      probeTimeoutMs: 50,
+      failbackProbes: 2,
+      slowProbeMs: 1000
+    })
+  })
+
+  it('should retry retryable errors', async () => {
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('503: Service Unavailable'))
+      .mockResolvedValueOnce({ Messages: [] })
+
+    await expect(client.call('result', 'fetching', fn)).resolves.toEqual({
+      Messages: []
+    })
+    expect(fn).toHaveBeenCalledTimes(2)
+  })
+
+  it('should only retry messages that failed before being sent', async () => {
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(
+        new Error('Error while communicating with MU: {"code":"ECONNREFUSED"}')
+      )
+      .mockResolvedValueOnce('message-id')
+
+    await expect(client.call('message', 'posting', fn)).resolves.toBe(
+      'message-id'
+    )
+    expect(fn).toHaveBeenCalledTimes(2)
+
+    fn.mockReset().mockRejectedValue(new Error('503: Service Unavailable'))
+    await expect(client.call('message', 'posting', fn)).rejects.toMatchObject({
+      kind: 'delivery-unknown',
+      retryable: false
+    })
+    expect(fn).toHaveBeenCalledTimes(1)
+  })
+
+  it('should fail over to the next CU and stick to it', async () => {
+    const fn = jest.fn((endpoint: string) =>
+      endpoint === 'http://cu-1.test'
+        ? Promise.reject(new Error('fetch failed'))
+        : Promise.resolve(endpoint)
+    )
+
+    await expect(client.call('dry-run', 'reading', fn)).resolves.toBe(
+      'http://cu-2.test'
+    )
+    await client.call('result', 'fetching', fn)
+
+    expect(fn.mock.calls.map(([endpoint]) => endpoint)).toEqual([
+      'http://cu-1.test',
+      'http://cu-2.test',
+      'http://cu-2.test'
+    ])
+    expect(client.cu.endpoints[0]).toMatchObject({
+      healthy: false,
+      lastError: 'fetch failed'
+    })
+  })
+
+  it('should not retry fatal errors', async () => {
+    const error = new Error('400: Invalid data item')
+    const fn = jest.fn().mockRejectedValue(error)
+
+    await expect(client.call('message', 'posting', fn)).rejects.toBe(error)
+    expect(fn).toHaveBeenCalledTimes(1)
+  })
+
+  it('should time out calls and give up after the last attempt', async () => {
+    const fn = jest.fn(() => new Promise(() => {}))
+
+    const error = (await client
+      .call('result', 'fetching', fn)
+      .catch((err: unknown) => err)) as AoRequestError
+
+    expect(error).toBeInstanceOf(AoRequestError)
+    expect(error).toMatchObject({ kind: 'timeout', retryable: true })
+    expect(fn).toHaveBeenCalledTimes(3)
+  })
+
+  it('should stop retrying once the circuit opens', async () => {
+    const fn = jest.fn().mockRejectedValue(new Error('fetch failed'))
+
+    for (let i = 0; i < 2; i++) {
+      await client.call('dry-run', 'reading', fn).catch(() => undefined)
+    }
+
+    expect(fn).toHaveBeenCalledTimes(5)
+    await expect(client.call('dry-run', 'reading', fn)).rejects.toMatchObject({
+      kind: 'circuit-open'
+    })
+    expect(fn).toHaveBeenCalledTimes(5)
+  })
+})
@@ -0,0 +1,514 @@
+import { Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import {
+  aoCircuitOpen,
+  aoEndpointRequests,
+  aoRequestDuration,
+  aoRequestRetries
+} from '../metrics/metrics'
+import { AoEndpointPool, parseEndpointUrls } from './ao-endpoints'
+
+/**
+ * dry-run and result calls go to a CU, message calls to an MU
+ */
+export type AoOperation = 'dry-run' | 'result' | 'message'
+
+/**
+ * Why an AO call failed. Everything but fatal and delivery-unknown is worth
+ * retrying.
+ * - timeout: no answer within AO_REQUEST_TIMEOUT_MS
+ * - rate-limited: the CU/MU answered 429
+ * - server: the CU/MU answered 5xx, or an error page the CU client could not
+ *   parse as JSON
+ * - network: the connection was refused, reset or dropped
+ * - circuit-open: not attempted, the circuit breaker is open
+ * - delivery-unknown: a message failed after its request may have reached
+ *   the MU, sending it again could deliver it twice
+ * - fatal: the request itself was rejected, e.g. a 4xx from the MU
+ */
+export type AoErrorKind =
+  | 'timeout'
+  | 'rate-limited'
+  | 'server'
+  | 'network'
+  | 'circuit-open'
+  | 'delivery-unknown'
+  | 'fatal'
+
+export class AoRequestError extends Error {
+  constructor(
+    message: string,
+    readonly operation: AoOperation,
+    readonly kind: AoErrorKind,
+    options?: ErrorOptions
+  ) {
+    super(message, options)
+    this.name = AoRequestError.name
+  }
+
+  get retryable(): boolean {
+    return this.kind !== 'fatal' && this.kind !== 'delivery-unknown'
+  }
+}
+
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'EPIPE',
+  'ETIMEDOUT',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT'
+])
+
+export function classifyAoError(error: unknown): AoErrorKind {
+  if (error instanceof AoRequestError) {
+    return error.kind
+  }
+
+  const err = error as Error & { code?: string; cause?: { code?: string } }
+  const message = err?.message ?? ''
+
+  // The MU client throws "<status>: <body>" for non 2xx responses
+  const status = /^(\d{3}):/.exec(message)?.[1]
+  if (status === '429' || /too many requests/i.test(message)) {
+    return 'rate-limited'
+  }
+  if (status === '408') {
+    return 'timeout'
+  }
+  if (status) {
+    return status.startsWith('5') ? 'server' : 'fatal'
+  }
+
+  // The CU client parses every response as JSON regardless of its status, so
+  // a failing CU surfaces as a SyntaxError on its error page
+  if (err instanceof SyntaxError || err?.name === 'SyntaxError') {
+    return 'server'
+  }
+
+  // The MU client wraps fetch failures, losing their code
+  const code = err?.code ?? err?.cause?.code
+  if (
+    (code && NETWORK_ERROR_CODES.has(code)) ||
+    /fetch failed|socket hang up|other side closed|while communicating with MU/i.test(
+      message
+    )
+  ) {
+    return 'network'
+  }
+  if (err?.name === 'TimeoutError' || err?.name === 'AbortError') {
+    return 'timeout'
+  }
+
+  return 'fatal'
+}
+
+// Failures to resolve or connect to the CU/MU, the request never went out
+const CONNECT_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT'
+])
+
+/**
+ * Whether an AO call failed before its request was sent, so a message
+ * cannot have reached the MU. The MU client only keeps the error code in
+ * its message, as JSON.
+ */
+export function failedBeforeSending(error: unknown): boolean {
+  if (error instanceof AoRequestError && error.kind === 'circuit-open') {
+    return true
+  }
+
+  let err = error as (Error & { code?: string; cause?: unknown }) | undefined
+  for (let depth = 0; err && depth < 5; depth++) {
+    const code = err.code ?? /"code":"([A-Z_]+)"/.exec(err.message ?? '')?.[1]
+    if (code && CONNECT_ERROR_CODES.has(code)) {
+      return true
+    }
+    err = err.cause as typeof err
+  }
+
+  return false
+}
+
+/**
+ * Whether an AO message certainly did not reach the process: it failed before
+ * being sent or the MU refused it with a 4xx
+ */
+export function messageNotSent(error: unknown): boolean {
+  return failedBeforeSending(error) || classifyAoError(error) === 'fatal'
+}
+
+export type AoCircuitState = 'closed' | 'open' | 'half-open'
+
+export type AoCircuitBreakerOptions = {
+  // Consecutive retryable failures that open the circuit
+  failureThreshold: number
+  // How long the circuit stays open before admitting a trial call
+  resetTimeoutMs: number
+  now?: () => number
+}
+
+/**
+ * Stops calling the CU/MU after failureThreshold consecutive retryable
+ * failures. Once open, calls fail fast until resetTimeoutMs has passed, then a
+ * single trial call decides whether the circuit closes or opens again.
+ */
+export class AoCircuitBreaker {
+  private state: AoCircuitState = 'closed'
+  private failures = 0
+  private openedAt = 0
+  private trialInFlight = false
+  private readonly listeners = new Set<
+    (state: Exclude<AoCircuitState, 'half-open'>) => void
+  >()
+  private readonly now: () => number
+
+  constructor(readonly options: AoCircuitBreakerOptions) {
+    this.now = options.now ?? Date.now
+  }
+
+  getState(): AoCircuitState {
+    if (
+      this.state === 'open' &&
+      this.now() - this.openedAt >= this.options.resetTimeoutMs
+    ) {
+      return 'half-open'
+    }
+
+    return this.state
+  }
+
+  /**
+   * Whether a call may go out now. Admits every call while closed and one
+   * trial call at a time while half-open.
+   */
+  tryAcquire(): boolean {
+    const state = this.getState()
+    if (state === 'closed') {
+      return true
+    }
+    if (state === 'open' || this.trialInFlight) {
+      return false
+    }
+
+    this.state = 'half-open'
+    this.trialInFlight = true
+    return true
+  }
+
+  recordSuccess(): void {
+    this.failures = 0
+    if (this.state !== 'closed') {
+      this.state = 'closed'
+      this.trialInFlight = false
+      this.emit('closed')
+    }
+  }
+
+  recordFailure(): void {
+    if (this.state === 'open') {
+      // Calls admitted before the circuit opened
+      return
+    }
+
+    this.failures++
+    if (
+      this.state === 'half-open' ||
+      this.failures >= this.options.failureThreshold
+    ) {
+      this.state = 'open'
+      this.openedAt = this.now()
+      this.trialInFlight = false
+      this.emit('open')
+    }
+  }
+
+  /**
+   * Listen for the circuit opening and closing, returns an unsubscribe
+   * function
+   */
+  onStateChange(
+    listener: (state: Exclude<AoCircuitState, 'half-open'>) => void
+  ): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private emit(state: Exclude<AoCircuitState, 'half-open'>) {
+    for (const listener of this.listeners) {
+      listener(state)
+    }
+  }
+}
+
+export type AoClientConfig = {
+  // Prioritized endpoint URLs, the first is preferred
+  cuUrls: string[]
+  muUrls: string[]
+  attempts: number
+  requestTimeoutMs: number
+  retryBaseDelayMs: number
+  retryMaxDelayMs: number
+  circuitFailureThreshold: number
+  circuitResetMs: number
+  probeIntervalMs: number
+  probeTimeoutMs: number
+  failbackProbes: number
+  slowProbeMs: number
+  // Passed on to aoconnect, which has its own defaults
+  gatewayUrl?: string
+  graphqlUrl?: string
+}
+
+/**
+ * Read the AO client settings. CU_URLS and MU_URLS take a prioritized, comma
+ * separated list and fall back to CU_URL and MU_URL.
+ */
+export function readAoClientConfig(
+  configService: ConfigService
+): AoClientConfig {
+  const get = (key: string) => configService.get<string>(key, { infer: true })
+
+  return {
+    cuUrls: parseEndpointUrls(
+      get('CU_URLS') || get('CU_URL') || 'https://cu.ao-testnet.xyz'
+    ),
+    muUrls: parseEndpointUrls(
+      get('MU_URLS') || get('MU_URL') || 'https://mu.ao-testnet.xyz'
+    ),
+    attempts: parseInt(get('AO_RETRY_ATTEMPTS') ?? '3'),
+    requestTimeoutMs: parseInt(get('AO_REQUEST_TIMEOUT_MS') ?? '30000'),
+    retryBaseDelayMs: parseInt(get('AO_RETRY_BASE_DELAY_MS') ?? '1000'),
+    retryMaxDelayMs: parseInt(get('AO_RETRY_MAX_DELAY_MS') ?? '15000'),
+    circuitFailureThreshold: parseInt(
+      get('AO_CIRCUIT_FAILURE_THRESHOLD') ?? '5'
+    ),
+    circuitResetMs: parseInt(get('AO_CIRCUIT_RESET_MS') ?? '30000'),
+    probeIntervalMs: parseInt(get('AO_ENDPOINT_PROBE_INTERVAL_MS') ?? '30000'),
+    probeTimeoutMs: parseInt(get('AO_ENDPOINT_PROBE_TIMEOUT_MS') ?? '5000'),
+    failbackProbes: parseInt(get('AO_ENDPOINT_FAILBACK_PROBES') ?? '3'),
+    slowProbeMs: parseInt(get('AO_ENDPOINT_SLOW_PROBE_MS') ?? '2000'),
+    gatewayUrl: get('GATEWAY_URL'),
+    graphqlUrl: get('GRAPHQL_URL')
+  }
+}
+
+/**
+ * Exponential backoff with equal jitter, so callers that failed together
+ * don't retry together
+ */
+export function backoffDelay(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  random: () => number = Math.random
+): number {
+  const capped = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1))
+  return Math.round(capped / 2 + (random() * capped) / 2)
+}
+
+/**
+ * Calls the CU/MU with per-call timeouts, jittered retries of retryable
+ * errors, failover between endpoints and a circuit breaker shared by every
+ * call
+ */
+export class AoClient {
+  readonly circuitBreaker: AoCircuitBreaker
+  readonly cu: AoEndpointPool
+  readonly mu: AoEndpointPool
+  private readonly logger = new Logger(AoClient.name)
+
+  constructor(readonly config: AoClientConfig) {
+    this.circuitBreaker = new AoCircuitBreaker({
+      failureThreshold: config.circuitFailureThreshold,
+      resetTimeoutMs: config.circuitResetMs
+    })
+    this.circuitBreaker.onStateChange((state) =>
+      aoCircuitOpen.set(state === 'open' ? 1 : 0)
+    )
+
+    const poolOptions = {
+      failbackProbes: config.failbackProbes,
+      probeTimeoutMs: config.probeTimeoutMs,
+      slowProbeMs: config.slowProbeMs
+    }
+    this.cu = new AoEndpointPool('cu', config.cuUrls, poolOptions)
+    this.mu = new AoEndpointPool('mu', config.muUrls, poolOptions)
+  }
+
+  /**
+   * Run an AO call against the selected endpoint, timed in
+   * rewards_ao_request_duration_seconds with retries included. Messages are
+   * only retried when they failed before being sent.
+   * @throws AoRequestError once a retryable error exhausts its attempts, while
+   * the circuit is open or as delivery-unknown when a message may have been
+   * sent. Fatal errors are rethrown as they are.
+   */
+  async call<T>(
+    operation: AoOperation,
+    description: string,
+    fn: (endpoint: string) => Promise<T>,
+    attempts = this.config.attempts
+  ): Promise<T> {
+    const end = aoRequestDuration.startTimer({ operation })
+    try {
+      const result = await this.attempt(operation, description, fn, attempts)
+      end({ outcome: 'success' })
+      return result
+    } catch (error) {
+      end({ outcome: 'error' })
+      throw error
+    }
+  }
+
+  private async attempt<T>(
+    operation: AoOperation,
+    description: string,
+    fn: (endpoint: string) => Promise<T>,
+    attempts: number
+  ): Promise<T> {
+    const pool = operation === 'message' ? this.mu : this.cu
+
+    for (let attempt = 1; ; attempt++) {
+      if (!this.circuitBreaker.tryAcquire()) {
+        throw new AoRequestError(
+          `AO circuit is open, not ${description}`,
+          operation,
+          'circuit-open'
+        )
+      }
+
+      const endpoint = pool.select()
+      const startedAt = Date.now()
+      try {
+        const result = await this.withTimeout(
+          operation,
+          `${description} via ${endpoint.url}`,
+          fn(endpoint.url)
+        )
+        pool.recordSuccess(endpoint, Date.now() - startedAt)
+        this.circuitBreaker.recordSuccess()
+        aoEndpointRequests.inc({
+          operation,
+          endpoint: endpoint.url,
+          outcome: 'success'
+        })
+        this.logger.debug(`Done ${description} via ${endpoint.url}`)
+        return result
+      } catch (error) {
+        const err = error as Error
+        const kind = classifyAoError(err)
+        aoEndpointRequests.inc({
+          operation,
+          endpoint: endpoint.url,
+          outcome: 'error'
+        })
+        if (kind === 'fatal') {
+          // The CU/MU answered, it is up
+          pool.recordSuccess(endpoint, Date.now() - startedAt)
+          this.circuitBreaker.recordSuccess()
+          throw err
+        }
+
+        pool.recordFailure(endpoint, err.message)
+        this.circuitBreaker.recordFailure()
+        this.logger.warn(
+          `Error ${description} via ${endpoint.url} (${kind}, attempt ${attempt}/${attempts}): ${err.message}`
+        )
+        if (operation === 'message' && !failedBeforeSending(err)) {
+          throw new AoRequestError(
+            `Delivery unknown ${description} via ${endpoint.url}: ${err.message}`,
+            operation,
+            'delivery-unknown',
+            { cause: err }
+          )
+        }
+        if (
+          attempt >= attempts ||
+          this.circuitBreaker.getState() !== 'closed'
+        ) {
+          throw new AoRequestError(
+            `Failed ${description} after ${attempt} attempt(s), last via ${endpoint.url}: ${err.message}`,
+            operation,
+            kind,
+            { cause: err }
+          )
+        }
+
+        aoRequestRetries.inc({ operation, reason: kind })
+        // Fail over right away, back off before trying the same endpoint again
+        if (pool.select() === endpoint) {
+          await new Promise((resolve) =>
+            setTimeout(
+              resolve,
+              backoffDelay(
+                attempt,
+                this.config.retryBaseDelayMs,
+                this.config.retryMaxDelayMs
+              )
+            )
+          )
+        }
+      }
+    }
+  }
+
+  /**
+   * Probe every CU and MU endpoint every probeIntervalMs, returns a function
+   * that stops probing
+   */
+  startProbing(): () => void {
+    const probe = () => {
+      Promise.all([this.cu.probe(), this.mu.probe()]).catch((error: Error) =>
+        this.logger.error(`AO endpoint probe failed: ${error.message}`)
+      )
+    }
+    const timer = setInterval(probe, this.config.probeIntervalMs)
+    timer.unref()
+    probe()
+
+    return () => clearInterval(timer)
+  }
+
+  /**
+   * aoconnect takes no abort signal, so a timed out request is abandoned
+   * rather than cancelled
+   */
+  private async withTimeout<T>(
+    operation: AoOperation,
+    description: string,
+    promise: Promise<T>
+  ): Promise<T> {
+    let timer: NodeJS.Timeout | undefined
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(
+            new AoRequestError(
+              `Timed out after ${this.config.requestTimeoutMs}ms ${description}`,
+              operation,
+              'timeout'
+            )
+          ),
+        this.config.requestTimeoutMs
+      )
+    })
+
+    try {
+      return await Promise.race([promise, timeout])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { AoEndpointPool, parseEndpointUrls } from './ao-endpoints'
+
+describe('AoEndpointPool', () => {
+  let pool: AoEndpointPool
+  let fetchMock: jest.SpyInstance
+  const down = new Set<string>()
+  const slow = new Set<string>()
+  let clock: number
+
+  beforeEach(() => {
+    down.clear()
+    slow.clear()
+    clock = 0
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation((url) => {
+      if (down.has(url as string)) {
+        return Promise.reject(new TypeError('fetch failed'))
+      }
+      if (slow.has(url as string)) {
+        clock += 3000
+      }
+      return Promise.resolve(new Response('ao messenger unit'))
+    })
+    pool = new AoEndpointPool(
+      'mu',
+      parseEndpointUrls('http://mu-1.test/, http://mu-2.test'),
+      {
+        failbackProbes: 2,
+        probeTimeoutMs: 50,
+        slowProbeMs: 2000,
+        now: () => clock
+      }
+    )
+  })
+
+  afterEach(() => {
+    fetchMock.mockRestore()
+  })
+
+  it('should prefer the first endpoint', () => {
+    expect(pool.select().url).toBe('http://mu-1.test')
+  })
+
+  it('should fail over when probing finds the current endpoint down', async () => {
+    down.add('http://mu-1.test')
+
+    await pool.probe()
+
+    expect(pool.select().url).toBe('http://mu-2.test')
+    expect(pool.endpoints[0]).toMatchObject({
+      healthy: false,
+      lastError: 'fetch failed'
+    })
+  })
+
+  it('should fail back only after enough successful probes', async () => {
+    pool.recordFailure(pool.select(), 'fetch failed')
+    expect(pool.select().url).toBe('http://mu-2.test')
+
+    await pool.probe()
+    expect(pool.select().url).toBe('http://mu-2.test')
+
+    await pool.probe()
+    expect(pool.select().url).toBe('http://mu-1.test')
+  })
+
+  it('should pass over a slow endpoint once a faster one has enough probes', async () => {
+    slow.add('http://mu-1.test')
+
+    await pool.probe()
+    expect(pool.select().url).toBe('http://mu-1.test')
+    expect(pool.endpoints[0].probeLatencyMs).toBe(3000)
+
+    await pool.probe()
+    expect(pool.select().url).toBe('http://mu-2.test')
+
+    slow.clear()
+    await pool.probe()
+    expect(pool.select().url).toBe('http://mu-1.test')
+  })
+
+  it('should keep the priority order when every endpoint is slow', async () => {
+    slow.add('http://mu-1.test')
+    slow.add('http://mu-2.test')
+
+    await pool.probe()
+    await pool.probe()
+
+    expect(pool.select().url).toBe('http://mu-1.test')
+  })
+
+  it('should keep using the current endpoint when none is healthy', () => {
+    for (const endpoint of pool.endpoints) {
+      pool.recordFailure(endpoint, 'fetch failed')
+    }
+
+    expect(pool.select().url).toBe('http://mu-1.test')
+  })
+})
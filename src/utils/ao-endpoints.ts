@@ -0,0 +1,209 @@
+import { Logger } from '@nestjs/common'
+import { aoEndpointUp } from '../metrics/metrics'
+
+export type AoEndpointKind = 'cu' | 'mu'
+
+export interface AoEndpoint {
+  url: string
+  // Position in the configured list, 0 is the most preferred
+  priority: number
+  healthy: boolean
+  // Latency of the last successful probe or call
+  latencyMs: number | null
+  // Latency of the last successful probe. Unlike call latencies, which
+  // include the work the CU/MU did, comparable between endpoints
+  probeLatencyMs: number | null
+  lastCheckedAt: number | null
+  lastError: string | null
+  // Consecutive successful probes, a recovered endpoint has to earn back its
+  // priority before traffic fails back to it
+  probeSuccesses: number
+}
+
+export type AoEndpointPoolOptions = {
+  // Successful probes before traffic fails back to a higher priority endpoint
+  failbackProbes: number
+  probeTimeoutMs: number
+  // Probe latency above which an endpoint is passed over for a faster one
+  slowProbeMs: number
+  now?: () => number
+}
+
+/**
+ * Parse a comma separated, prioritized list of endpoint URLs
+ */
+export function parseEndpointUrls(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((url) => url.trim().replace(/\/+$/, ''))
+    .filter((url) => url.length > 0)
+}
+
+/**
+ * A prioritized list of CU or MU endpoints. Calls stick to the current
+ * endpoint while it is healthy, fail over to the best healthy endpoint when it
+ * fails and switch once a better endpoint has passed failbackProbes
+ * consecutive probes. The best endpoint is the highest priority one whose last
+ * probe took at most slowProbeMs, or the highest priority one when all are
+ * slow.
+ */
+export class AoEndpointPool {
+  readonly endpoints: AoEndpoint[]
+  private current: AoEndpoint
+  private readonly logger: Logger
+  private readonly now: () => number
+
+  constructor(
+    readonly kind: AoEndpointKind,
+    urls: string[],
+    private readonly options: AoEndpointPoolOptions
+  ) {
+    if (urls.length === 0) {
+      throw new Error(`At least one ${kind.toUpperCase()} URL is required`)
+    }
+
+    this.logger = new Logger(`AoEndpointPool(${kind})`)
+    this.now = options.now ?? Date.now
+    this.endpoints = urls.map((url, priority) => ({
+      url,
+      priority,
+      healthy: true,
+      latencyMs: null,
+      probeLatencyMs: null,
+      lastCheckedAt: null,
+      lastError: null,
+      probeSuccesses: 0
+    }))
+    this.current = this.endpoints[0]
+    for (const { url } of this.endpoints) {
+      aoEndpointUp.set({ kind, endpoint: url }, 1)
+    }
+  }
+
+  /**
+   * The endpoint calls currently stick to
+   */
+  get active(): AoEndpoint {
+    return this.current
+  }
+
+  /**
+   * The endpoint the next call should go to. Falls back to the current
+   * endpoint when none is healthy.
+   */
+  select(): AoEndpoint {
+    if (!this.current.healthy) {
+      const next = this.best(this.endpoints)
+      if (next) {
+        this.switchTo(next, `${this.current.url} is unhealthy`)
+      }
+    }
+
+    return this.current
+  }
+
+  recordSuccess(endpoint: AoEndpoint, latencyMs: number): void {
+    endpoint.latencyMs = latencyMs
+    endpoint.lastCheckedAt = this.now()
+    this.markHealthy(endpoint)
+  }
+
+  /**
+   * Mark an endpoint unhealthy after a retryable failure so the next attempt
+   * fails over. Probing marks it healthy again.
+   */
+  recordFailure(endpoint: AoEndpoint, error: string): void {
+    endpoint.lastCheckedAt = this.now()
+    endpoint.lastError = error
+    endpoint.probeSuccesses = 0
+    if (endpoint.healthy) {
+      endpoint.healthy = false
+      aoEndpointUp.set({ kind: this.kind, endpoint: endpoint.url }, 0)
+      this.logger.warn(`${endpoint.url} marked unhealthy: ${error}`)
+    }
+  }
+
+  /**
+   * Probe every endpoint, then switch to the best endpoint among the current
+   * one and those that have passed enough consecutive probes
+   */
+  async probe(): Promise<void> {
+    await Promise.all(
+      this.endpoints.map((endpoint) => this.probeEndpoint(endpoint))
+    )
+
+    const preferred = this.best(
+      this.endpoints.filter(
+        (endpoint) =>
+          endpoint === this.current ||
+          endpoint.probeSuccesses >= this.options.failbackProbes
+      )
+    )
+    if (preferred && preferred !== this.current) {
+      this.switchTo(
+        preferred,
+        !this.current.healthy
+          ? `${this.current.url} is unhealthy`
+          : this.isSlow(this.current)
+            ? `${this.current.url} is slow (${this.current.probeLatencyMs} ms)`
+            : `${preferred.url} recovered`
+      )
+    } else if (!this.current.healthy) {
+      this.select()
+    }
+  }
+
+  private async probeEndpoint(endpoint: AoEndpoint): Promise<void> {
+    const startedAt = this.now()
+    try {
+      const res = await fetch(endpoint.url, {
+        signal: AbortSignal.timeout(this.options.probeTimeoutMs)
+      })
+      if (!res.ok) {
+        throw new Error(`Probe answered ${res.status}`)
+      }
+
+      endpoint.probeSuccesses++
+      endpoint.probeLatencyMs = this.now() - startedAt
+      this.recordSuccess(endpoint, endpoint.probeLatencyMs)
+    } catch (error) {
+      this.recordFailure(endpoint, (error as Error).message)
+    }
+  }
+
+  /**
+   * The healthy candidate to prefer: fast ones first, then by priority
+   */
+  private best(candidates: AoEndpoint[]): AoEndpoint | undefined {
+    return candidates
+      .filter(({ healthy }) => healthy)
+      .sort(
+        (a, b) =>
+          Number(this.isSlow(a)) - Number(this.isSlow(b)) ||
+          a.priority - b.priority
+      )[0]
+  }
+
+  private isSlow(endpoint: AoEndpoint): boolean {
+    return (
+      endpoint.probeLatencyMs !== null &&
+      endpoint.probeLatencyMs > this.options.slowProbeMs
+    )
+  }
+
+  private markHealthy(endpoint: AoEndpoint) {
+    endpoint.lastError = null
+    if (!endpoint.healthy) {
+      endpoint.healthy = true
+      aoEndpointUp.set({ kind: this.kind, endpoint: endpoint.url }, 1)
+      this.logger.log(`${endpoint.url} is healthy again`)
+    }
+  }
+
+  private switchTo(endpoint: AoEndpoint, reason: string) {
+    this.logger.warn(
+      `Switching ${this.kind.toUpperCase()} from ${this.current.url} to ${endpoint.url}: ${reason}`
+    )
+    this.current = endpoint
+  }
+}
@@ -1,17 +1,70 @@
 import { Logger } from '@nestjs/common'
 import { connect as aoConnect, createDataItemSigner } from '@permaweb/aoconnect'
+import { AoClient } from './ao-client'
+
+/**
+ * fetch copying the code of connection errors onto the error, the MU client
+ * only keeps what JSON.stringify of the error shows
+ */
+const fetchWithErrorCode = (
+  input: Parameters<typeof fetch>[0],
+  init?: RequestInit
+): Promise<Response> =>
+  fetch(input, init).catch((error: Error & { cause?: { code?: string } }) => {
+    throw Object.assign(error, { code: error.cause?.code })
+  })
+
+const connectLegacy = (
+  { config }: AoClient,
+  CU_URL: string,
+  MU_URL: string
+) => {
+  // Legacy mode takes a fetch, the connect types just don't declare it
+  const options = {
+    CU_URL,
+    MU_URL,
+    GATEWAY_URL: config.gatewayUrl,
+    GRAPHQL_URL: config.graphqlUrl,
+    MODE: 'legacy' as const,
+    fetch: fetchWithErrorCode
+  }
+
+  return aoConnect(options)
+}
 
-export const {
-  message: aoMessage,
-  result: aoResult,
-  dryrun: aoDryRun
-} = aoConnect({
-  CU_URL: process.env.CU_URL,
-  MU_URL: process.env.MU_URL,
-  GATEWAY_URL: process.env.GATEWAY_URL,
-  GRAPHQL_URL: process.env.GRAPHQL_URL,
-  MODE: 'legacy'
-})
+// Per client, by CU and MU URL
+const connections = new WeakMap<
+  AoClient,
+  Map<string, ReturnType<typeof connectLegacy>>
+>()
+
+/**
+ * aoconnect bound to a CU or MU endpoint, created on first use. dry-run and
+ * result only use the CU and message only the MU, the other side is the most
+ * preferred endpoint.
+ */
+function connectTo(
+  aoClient: AoClient,
+  { cu, mu }: { cu?: string; mu?: string }
+) {
+  const cuUrl = cu ?? aoClient.config.cuUrls[0]
+  const muUrl = mu ?? aoClient.config.muUrls[0]
+  const key = `${cuUrl} ${muUrl}`
+
+  let clientConnections = connections.get(aoClient)
+  if (!clientConnections) {
+    clientConnections = new Map()
+    connections.set(aoClient, clientConnections)
+  }
+
+  let connection = clientConnections.get(key)
+  if (!connection) {
+    connection = connectLegacy(aoClient, cuUrl, muUrl)
+    clientConnections.set(key, connection)
+  }
+
+  return connection
+}
 
 export type SendAosBaseOptions = {
   processId: string
@@ -23,133 +76,90 @@ export type SendAosMessageOptions = SendAosBaseOptions & {
   signer: ReturnType<typeof createDataItemSigner>
 }
 
-export type AosSigningFunction = ({
-  data,
-  tags,
-  target,
-  anchor
-}: {
-  data: string | Uint8Array
-  tags: any[]
-  target?: string
-  anchor?: string
-}) => Promise<{
-  id: string
-  raw: Buffer
-}>
-
 export async function sendAosDryRun(
+  aoClient: AoClient,
   { processId, data, tags }: SendAosDryRunOptions,
-  retries = 3
+  retries?: number
 ) {
   const logger = new Logger('util/sendAosDryRun')
-  let attempts = 0
-  let lastError: Error | undefined
 
-  while (attempts < retries) {
-    try {
-      logger.debug(`Sending AO DryRun to process ${processId}`)
+  return aoClient.call(
+    'dry-run',
+    `sending AO DryRun to process ${processId}`,
+    async (cu) => {
+      logger.debug(`Sending AO DryRun to process ${processId} via ${cu}`)
 
       return {
-        result: await aoDryRun({
+        result: await connectTo(aoClient, { cu }).dryrun({
           process: processId,
           tags,
           data
         })
       }
-    } catch (error) {
-      const err = error as Error
-      logger.error(`Error sending AO DryRun to process ${processId}`, err)
-
-      if (err.message.includes('500')) {
-        logger.debug(
-          `Retrying sending AO DryRun to process ${processId}`,
-          JSON.stringify(
-            { attempts, retries, error: err.message },
-            undefined,
-            2
-          )
-        )
-
-        // NB: Sleep between each attempt with exponential backoff
-        await new Promise((resolve) =>
-          setTimeout(resolve, 2 ** attempts * 2000)
-        )
-
-        attempts++
-        lastError = err
-      } else {
-        throw err
-      }
-    }
-  }
+    },
+    retries
+  )
+}
 
-  if (lastError) {
-    throw lastError
-  }
-  throw new Error('Unknown error occurred')
+export type FetchAosResultOptions = {
+  processId: string
+  messageId: string
 }
 
-export async function sendAosMessage(
+/**
+ * Post a signed message to the MU and return its message ID
+ */
+export async function postAosMessage(
+  aoClient: AoClient,
   { processId, data, tags, signer }: SendAosMessageOptions,
-  retries = 3
-) {
-  const logger = new Logger('util/sendAosMessage')
-  let attempts = 0
-  let lastError: Error | undefined
-
-  while (attempts < retries) {
-    try {
-      logger.debug(`Sending AO Message to process ${processId}`)
-
-      const messageId = await aoMessage({
+  retries?: number
+): Promise<string> {
+  const logger = new Logger('util/postAosMessage')
+
+  return aoClient.call(
+    'message',
+    `sending AO Message to process ${processId}`,
+    (mu) => {
+      logger.debug(`Sending AO Message to process ${processId} via ${mu}`)
+      return connectTo(aoClient, { mu }).message({
         process: processId,
         tags,
         data,
         signer
       })
+    },
+    retries
+  )
+}
 
+/**
+ * Fetch the CU result of a message that was already posted. Retrying this
+ * never resends the message.
+ */
+export async function fetchAosResult(
+  aoClient: AoClient,
+  { processId, messageId }: FetchAosResultOptions,
+  retries?: number
+) {
+  const logger = new Logger('util/fetchAosResult')
+
+  return aoClient.call(
+    'result',
+    `fetching AO Message result ${messageId} from process ${processId}`,
+    async (cu) => {
       logger.debug(
-        `Fetching AO Message result ${messageId} from process ${processId}`
+        `Fetching AO Message result ${messageId} from process ${processId} via ${cu}`
       )
-      const result = await aoResult({
+      const result = await connectTo(aoClient, { cu }).result({
         message: messageId,
         process: processId
       })
       logger.debug(
-        `Got AO Message result ${messageId} from process ${processId}`
+        `Got AO Message result ${messageId} from process ${processId} via ${cu}`
       )
 
-      return { messageId, result }
-    } catch (error) {
-      const err = error as Error
-      logger.error(`Error sending AO Message to process ${processId}`, err)
-
-      if (err.message.includes('500')) {
-        logger.log(
-          `Retrying sending AO Message to process ${processId}`,
-          JSON.stringify(
-            { attempts, retries, error: err.message },
-            undefined,
-            2
-          )
-        )
-
-        // NB: Sleep between each attempt with exponential backoff
-        await new Promise((resolve) =>
-          setTimeout(resolve, 2 ** attempts * 2000)
-        )
-
-        attempts++
-        lastError = err
-      } else {
-        throw err
-      }
-    }
-  }
-
-  if (lastError) {
-    throw lastError
-  }
-  throw new Error('Unknown error occurred')
+      return result
+    },
+    retries
+  )
 }
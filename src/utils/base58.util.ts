@@ -1,3 +1,5 @@
+import { createHash } from 'crypto'
+
 /**
  * Base58 alphabet used by Bitcoin, Solana, and other cryptocurrencies
  * Excludes: 0 (zero), O (capital o), I (capital i), l (lowercase L)
@@ -49,3 +51,27 @@ export function decodeBase58(input: string): Uint8Array {
 
   return new Uint8Array(bytes)
 }
+
+/**
+ * Decodes a base58check string (Bitcoin) and verifies its checksum, the
+ * first 4 bytes of the double SHA-256 of the payload
+ * @returns Payload including the version byte, without the checksum
+ * @throws Error if the input is not base58 or the checksum does not match
+ */
+export function decodeBase58Check(input: string): Uint8Array {
+  const bytes = decodeBase58(input)
+  if (bytes.length < 5) {
+    throw new Error('Base58check input is too short')
+  }
+
+  const payload = bytes.subarray(0, -4)
+  const checksum = createHash('sha256')
+    .update(createHash('sha256').update(payload).digest())
+    .digest()
+    .subarray(0, 4)
+  if (!checksum.equals(bytes.subarray(-4))) {
+    throw new Error('Invalid base58check checksum')
+  }
+
+  return payload
+}
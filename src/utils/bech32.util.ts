@@ -0,0 +1,108 @@
+/**
+ * Bech32 (BIP-173) and bech32m (BIP-350) decoding for Bitcoin segwit and
+ * Cosmos-family addresses
+ */
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l'
+const GENERATORS = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3]
+const BECH32_CONST = 1
+const BECH32M_CONST = 0x2bc830a3
+const MAX_LENGTH = 90
+
+export type Bech32Encoding = 'bech32' | 'bech32m'
+
+export interface Bech32Decoded {
+  // Human readable part, lowercase
+  hrp: string
+  // 5-bit data words without the checksum
+  words: number[]
+  encoding: Bech32Encoding
+}
+
+function polymod(values: number[]): number {
+  let chk = 1
+  for (const value of values) {
+    const top = chk >>> 25
+    chk = ((chk & 0x1ffffff) << 5) ^ value
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) {
+        chk ^= GENERATORS[i]
+      }
+    }
+  }
+  return chk >>> 0
+}
+
+function expandHrp(hrp: string): number[] {
+  const high = [...hrp].map((char) => char.charCodeAt(0) >> 5)
+  const low = [...hrp].map((char) => char.charCodeAt(0) & 31)
+  return [...high, 0, ...low]
+}
+
+/**
+ * Decodes a bech32 or bech32m string, telling the two apart by checksum
+ * @throws Error if the string is malformed, mixed case or fails its checksum
+ */
+export function decodeBech32(input: string): Bech32Decoded {
+  if (input.length > MAX_LENGTH) {
+    throw new Error(`Bech32 strings are at most ${MAX_LENGTH} characters`)
+  }
+  if (input !== input.toLowerCase() && input !== input.toUpperCase()) {
+    throw new Error('Bech32 strings must not mix upper and lower case')
+  }
+
+  const lower = input.toLowerCase()
+  const separator = lower.lastIndexOf('1')
+  if (separator < 1 || separator + 7 > lower.length) {
+    throw new Error('Bech32 separator "1" is misplaced')
+  }
+
+  const hrp = lower.slice(0, separator)
+  const values: number[] = []
+  for (let i = separator + 1; i < lower.length; i++) {
+    const value = CHARSET.indexOf(lower[i])
+    if (value === -1) {
+      throw new Error(
+        `Invalid bech32 character: "${lower[i]}" at position ${i}`
+      )
+    }
+    values.push(value)
+  }
+
+  const checksum = polymod([...expandHrp(hrp), ...values])
+  const encoding =
+    checksum === BECH32_CONST
+      ? 'bech32'
+      : checksum === BECH32M_CONST
+        ? 'bech32m'
+        : undefined
+  if (!encoding) {
+    throw new Error('Invalid bech32 checksum')
+  }
+
+  return { hrp, words: values.slice(0, -6), encoding }
+}
+
+/**
+ * Regroups 5-bit bech32 words into bytes, rejecting non-zero padding
+ */
+export function bech32WordsToBytes(words: number[]): Uint8Array {
+  let accumulator = 0
+  let bits = 0
+  const bytes: number[] = []
+
+  for (const word of words) {
+    // Only the last 12 bits can still contribute to a byte
+    accumulator = ((accumulator << 5) | word) & 0xfff
+    bits += 5
+    while (bits >= 8) {
+      bits -= 8
+      bytes.push((accumulator >> bits) & 0xff)
+    }
+  }
+
+  if (bits >= 5 || (accumulator << (8 - bits)) & 0xff) {
+    throw new Error('Invalid bech32 padding')
+  }
+
+  return new Uint8Array(bytes)
+}
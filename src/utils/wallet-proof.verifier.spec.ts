@@ -0,0 +1,185 @@
+import { constants, createHash, generateKeyPairSync, sign } from 'crypto'
+import { Wallet } from 'ethers'
+import { WalletProofVerifier } from './wallet-proof.verifier'
+
+const BASE58_ALPHABET =
+  '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz'
+
+function encodeBase58(bytes: Uint8Array): string {
+  let num = BigInt(`0x${Buffer.from(bytes).toString('hex') || '0'}`)
+  let encoded = ''
+  while (num > 0) {
+    encoded = BASE58_ALPHABET[Number(num % BigInt(58))] + encoded
+    num = num / BigInt(58)
+  }
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
+    encoded = '1' + encoded
+  }
+  return encoded
+}
+
+describe('WalletProofVerifier', () => {
+  const options = { maxAgeMs: 10 * 60 * 1000 }
+
+  describe('evm', () => {
+    const wallet = Wallet.createRandom()
+
+    it('should accept an EIP-191 signature from the wallet', async () => {
+      const message = WalletProofVerifier.buildChallenge(wallet.address)
+      const signature = await wallet.signMessage(message)
+
+      expect(
+        WalletProofVerifier.verify(
+          wallet.address,
+          'evm',
+          { message, signature },
+          options
+        )
+      ).toEqual({ valid: true })
+    })
+
+    it('should reject a signature from another wallet', async () => {
+      const message = WalletProofVerifier.buildChallenge(wallet.address)
+      const signature = await Wallet.createRandom().signMessage(message)
+
+      expect(
+        WalletProofVerifier.verify(
+          wallet.address,
+          'evm',
+          { message, signature },
+          options
+        ).valid
+      ).toBe(false)
+    })
+
+    it('should reject expired challenges', async () => {
+      const message = WalletProofVerifier.buildChallenge(
+        wallet.address,
+        new Date(Date.now() - 60 * 60 * 1000)
+      )
+      const signature = await wallet.signMessage(message)
+
+      expect(
+        WalletProofVerifier.verify(
+          wallet.address,
+          'evm',
+          { message, signature },
+          options
+        )
+      ).toEqual({ valid: false, error: 'Challenge has expired' })
+    })
+
+    it('should reject challenges without a nonce', async () => {
+      const message = WalletProofVerifier.buildChallenge(wallet.address)
+        .split('\n')
+        .filter((line) => !line.startsWith('Nonce: '))
+        .join('\n')
+      const signature = await wallet.signMessage(message)
+
+      expect(
+        WalletProofVerifier.verify(
+          wallet.address,
+          'evm',
+          { message, signature },
+          options
+        )
+      ).toEqual({ valid: false, error: 'Challenge is missing a Nonce' })
+    })
+
+    it('should only accept link challenges for the given primary', async () => {
+      const primary = 'vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw'
+      const message = WalletProofVerifier.buildLinkChallenge(
+        wallet.address,
+        primary
+      )
+      const proof = { message, signature: await wallet.signMessage(message) }
+
+      expect(
+        WalletProofVerifier.verify(wallet.address, 'evm', proof, {
+          ...options,
+          linkTo: primary
+        })
+      ).toEqual({ valid: true })
+      expect(
+        WalletProofVerifier.verify(wallet.address, 'evm', proof, {
+          ...options,
+          linkTo: wallet.address
+        }).error
+      ).toBe('Challenge was issued for a different primary address')
+      expect(
+        WalletProofVerifier.verify(wallet.address, 'evm', proof, options).error
+      ).toBe('Message is not a wallet ownership challenge')
+    })
+  })
+
+  describe('solana', () => {
+    it('should accept an ed25519 signature from the wallet', () => {
+      const { publicKey, privateKey } = generateKeyPairSync('ed25519')
+      const rawPublicKey = Buffer.from(
+        publicKey.export({ format: 'jwk' }).x as string,
+        'base64url'
+      )
+      const address = encodeBase58(rawPublicKey)
+      const message = WalletProofVerifier.buildChallenge(address)
+      const signature = encodeBase58(
+        sign(null, Buffer.from(message), privateKey)
+      )
+
+      expect(
+        WalletProofVerifier.verify(
+          address,
+          'solana',
+          { message, signature },
+          options
+        )
+      ).toEqual({ valid: true })
+      expect(
+        WalletProofVerifier.verify(
+          address,
+          'solana',
+          { message: message + ' ', signature },
+          options
+        ).valid
+      ).toBe(false)
+    })
+  })
+
+  describe('arweave', () => {
+    it('should accept an RSA-PSS signature from the wallet', () => {
+      const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+        modulusLength: 2048
+      })
+      const owner = publicKey.export({ format: 'jwk' }).n as string
+      const address = createHash('sha256')
+        .update(Buffer.from(owner, 'base64url'))
+        .digest('base64url')
+      const message = WalletProofVerifier.buildChallenge(address)
+      const signature = sign(
+        'sha256',
+        createHash('sha256').update(message).digest(),
+        {
+          key: privateKey,
+          padding: constants.RSA_PKCS1_PSS_PADDING,
+          saltLength: 32
+        }
+      ).toString('base64url')
+
+      expect(
+        WalletProofVerifier.verify(
+          address,
+          'arweave',
+          { message, signature, publicKey: owner },
+          options
+        )
+      ).toEqual({ valid: true })
+      expect(
+        WalletProofVerifier.verify(
+          address,
+          'arweave',
+          { message, signature },
+          options
+        )
+      ).toEqual({ valid: false, error: 'Arweave proofs require a publicKey' })
+    })
+  })
+})
@@ -0,0 +1,270 @@
+import {
+  constants,
+  createHash,
+  createPublicKey,
+  randomBytes,
+  verify
+} from 'crypto'
+import { verifyMessage } from 'ethers'
+import { decodeBase58 } from './base58.util'
+import type { WalletType } from './wallet.validator'
+
+export interface WalletProof {
+  // Signed challenge, see WalletProofVerifier.buildChallenge
+  message: string
+  // EVM: 0x hex, Solana: base58, Arweave: base64url
+  signature: string
+  // Arweave only: base64url RSA public modulus (the wallet "owner")
+  publicKey?: string
+}
+
+export interface WalletProofVerificationResult {
+  valid: boolean
+  error?: string
+}
+
+export interface WalletProofVerificationOptions {
+  // Maximum age of the challenge's "Issued At"
+  maxAgeMs: number
+  // Reference time for the age check, defaults to now
+  now?: number
+  // Require a link challenge naming this primary address instead
+  linkTo?: string
+}
+
+const CHALLENGE_HEADER = 'Rewards Goblin wallet ownership proof'
+const LINK_CHALLENGE_HEADER = 'Rewards Goblin wallet link proof'
+// Tolerated clock skew for challenges issued "in the future"
+const MAX_CLOCK_SKEW_MS = 60 * 1000
+// DER SubjectPublicKeyInfo prefix for a raw 32-byte ed25519 public key
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex')
+
+/**
+ * Verifies that the submitter of an event controls the wallet it claims
+ * - EVM: EIP-191 personal_sign signature
+ * - Solana: ed25519 signature over the UTF-8 message
+ * - Arweave: RSA-PSS (SHA-256) signature over the SHA-256 of the message,
+ *   as produced by Wander's signMessage
+ */
+export class WalletProofVerifier {
+  /**
+   * Build the challenge message a wallet signs to prove ownership. The nonce
+   * lets each signed challenge be accepted for a single event.
+   */
+  static buildChallenge(
+    walletAddress: string,
+    issuedAt: Date = new Date(),
+    nonce: string = randomBytes(16).toString('hex')
+  ): string {
+    return [
+      CHALLENGE_HEADER,
+      `Address: ${walletAddress}`,
+      `Nonce: ${nonce}`,
+      `Issued At: ${issuedAt.toISOString()}`
+    ].join('\n')
+  }
+
+  /**
+   * Nonce of an ownership challenge, undefined if it has none
+   */
+  static getNonce(message: string): string | undefined {
+    return this.findField(message.split('\n'), 'Nonce') || undefined
+  }
+
+  /**
+   * Build the challenge a wallet signs to link itself to a primary address.
+   * Link proofs are never accepted as ownership proofs and vice versa, so an
+   * event's proof cannot be replayed to hijack the wallet's awards.
+   */
+  static buildLinkChallenge(
+    walletAddress: string,
+    primaryAddress: string,
+    issuedAt: Date = new Date()
+  ): string {
+    return [
+      LINK_CHALLENGE_HEADER,
+      `Address: ${walletAddress}`,
+      `Primary: ${primaryAddress}`,
+      `Issued At: ${issuedAt.toISOString()}`
+    ].join('\n')
+  }
+
+  /**
+   * Verify a proof for a normalized wallet address of the given type
+   */
+  static verify(
+    walletAddress: string,
+    walletType: WalletType,
+    proof: WalletProof,
+    { maxAgeMs, now = Date.now(), linkTo }: WalletProofVerificationOptions
+  ): WalletProofVerificationResult {
+    if (!proof || !proof.message || !proof.signature) {
+      return { valid: false, error: 'Proof must include message and signature' }
+    }
+
+    const challengeError = this.checkChallenge(
+      walletAddress,
+      walletType,
+      proof.message,
+      maxAgeMs,
+      now,
+      linkTo
+    )
+    if (challengeError) {
+      return { valid: false, error: challengeError }
+    }
+
+    try {
+      switch (walletType) {
+        case 'evm':
+          return this.verifyEvm(walletAddress, proof)
+        case 'solana':
+          return this.verifySolana(walletAddress, proof)
+        case 'arweave':
+          return this.verifyArweave(walletAddress, proof)
+        default:
+          return {
+            valid: false,
+            error: `Proofs are not supported for ${walletType as string} wallets`
+          }
+      }
+    } catch (error) {
+      const err = error as Error
+      return { valid: false, error: `Invalid signature: ${err.message}` }
+    }
+  }
+
+  /**
+   * Ensure the challenge names this wallet (and primary when linking) and is
+   * recent
+   */
+  private static checkChallenge(
+    walletAddress: string,
+    walletType: WalletType,
+    message: string,
+    maxAgeMs: number,
+    now: number,
+    linkTo?: string
+  ): string | undefined {
+    const lines = message.split('\n').map((line) => line.trim())
+    if (linkTo === undefined) {
+      if (lines[0] !== CHALLENGE_HEADER) {
+        return 'Message is not a wallet ownership challenge'
+      }
+      if (!this.findField(lines, 'Nonce')) {
+        return 'Challenge is missing a Nonce'
+      }
+    } else {
+      if (lines[0] !== LINK_CHALLENGE_HEADER) {
+        return 'Message is not a wallet link challenge'
+      }
+      if (this.findField(lines, 'Primary') !== linkTo) {
+        return 'Challenge was issued for a different primary address'
+      }
+    }
+
+    const address = this.findField(lines, 'Address')
+    const matchesAddress =
+      walletType === 'evm'
+        ? address?.toLowerCase() === walletAddress.toLowerCase()
+        : address === walletAddress
+    if (!matchesAddress) {
+      return 'Challenge was issued for a different address'
+    }
+
+    const issuedAt = Date.parse(this.findField(lines, 'Issued At') ?? '')
+    if (Number.isNaN(issuedAt)) {
+      return 'Challenge is missing a valid Issued At'
+    }
+    if (issuedAt - now > MAX_CLOCK_SKEW_MS) {
+      return 'Challenge is issued in the future'
+    }
+    if (now - issuedAt > maxAgeMs) {
+      return 'Challenge has expired'
+    }
+
+    return undefined
+  }
+
+  private static findField(lines: string[], name: string): string | undefined {
+    return lines
+      .map((line) => line.trim())
+      .find((line) => line.startsWith(`${name}: `))
+      ?.slice(`${name}: `.length)
+  }
+
+  private static verifyEvm(
+    walletAddress: string,
+    { message, signature }: WalletProof
+  ): WalletProofVerificationResult {
+    const recovered = verifyMessage(message, signature)
+    if (recovered.toLowerCase() !== walletAddress.toLowerCase()) {
+      return { valid: false, error: 'Signature was made by a different wallet' }
+    }
+
+    return { valid: true }
+  }
+
+  private static verifySolana(
+    walletAddress: string,
+    { message, signature }: WalletProof
+  ): WalletProofVerificationResult {
+    const publicKey = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, decodeBase58(walletAddress)]),
+      format: 'der',
+      type: 'spki'
+    })
+    const signatureBytes = decodeBase58(signature)
+    if (signatureBytes.length !== 64) {
+      return {
+        valid: false,
+        error: `ed25519 signature must be 64 bytes, got ${signatureBytes.length}`
+      }
+    }
+
+    if (
+      !verify(null, Buffer.from(message, 'utf-8'), publicKey, signatureBytes)
+    ) {
+      return { valid: false, error: 'Signature does not match wallet' }
+    }
+
+    return { valid: true }
+  }
+
+  private static verifyArweave(
+    walletAddress: string,
+    { message, signature, publicKey }: WalletProof
+  ): WalletProofVerificationResult {
+    if (!publicKey) {
+      return { valid: false, error: 'Arweave proofs require a publicKey' }
+    }
+
+    // Arweave addresses are the base64url SHA-256 of the public modulus
+    const owner = Buffer.from(publicKey, 'base64url')
+    const ownerAddress = createHash('sha256').update(owner).digest('base64url')
+    if (ownerAddress !== walletAddress) {
+      return { valid: false, error: 'Public key does not match wallet' }
+    }
+
+    const key = createPublicKey({
+      key: { kty: 'RSA', n: publicKey, e: 'AQAB' },
+      format: 'jwk'
+    })
+    const digest = createHash('sha256').update(message, 'utf-8').digest()
+    const verified = verify(
+      'sha256',
+      digest,
+      {
+        key,
+        padding: constants.RSA_PKCS1_PSS_PADDING,
+        saltLength: constants.RSA_PSS_SALTLEN_AUTO
+      },
+      Buffer.from(signature, 'base64url')
+    )
+    if (!verified) {
+      return { valid: false, error: 'Signature does not match wallet' }
+    }
+
+    return { valid: true }
+  }
+}
@@ -0,0 +1,58 @@
+import { WalletValidator } from './wallet.validator'
+
+describe('WalletValidator', () => {
+  it.each([
+    ['vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw', 'arweave'],
+    ['0x742d35cc6634c0532925a3b844bc9e7595f0beb0', 'evm'],
+    ['EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', 'solana'],
+    // Fails the base58check checksum, so it is not a Bitcoin address
+    ['11111111111111111111111111111111', 'solana'],
+    ['1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa', 'bitcoin'],
+    ['3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy', 'bitcoin'],
+    ['bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq', 'bitcoin'],
+    [
+      'bc1p5d7rjq7g6rdk2yhzks9smlaqtedr4dekq08ge8ztwac72sfr9rusxg3297',
+      'bitcoin'
+    ],
+    ['cosmos1qurswpc8qurswpc8qurswpc8qurswpc8nn86qp', 'cosmos'],
+    // 43 characters of base64url, but a valid Osmosis bech32 address
+    ['osmo1qurswpc8qurswpc8qurswpc8qurswpc8mg52kn', 'cosmos'],
+    [
+      '0x02a212de6a9dfa3a69e22387acfbafbb1a9e591bd9d636e7895dcfc8de05f331',
+      'move'
+    ]
+  ])('should accept %s as %s', (address, type) => {
+    expect(WalletValidator.validateAndNormalize(address)).toMatchObject({
+      valid: true,
+      type
+    })
+  })
+
+  it('should normalize case-insensitive formats to lowercase', () => {
+    expect(
+      WalletValidator.validateAndNormalize(
+        'BC1QAR0SRRR7XFKVY5L643LYDNW9RE59GTZZWF5MDQ'
+      ).normalized
+    ).toBe('bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq')
+    expect(
+      WalletValidator.validateAndNormalize(
+        '0x02A212DE6A9DFA3A69E22387ACFBAFBB1A9E591BD9D636E7895DCFC8DE05F331'
+      ).normalized
+    ).toBe('0x02a212de6a9dfa3a69e22387acfbafbb1a9e591bd9d636e7895dcfc8de05f331')
+  })
+
+  it.each([
+    // Last character changed, checksums no longer match
+    '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNb',
+    'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdr',
+    'cosmos1qurswpc8qurswpc8qurswpc8qurswpc8nn86qq',
+    // Witness version 1 must use bech32m
+    'bc1pqyqszqgpqyqszqgpqyqszqgpqyqszqgpqyqszqgpqyqszqgpqyqs3wf0qm',
+    // Prefix not on the Cosmos allow-list
+    'unknown1qurswpc8qurswpc8qurswpc8qurswpc8rqsg85',
+    // Mixed case bech32
+    'bc1qAR0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq'
+  ])('should reject %s', (address) => {
+    expect(WalletValidator.validateAndNormalize(address).valid).toBe(false)
+  })
+})
@@ -1,7 +1,39 @@
 import { isAddress, getAddress } from 'ethers'
-import { decodeBase58 } from './base58.util'
+import { decodeBase58, decodeBase58Check } from './base58.util'
+import { bech32WordsToBytes, decodeBech32 } from './bech32.util'
 
-export type WalletType = 'arweave' | 'evm' | 'solana'
+// move: Sui and Aptos share the 32-byte 0x hex address format
+export type WalletType =
+  | 'arweave'
+  | 'evm'
+  | 'solana'
+  | 'bitcoin'
+  | 'cosmos'
+  | 'move'
+
+/**
+ * Bech32 prefixes of the Cosmos-family chains accepted as wallets
+ */
+export const COSMOS_BECH32_PREFIXES = [
+  'cosmos',
+  'osmo',
+  'juno',
+  'stars',
+  'akash',
+  'celestia',
+  'dydx',
+  'inj',
+  'kava',
+  'neutron',
+  'noble',
+  'sei',
+  'stride',
+  'axelar'
+]
+
+// Base58check version bytes of mainnet P2PKH and P2SH addresses
+const BITCOIN_P2PKH_VERSION = 0x00
+const BITCOIN_P2SH_VERSION = 0x05
 
 export interface WalletValidationResult {
   valid: boolean
@@ -15,6 +47,13 @@ export interface WalletValidationResult {
  * - Arweave: 43 character base64url encoded address
  * - EVM: 0x-prefixed 40 hex character address (checksum validated)
  * - Solana: Base58 encoded 32-byte public key
+ * - Bitcoin: base58check P2PKH/P2SH or bech32/bech32m segwit (mainnet)
+ * - Cosmos: bech32 with an allow-listed prefix, see COSMOS_BECH32_PREFIXES
+ * - Sui/Aptos: 0x-prefixed 64 hex characters, lowercased
+ *
+ * Formats that overlap are told apart by their checksums: a bech32 string
+ * or base58check payload that fails its checksum may still be an Arweave or
+ * Solana address.
  */
 export class WalletValidator {
   // Arweave addresses are 43 characters of base64url (A-Za-z0-9_-)
@@ -27,6 +66,16 @@ export class WalletValidator {
   // Excludes: 0, O, I, l
   private static readonly SOLANA_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/
 
+  // Sui and Aptos addresses are 0x followed by 64 hex characters
+  private static readonly MOVE_REGEX = /^0x[a-fA-F0-9]{64}$/
+
+  // Legacy Bitcoin addresses start with 1 (P2PKH) or 3 (P2SH)
+  private static readonly BITCOIN_BASE58_REGEX =
+    /^[13][1-9A-HJ-NP-Za-km-z]{25,34}$/
+
+  // Human readable part, separator "1" and at least the 6 checksum characters
+  private static readonly BECH32_REGEX = /^[a-zA-Z0-9]{1,83}1[a-zA-Z0-9]{6,}$/
+
   /**
    * Validates a wallet address and returns the validation result with type and normalized address
    */
@@ -41,6 +90,24 @@ export class WalletValidator {
     // Trim whitespace
     address = address.trim()
 
+    // Check Sui/Aptos format
+    if (this.MOVE_REGEX.test(address)) {
+      // No checksum, lowercase like the Sui and Aptos SDKs
+      return {
+        valid: true,
+        type: 'move',
+        normalized: address.toLowerCase()
+      }
+    }
+
+    // Check bech32 formats before Arweave, e.g. osmo1... is 43 characters
+    if (this.BECH32_REGEX.test(address)) {
+      const result = this.validateBech32(address)
+      if (result) {
+        return result
+      }
+    }
+
     // Check Arweave format
     if (this.ARWEAVE_REGEX.test(address)) {
       return {
@@ -76,6 +143,14 @@ export class WalletValidator {
       }
     }
 
+    // Check Bitcoin base58check before Solana, both use the base58 alphabet
+    if (this.BITCOIN_BASE58_REGEX.test(address)) {
+      const result = this.validateBitcoinBase58(address)
+      if (result) {
+        return result
+      }
+    }
+
     // Check Solana format
     if (this.SOLANA_REGEX.test(address)) {
       try {
@@ -106,7 +181,111 @@ export class WalletValidator {
     return {
       valid: false,
       error:
-        'Address does not match any supported format (Arweave, EVM, Solana)'
+        'Address does not match any supported format (Arweave, EVM, Solana, Bitcoin, Cosmos, Sui/Aptos)'
+    }
+  }
+
+  /**
+   * Validate a string with a valid bech32 checksum as a Bitcoin segwit or
+   * Cosmos address. Returns undefined for strings that are not bech32 or use
+   * an unknown prefix, so other formats can be checked.
+   */
+  private static validateBech32(
+    address: string
+  ): WalletValidationResult | undefined {
+    let decoded: ReturnType<typeof decodeBech32>
+    try {
+      decoded = decodeBech32(address)
+    } catch {
+      return undefined
+    }
+    const { hrp, words, encoding } = decoded
+
+    try {
+      if (hrp === 'bc') {
+        const [version, ...program] = words
+        const bytes = bech32WordsToBytes(program)
+        if (version === undefined || version > 16) {
+          throw new Error(`unknown witness version ${version}`)
+        }
+        // BIP-350: version 0 uses bech32, later versions bech32m
+        if (encoding !== (version === 0 ? 'bech32' : 'bech32m')) {
+          throw new Error(`witness version ${version} must not use ${encoding}`)
+        }
+        if (
+          version === 0
+            ? bytes.length !== 20 && bytes.length !== 32
+            : bytes.length < 2 || bytes.length > 40
+        ) {
+          throw new Error(
+            `witness program of ${bytes.length} bytes is invalid for version ${version}`
+          )
+        }
+
+        return {
+          valid: true,
+          type: 'bitcoin',
+          normalized: address.toLowerCase()
+        }
+      }
+
+      if (COSMOS_BECH32_PREFIXES.includes(hrp)) {
+        if (encoding !== 'bech32') {
+          throw new Error('Cosmos addresses use bech32, not bech32m')
+        }
+        const bytes = bech32WordsToBytes(words)
+        if (bytes.length !== 20 && bytes.length !== 32) {
+          throw new Error(
+            `address must decode to 20 or 32 bytes, got ${bytes.length}`
+          )
+        }
+
+        return {
+          valid: true,
+          type: 'cosmos',
+          normalized: address.toLowerCase()
+        }
+      }
+    } catch (error) {
+      const err = error as Error
+      return {
+        valid: false,
+        error: `Invalid ${hrp === 'bc' ? 'Bitcoin' : 'Cosmos'} address: ${err.message}`
+      }
+    }
+
+    return undefined
+  }
+
+  /**
+   * Validate a legacy Bitcoin address. Returns undefined when the checksum
+   * fails, as it may be a Solana address instead.
+   */
+  private static validateBitcoinBase58(
+    address: string
+  ): WalletValidationResult | undefined {
+    let payload: Uint8Array
+    try {
+      payload = decodeBase58Check(address)
+    } catch {
+      return undefined
+    }
+
+    if (
+      payload.length !== 21 ||
+      (payload[0] !== BITCOIN_P2PKH_VERSION &&
+        payload[0] !== BITCOIN_P2SH_VERSION)
+    ) {
+      return {
+        valid: false,
+        error: 'Invalid Bitcoin address: not a mainnet P2PKH or P2SH address'
+      }
+    }
+
+    return {
+      valid: true,
+      type: 'bitcoin',
+      normalized: address // Base58 is case sensitive
     }
   }
 
@@ -0,0 +1,124 @@
+import { Logger } from '@nestjs/common'
+import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq'
+import { ConfigService } from '@nestjs/config'
+import { Job, UnrecoverableError } from 'bullmq'
+import {
+  WEBHOOK_DELIVERIES_QUEUE_NAME,
+  WebhooksService
+} from './webhooks.service'
+import type { WebhookDeliveryData } from './webhooks.types'
+
+/**
+ * POSTs queued webhook events to their subscriber. Each request carries
+ * X-Webhook-Id, X-Webhook-Event, X-Webhook-Timestamp and X-Webhook-Signature
+ * headers; non-2xx responses are retried with the queue's backoff.
+ */
+@Processor(WEBHOOK_DELIVERIES_QUEUE_NAME)
+export class WebhookDeliveryProcessor extends WorkerHost {
+  private readonly logger = new Logger(WebhookDeliveryProcessor.name)
+  private readonly timeoutMs: number
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly webhooksService: WebhooksService
+  ) {
+    super()
+
+    this.timeoutMs = parseInt(
+      this.configService.get<string>('WEBHOOK_TIMEOUT_MS', { infer: true }) ??
+        '10000'
+    )
+  }
+
+  async process(job: Job<WebhookDeliveryData>): Promise<any> {
+    const { subscriberId, event } = job.data
+    const subscriber = this.webhooksService.getSubscriber(subscriberId)
+    if (!subscriber) {
+      throw new UnrecoverableError(
+        `Webhook subscriber ${subscriberId} is no longer configured`
+      )
+    }
+
+    const body = JSON.stringify(event)
+    const timestamp = `${Date.now()}`
+    const startedAt = Date.now()
+    let statusCode: number | null = null
+
+    try {
+      const response = await fetch(subscriber.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': event.id,
+          'X-Webhook-Event': event.type,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': WebhooksService.sign(
+            subscriber.secret,
+            timestamp,
+            body
+          )
+        },
+        body,
+        signal: AbortSignal.timeout(this.timeoutMs)
+      })
+      statusCode = response.status
+
+      if (!response.ok) {
+        throw new Error(
+          `Subscriber responded with ${response.status} ${response.statusText}`
+        )
+      }
+    } catch (error) {
+      const err = error as Error
+      await this.recordAttempt(job, startedAt, statusCode, err.message)
+      throw err
+    }
+
+    await this.recordAttempt(job, startedAt, statusCode, null)
+    return { delivered: true, subscriberId, eventId: event.id, statusCode }
+  }
+
+  private async recordAttempt(
+    job: Job<WebhookDeliveryData>,
+    startedAt: number,
+    statusCode: number | null,
+    error: string | null
+  ) {
+    try {
+      await this.webhooksService.recordDelivery({
+        deliveryId: job.id as string,
+        subscriberId: job.data.subscriberId,
+        eventId: job.data.event.id,
+        eventType: job.data.event.type,
+        status: error ? 'failed' : 'delivered',
+        attempt: job.attemptsMade + 1,
+        statusCode,
+        error,
+        durationMs: Date.now() - startedAt,
+        at: new Date().toISOString()
+      })
+    } catch (logError) {
+      const err = logError as Error
+      this.logger.error(
+        `Failed to record webhook delivery ${job.id}: ${err.message}`
+      )
+    }
+  }
+
+  @OnWorkerEvent('failed')
+  onFailed(job: Job<WebhookDeliveryData>, error: Error) {
+    const maxAttempts = job.opts?.attempts || 1
+    if (
+      error instanceof UnrecoverableError ||
+      job.attemptsMade >= maxAttempts
+    ) {
+      this.logger.error(
+        `Webhook delivery ${job.id} to ${job.data.subscriberId} failed permanently: ${error.message}`
+      )
+    } else {
+      this.logger.warn(
+        `Webhook delivery ${job.id} to ${job.data.subscriberId} failed, will retry. Attempt ${job.attemptsMade}/${maxAttempts}`
+      )
+    }
+  }
+}
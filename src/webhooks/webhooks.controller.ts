@@ -0,0 +1,32 @@
+import { Controller, Get, ParseIntPipe, Query, UseGuards } from '@nestjs/common'
+import { AdminAuthGuard } from '../auth/admin-auth.guard'
+import { WebhooksService } from './webhooks.service'
+
+@Controller('admin/webhooks')
+@UseGuards(AdminAuthGuard)
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  /**
+   * Configured subscribers, without their secrets
+   */
+  @Get('subscribers')
+  getSubscribers() {
+    const subscribers = this.webhooksService
+      .getSubscribers()
+      .map(({ id, url, events }) => ({ id, url, events: events ?? null }))
+
+    return { total: subscribers.length, subscribers }
+  }
+
+  /**
+   * Delivery log, newest first
+   */
+  @Get('deliveries')
+  async getDeliveries(
+    @Query('start', new ParseIntPipe({ optional: true })) start = 0,
+    @Query('end', new ParseIntPipe({ optional: true })) end = 49
+  ) {
+    return this.webhooksService.getDeliveries(start, end)
+  }
+}
@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common'
+import { BullModule } from '@nestjs/bullmq'
+import {
+  WEBHOOK_DELIVERIES_QUEUE_NAME,
+  WebhooksService
+} from './webhooks.service'
+import { WebhookDeliveryProcessor } from './webhook-delivery.processor'
+import { WebhooksController } from './webhooks.controller'
+import { RedisModule } from '../redis/redis.module'
+import { AuthModule } from '../auth/auth.module'
+
+@Module({
+  imports: [
+    RedisModule,
+    AuthModule,
+    BullModule.registerQueue({
+      name: WEBHOOK_DELIVERIES_QUEUE_NAME,
+      defaultJobOptions: {
+        attempts: 8,
+        backoff: {
+          type: 'exponential',
+          delay: 5000 // 5s doubling, about 10 minutes over all attempts
+        },
+        removeOnComplete: 100,
+        removeOnFail: 500
+      }
+    })
+  ],
+  controllers: [WebhooksController],
+  providers: [WebhooksService, WebhookDeliveryProcessor],
+  exports: [WebhooksService]
+})
+export class WebhooksModule {}
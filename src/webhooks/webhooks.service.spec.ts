@@ -0,0 +1,122 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { getQueueToken } from '@nestjs/bullmq'
+import { REDIS_CLIENT } from '../redis/redis.module'
+import {
+  WEBHOOK_DELIVERIES_QUEUE_NAME,
+  WebhooksService
+} from './webhooks.service'
+import type { AchievementAwardedPayload } from './webhooks.types'
+
+const SUBSCRIBERS = [
+  { id: 'discord-bot', url: 'https://bot.example.com/hooks', secret: 's1' },
+  {
+    id: 'frontend',
+    url: 'https://app.example.com/hooks',
+    secret: 's2',
+    events: ['reward.failed']
+  }
+]
+
+const awarded: AchievementAwardedPayload = {
+  wallet: 'vLRHFqCw1uHu75xqB4fCDW-QxpkpJxBtFD9g4QYUbfw',
+  walletType: 'arweave',
+  achievementId: 'mint-image',
+  achievementName: 'Wuzzy Image Searcher',
+  messageId: 'message-1',
+  eventType: 'image-search',
+  jobId: '7',
+  producer: null,
+  metadata: { query: 'cats' }
+}
+
+describe('WebhooksService', () => {
+  let webhooksService: WebhooksService
+  let mockQueue: { addBulk: jest.Mock }
+
+  beforeEach(async () => {
+    mockQueue = { addBulk: jest.fn().mockResolvedValue([]) }
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhooksService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string) =>
+              key === 'WEBHOOK_SUBSCRIBERS'
+                ? JSON.stringify(SUBSCRIBERS)
+                : undefined
+          }
+        },
+        {
+          provide: getQueueToken(WEBHOOK_DELIVERIES_QUEUE_NAME),
+          useValue: mockQueue
+        },
+        { provide: REDIS_CLIENT, useValue: {} }
+      ]
+    }).compile()
+
+    webhooksService = app.get<WebhooksService>(WebhooksService)
+  })
+
+  it('should queue one delivery per subscribed subscriber', async () => {
+    const event = await webhooksService.publish('achievement.awarded', awarded)
+
+    expect(event).toMatchObject({ type: 'achievement.awarded', data: awarded })
+    expect(mockQueue.addBulk).toHaveBeenCalledWith([
+      {
+        name: 'achievement.awarded',
+        data: { subscriberId: 'discord-bot', event },
+        opts: { jobId: `${event!.id}-discord-bot` }
+      }
+    ])
+  })
+
+  it('should skip events nobody subscribes to', async () => {
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhooksService,
+        { provide: ConfigService, useValue: { get: () => undefined } },
+        {
+          provide: getQueueToken(WEBHOOK_DELIVERIES_QUEUE_NAME),
+          useValue: mockQueue
+        },
+        { provide: REDIS_CLIENT, useValue: {} }
+      ]
+    }).compile()
+
+    await expect(
+      app
+        .get<WebhooksService>(WebhooksService)
+        .publish('achievement.awarded', awarded)
+    ).resolves.toBeNull()
+    expect(mockQueue.addBulk).not.toHaveBeenCalled()
+  })
+
+  it('should reject subscribers without a secret or with unknown events', () => {
+    expect(() =>
+      WebhooksService.parseSubscribers(
+        JSON.stringify([{ id: 'a', url: 'https://a.example.com' }])
+      )
+    ).toThrow('Webhook subscriber a must have a secret')
+    expect(() =>
+      WebhooksService.parseSubscribers(
+        JSON.stringify([
+          {
+            id: 'a',
+            url: 'https://a.example.com',
+            secret: 's',
+            events: ['achievement.revoked']
+          }
+        ])
+      )
+    ).toThrow('Webhook subscriber a has unknown events: achievement.revoked')
+  })
+
+  it('should sign the timestamp and body', () => {
+    expect(WebhooksService.sign('secret', '1700000000000', '{}')).toBe(
+      '8399216d111287e3bb28e25c0f4f31dffdf831c68c9ee2b96c2f67c9b81d341b'
+    )
+  })
+})
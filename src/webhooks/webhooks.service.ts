@@ -0,0 +1,184 @@
+import { Inject, Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { InjectQueue } from '@nestjs/bullmq'
+import { Queue } from 'bullmq'
+import { createHmac, randomUUID } from 'crypto'
+import Redis from 'ioredis'
+import { REDIS_CLIENT } from '../redis/redis.module'
+import {
+  WEBHOOK_EVENT_TYPES,
+  WebhookDeliveryData,
+  WebhookDeliveryLogEntry,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookPayloads,
+  WebhookSubscriber
+} from './webhooks.types'
+
+export const WEBHOOK_DELIVERIES_QUEUE_NAME = 'webhook-deliveries'
+
+const DELIVERY_LOG_KEY = 'rewards:webhooks:deliveries'
+
+/**
+ * Fans reward events out to the subscribers configured in
+ * WEBHOOK_SUBSCRIBERS, one webhook-deliveries job per subscriber, and keeps
+ * a capped log of delivery attempts
+ */
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(WebhooksService.name)
+  private readonly subscribers: WebhookSubscriber[]
+  private readonly deliveryLogSize: number
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectQueue(WEBHOOK_DELIVERIES_QUEUE_NAME)
+    private readonly deliveriesQueue: Queue<WebhookDeliveryData>,
+    @Inject(REDIS_CLIENT) private readonly redis: Redis
+  ) {
+    this.subscribers = WebhooksService.parseSubscribers(
+      this.configService.get<string>('WEBHOOK_SUBSCRIBERS', { infer: true })
+    )
+    this.deliveryLogSize = parseInt(
+      this.configService.get<string>('WEBHOOK_DELIVERY_LOG_SIZE', {
+        infer: true
+      }) ?? '1000'
+    )
+
+    if (this.subscribers.length > 0) {
+      this.logger.log(
+        `Loaded webhook subscribers: ${this.subscribers.map(({ id }) => id).join(', ')}`
+      )
+    }
+  }
+
+  /**
+   * Parse the WEBHOOK_SUBSCRIBERS JSON array, throwing on invalid entries
+   */
+  static parseSubscribers(raw?: string): WebhookSubscriber[] {
+    if (!raw) {
+      return []
+    }
+
+    const subscribers = JSON.parse(raw) as unknown
+    if (!Array.isArray(subscribers)) {
+      throw new Error('WEBHOOK_SUBSCRIBERS must be a JSON array')
+    }
+
+    const ids = new Set<string>()
+    return subscribers.map((value, index) => {
+      const subscriber = value as Partial<WebhookSubscriber>
+      const label = `Webhook subscriber ${subscriber?.id ?? index}`
+
+      if (!subscriber?.id || typeof subscriber.id !== 'string') {
+        throw new Error(`Webhook subscriber ${index} must have an id`)
+      }
+      if (ids.has(subscriber.id)) {
+        throw new Error(`Duplicate webhook subscriber id: ${subscriber.id}`)
+      }
+      ids.add(subscriber.id)
+
+      if (!subscriber.url || !URL.canParse(subscriber.url)) {
+        throw new Error(`${label} must have a valid url`)
+      }
+      if (!subscriber.secret || typeof subscriber.secret !== 'string') {
+        throw new Error(`${label} must have a secret`)
+      }
+      const unknownEvents = (subscriber.events ?? []).filter(
+        (event) => !WEBHOOK_EVENT_TYPES.includes(event)
+      )
+      if (unknownEvents.length > 0) {
+        throw new Error(
+          `${label} has unknown events: ${unknownEvents.join(', ')}`
+        )
+      }
+
+      return {
+        id: subscriber.id,
+        url: subscriber.url,
+        secret: subscriber.secret,
+        events: subscriber.events
+      }
+    })
+  }
+
+  /**
+   * Hex HMAC-SHA256 of "<timestamp>.<body>", sent as X-Webhook-Signature
+   */
+  static sign(secret: string, timestamp: string, body: string): string {
+    return createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex')
+  }
+
+  getSubscribers(): WebhookSubscriber[] {
+    return this.subscribers
+  }
+
+  getSubscriber(id: string): WebhookSubscriber | undefined {
+    return this.subscribers.find((subscriber) => subscriber.id === id)
+  }
+
+  /**
+   * Queue a delivery of the event to every subscriber of its type. Returns
+   * the event, or null when nobody subscribes to it.
+   */
+  async publish<T extends WebhookEventType>(
+    type: T,
+    data: WebhookPayloads[T]
+  ): Promise<WebhookEvent<T> | null> {
+    const subscribers = this.subscribers.filter(
+      ({ events }) => !events || events.includes(type)
+    )
+    if (subscribers.length === 0) {
+      return null
+    }
+
+    const event: WebhookEvent<T> = {
+      id: randomUUID(),
+      type,
+      createdAt: new Date().toISOString(),
+      data
+    }
+    await this.deliveriesQueue.addBulk(
+      subscribers.map((subscriber) => ({
+        name: type,
+        data: { subscriberId: subscriber.id, event },
+        opts: { jobId: `${event.id}-${subscriber.id}` }
+      }))
+    )
+
+    this.logger.debug(
+      `Queued ${type} event ${event.id} for ${subscribers.length} subscribers`
+    )
+    return event
+  }
+
+  async recordDelivery(entry: WebhookDeliveryLogEntry): Promise<void> {
+    await this.redis
+      .multi()
+      .lpush(DELIVERY_LOG_KEY, JSON.stringify(entry))
+      .ltrim(DELIVERY_LOG_KEY, 0, this.deliveryLogSize - 1)
+      .exec()
+  }
+
+  /**
+   * Delivery attempts, newest first
+   */
+  async getDeliveries(
+    start = 0,
+    end = 49
+  ): Promise<{ total: number; deliveries: WebhookDeliveryLogEntry[] }> {
+    const [total, entries] = await Promise.all([
+      this.redis.llen(DELIVERY_LOG_KEY),
+      this.redis.lrange(DELIVERY_LOG_KEY, start, end)
+    ])
+
+    return {
+      total,
+      deliveries: entries.map(
+        (entry) => JSON.parse(entry) as WebhookDeliveryLogEntry
+      )
+    }
+  }
+}
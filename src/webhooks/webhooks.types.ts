@@ -0,0 +1,70 @@
+import type { WalletType } from '../utils/wallet.validator'
+
+export const WEBHOOK_EVENT_TYPES = [
+  'achievement.awarded',
+  'reward.failed'
+] as const
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number]
+
+export interface WebhookSubscriber {
+  id: string
+  url: string
+  // Signs deliveries, see WebhooksService.sign
+  secret: string
+  // Event types to receive, all when omitted
+  events?: WebhookEventType[]
+}
+
+export interface AchievementAwardedPayload {
+  wallet: string
+  walletType: WalletType
+  achievementId: string
+  achievementName: string
+  messageId: string | null
+  eventType: string
+  // Null for awards made by operators
+  jobId: string | null
+  producer: string | null
+  metadata?: Record<string, unknown>
+}
+
+export interface RewardFailedPayload {
+  wallet: string
+  walletType: WalletType | null
+  eventType: string
+  jobId: string
+  error: string
+  attemptsMade: number
+  producer: string | null
+  metadata?: Record<string, unknown>
+}
+
+export interface WebhookPayloads {
+  'achievement.awarded': AchievementAwardedPayload
+  'reward.failed': RewardFailedPayload
+}
+
+export interface WebhookEvent<T extends WebhookEventType = WebhookEventType> {
+  id: string
+  type: T
+  createdAt: string
+  data: WebhookPayloads[T]
+}
+
+export interface WebhookDeliveryData {
+  subscriberId: string
+  event: WebhookEvent
+}
+
+export interface WebhookDeliveryLogEntry {
+  deliveryId: string
+  subscriberId: string
+  eventId: string
+  eventType: WebhookEventType
+  status: 'delivered' | 'failed'
+  attempt: number
+  statusCode: number | null
+  error: string | null
+  durationMs: number
+  at: string
+}
@@ -0,0 +1,364 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { ConfigService } from '@nestjs/config'
+import { createHash, generateKeyPairSync } from 'crypto'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { AddressInfo, createServer } from 'net'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { AoSimulator } from './support/ao-simulator'
+import { AchievementsService } from '../src/achievements/achievements.service'
+import {
+  AwardLedgerEntry,
+  AwardLedgerService
+} from '../src/achievements/award-ledger.service'
+import { AWARD_BACKEND } from '../src/achievements/backends/award-backend'
+import { AoAwardBackend } from '../src/achievements/backends/ao-award.backend'
+import { AoClient, readAoClientConfig } from '../src/utils/ao-client'
+import { RulesService } from '../src/rules/rules.service'
+import {
+  ACHIEVEMENT_WUZZY_ARNS_SEARCHER,
+  ACHIEVEMENT_WUZZY_AUDIO_SEARCHER,
+  ACHIEVEMENT_WUZZY_IMAGE_SEARCHER,
+  ACHIEVEMENT_WUZZY_SEARCHER,
+  ACHIEVEMENT_WUZZY_VIDEO_SEARCHER
+} from '../src/rules/default-rules'
+
+const WALLET = '0x742D35CC6634c0532925A3b844BC9E7595F0BEb0'
+
+const mint = (id: string, name: string) => ({
+  id,
+  name,
+  description: `${name} description`,
+  points: 10,
+  icon: `${id}-icon`,
+  category: 'search'
+})
+
+/**
+ * A local port nothing listens on, fetch refuses well-known ports like 1
+ * before connecting
+ */
+async function closedPort(): Promise<number> {
+  const server = createServer()
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  await new Promise((resolve) => server.close(resolve))
+
+  return port
+}
+
+describe('AO award backend against the AO simulator (e2e)', () => {
+  let simulator: AoSimulator
+  let achievementsService: AchievementsService
+  let ledger: Map<string, AwardLedgerEntry>
+  let dir: string
+  let jwkPath: string
+  let goblinAddress: string
+
+  beforeAll(() => {
+    // ANS-104 Arweave signers need a 4096 bit key
+    const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 4096 })
+    const jwk = privateKey.export({ format: 'jwk' })
+    goblinAddress = createHash('sha256')
+      .update(Buffer.from(jwk.n as string, 'base64url'))
+      .digest('base64url')
+
+    dir = mkdtempSync(join(tmpdir(), 'ao-simulator-'))
+    jwkPath = join(dir, 'wallet.json')
+    writeFileSync(jwkPath, JSON.stringify({ kty: 'RSA', ...jwk }))
+  })
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  beforeEach(async () => {
+    simulator = new AoSimulator({
+      cheeseMints: [
+        mint('mint-searcher', ACHIEVEMENT_WUZZY_SEARCHER),
+        mint('mint-arns', ACHIEVEMENT_WUZZY_ARNS_SEARCHER),
+        mint('mint-image', ACHIEVEMENT_WUZZY_IMAGE_SEARCHER),
+        mint('mint-audio', ACHIEVEMENT_WUZZY_AUDIO_SEARCHER),
+        mint('mint-video', ACHIEVEMENT_WUZZY_VIDEO_SEARCHER)
+      ]
+    })
+    simulator.grantRole('Award-Cheese-Mint', goblinAddress)
+    await simulator.start()
+  })
+
+  afterEach(async () => {
+    await simulator.stop()
+  })
+
+  /**
+   * A service with its own AO client, so no circuit or endpoint health
+   * carries over between tests
+   */
+  async function createService(env: Record<string, string> = {}) {
+    const config: Record<string, string> = {
+      AO_WALLET_JWK_PATH: jwkPath,
+      AO_CHEESE_MINT_PROCESS_ID: simulator.processId,
+      CU_URL: simulator.cuUrl,
+      MU_URL: simulator.muUrl,
+      ...env
+    }
+    const configService = {
+      get: (key: string) => config[key]
+    } as unknown as ConfigService
+    const aoClient = new AoClient(readAoClientConfig(configService))
+
+    ledger = new Map()
+    const write =
+      (status: AwardLedgerEntry['status']) =>
+      (wallet: string, id: string, messageId?: string) => {
+        ledger.set(`${wallet}:${id}`, {
+          status,
+          messageId: messageId ?? ledger.get(`${wallet}:${id}`)?.messageId,
+          updatedAt: Date.now()
+        })
+        return Promise.resolve()
+      }
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        AchievementsService,
+        RulesService,
+        { provide: ConfigService, useValue: configService },
+        {
+          provide: AWARD_BACKEND,
+          useFactory: () => new AoAwardBackend(configService, aoClient)
+        },
+        {
+          provide: AwardLedgerService,
+          useValue: {
+            withLock: (_wallet: string, _id: string, fn: () => unknown) => fn(),
+            get: (wallet: string, id: string) =>
+              Promise.resolve(ledger.get(`${wallet}:${id}`) ?? null),
+            markPending: write('pending'),
+            markConfirmed: write('confirmed'),
+            clear: (wallet: string, id: string) =>
+              Promise.resolve(ledger.delete(`${wallet}:${id}`))
+          }
+        }
+      ]
+    }).compile()
+
+    achievementsService = app.get<AchievementsService>(AchievementsService)
+    await achievementsService.onModuleInit()
+  }
+
+  it('should load achievements from View-State', async () => {
+    await createService()
+
+    expect(
+      achievementsService.getAchievementId(ACHIEVEMENT_WUZZY_IMAGE_SEARCHER)
+    ).toBe('mint-image')
+  })
+
+  it('should refuse to start without Award-Cheese-Mint permission', async () => {
+    simulator.state.acl.roles['Award-Cheese-Mint'] = {}
+
+    await expect(createService()).rejects.toThrow(
+      'Wallet does not have Award-Cheese-Mint permission in AO process'
+    )
+  })
+
+  it('should award once with the Award-Cheese-Mint tags', async () => {
+    await createService()
+
+    const first = await achievementsService.awardAchievement(
+      ACHIEVEMENT_WUZZY_IMAGE_SEARCHER,
+      WALLET
+    )
+    const second = await achievementsService.awardAchievement(
+      ACHIEVEMENT_WUZZY_IMAGE_SEARCHER,
+      WALLET
+    )
+
+    const awards = simulator.messagesWithAction('Award-Cheese-Mint')
+    expect(awards).toHaveLength(1)
+    expect(awards[0]).toMatchObject({
+      from: goblinAddress,
+      target: simulator.processId,
+      tags: expect.arrayContaining([
+        { name: 'Cheese-Mint-Id', value: 'mint-image' },
+        { name: 'Award-To-Address', value: WALLET }
+      ]) as unknown
+    })
+    expect(first).toMatchObject({ status: 'awarded', messageId: awards[0].id })
+    expect(second?.status).toBe('already-held')
+    expect(
+      simulator.state.cheese_mints_by_address[WALLET]['mint-image']
+    ).toMatchObject({ awarded_by: goblinAddress, message_id: awards[0].id })
+  })
+
+  it('should reject duplicate awards in the process', async () => {
+    await createService()
+    // The award lands in the process after the service cached its state
+    simulator.state.cheese_mints_by_address[WALLET] = {
+      'mint-image': {
+        awarded_by: goblinAddress,
+        awarded_at: 1,
+        message_id: 'x'
+      }
+    }
+
+    await expect(
+      achievementsService.awardAchievement(
+        ACHIEVEMENT_WUZZY_IMAGE_SEARCHER,
+        WALLET
+      )
+    ).rejects.toThrow('Cheese Mint already awarded')
+
+    const [duplicate] = simulator.messagesWithAction('Award-Cheese-Mint')
+    expect(simulator.getResult(duplicate.id)?.Error).toBe(
+      'Cheese Mint already awarded'
+    )
+    await expect(
+      achievementsService.awardAchievement(
+        ACHIEVEMENT_WUZZY_IMAGE_SEARCHER,
+        WALLET
+      )
+    ).resolves.toMatchObject({ status: 'already-held' })
+  })
+
+  it('should keep awards the MU fails with a 500 pending until they time out', async () => {
+    await createService({ AWARD_PENDING_TIMEOUT_MS: '0' })
+    simulator.fail('mu', { type: 'status', status: 500 })
+
+    await expect(
+      achievementsService.awardAchievement(ACHIEVEMENT_WUZZY_SEARCHER, WALLET)
+    ).rejects.toMatchObject({ kind: 'delivery-unknown' })
+    expect(ledger.get(`${WALLET}:mint-searcher`)?.status).toBe('pending')
+
+    const outcome = await achievementsService.awardAchievement(
+      ACHIEVEMENT_WUZZY_SEARCHER,
+      WALLET
+    )
+
+    expect(outcome?.status).toBe('awarded')
+    expect(simulator.messagesWithAction('Award-Cheese-Mint')).toHaveLength(1)
+  })
+
+  it('should fetch the result again instead of resending after a CU timeout', async () => {
+    await createService()
+    simulator.fail('result', { type: 'timeout' }, 3)
+
+    await expect(
+      achievementsService.awardAchievement(ACHIEVEMENT_WUZZY_SEARCHER, WALLET)
+    ).rejects.toThrow()
+    expect(ledger.get(`${WALLET}:mint-searcher`)?.status).toBe('pending')
+
+    await achievementsService.awardAchievement(
+      ACHIEVEMENT_WUZZY_SEARCHER,
+      WALLET
+    )
+
+    expect(simulator.messagesWithAction('Award-Cheese-Mint')).toHaveLength(1)
+    expect(ledger.get(`${WALLET}:mint-searcher`)?.status).toBe('confirmed')
+  })
+
+  it('should retry View-State dry-runs the CU fails with a 500', async () => {
+    await createService()
+    // The CU client parses the error page as JSON
+    simulator.fail('dry-run', { type: 'status', status: 500 })
+
+    await expect(achievementsService.getProcessState(true)).resolves.toEqual(
+      simulator.state
+    )
+  })
+
+  it('should fail fast once the CU trips the circuit breaker', async () => {
+    await createService({ AO_CIRCUIT_FAILURE_THRESHOLD: '2' })
+    simulator.fail('dry-run', { type: 'status', status: 502 }, 2)
+
+    await expect(achievementsService.getProcessState(true)).rejects.toThrow(
+      'after 2 attempt(s)'
+    )
+    await expect(achievementsService.getProcessState(true)).rejects.toThrow(
+      'AO circuit is open'
+    )
+  })
+
+  it('should fail over to the next CU and MU when the first is down', async () => {
+    const port = await closedPort()
+    await createService({
+      CU_URLS: `http://127.0.0.1:${port}/cu,${simulator.cuUrl}`,
+      MU_URLS: `http://127.0.0.1:${port}/mu,${simulator.muUrl}`
+    })
+
+    const outcome = await achievementsService.awardAchievement(
+      ACHIEVEMENT_WUZZY_SEARCHER,
+      WALLET
+    )
+
+    expect(outcome?.status).toBe('awarded')
+    expect(simulator.messagesWithAction('Award-Cheese-Mint')).toHaveLength(1)
+  })
+
+  it('should reject malformed View-State results', async () => {
+    await createService()
+    simulator.fail('dry-run', { type: 'malformed' })
+
+    await expect(achievementsService.getProcessState(true)).rejects.toThrow(
+      'Invalid process info format'
+    )
+  })
+
+  it('should send batched awards as one message', async () => {
+    await createService({ AO_AWARD_BATCH_WINDOW_MS: '50' })
+
+    const outcomes = await Promise.all([
+      achievementsService.awardAchievement(ACHIEVEMENT_WUZZY_SEARCHER, WALLET),
+      achievementsService.awardAchievement(
+        ACHIEVEMENT_WUZZY_IMAGE_SEARCHER,
+        WALLET
+      )
+    ])
+
+    expect(outcomes.map((outcome) => outcome?.status)).toEqual([
+      'awarded',
+      'awarded'
+    ])
+    expect(
+      simulator.messagesWithAction('Batch-Award-Cheese-Mint')
+    ).toHaveLength(1)
+    expect(simulator.messagesWithAction('Award-Cheese-Mint')).toHaveLength(0)
+  })
+  it('should revoke awards with the Revoke-Cheese-Mint role', async () => {
+    simulator.grantRole('Revoke-Cheese-Mint', goblinAddress)
+    await createService()
+    await achievementsService.awardAchievement(
+      ACHIEVEMENT_WUZZY_SEARCHER,
+      WALLET
+    )
+
+    const outcome = await achievementsService.revokeAchievement(
+      ACHIEVEMENT_WUZZY_SEARCHER,
+      WALLET
+    )
+
+    const [revocation] = simulator.messagesWithAction('Revoke-Cheese-Mint')
+    expect(outcome).toMatchObject({
+      status: 'revoked',
+      messageId: revocation.id
+    })
+    expect(
+      simulator.state.cheese_mints_by_address[WALLET]['mint-searcher']
+    ).toBeUndefined()
+    expect(ledger.has(`${WALLET}:mint-searcher`)).toBe(false)
+  })
+
+  it('should refuse revocations without the Revoke-Cheese-Mint role', async () => {
+    await createService()
+    await achievementsService.awardAchievement(
+      ACHIEVEMENT_WUZZY_SEARCHER,
+      WALLET
+    )
+
+    await expect(
+      achievementsService.revokeAchievement(ACHIEVEMENT_WUZZY_SEARCHER, WALLET)
+    ).rejects.toThrow('Revoke-Cheese-Mint')
+    expect(simulator.messagesWithAction('Revoke-Cheese-Mint')).toHaveLength(0)
+  })
+})
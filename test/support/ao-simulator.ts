@@ -0,0 +1,517 @@
+import { createHash } from 'crypto'
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import { AddressInfo } from 'net'
+import type {
+  CheeseMint,
+  CheeseMintCollectionState
+} from '../../src/achievements/achievements.types'
+
+export type AoSimulatorEndpoint = 'mu' | 'dry-run' | 'result'
+
+export type AoSimulatorFault =
+  // Respond with this status code
+  | { type: 'status'; status: number; body?: string }
+  // Hold the request, then drop the connection without a response
+  | { type: 'timeout'; delayMs?: number }
+  // Respond 200 with a body the client can't use
+  | { type: 'malformed' }
+
+export interface AoSimulatorTag {
+  name: string
+  value: string
+}
+
+export interface AoSimulatorMessage {
+  id: string
+  // Arweave address of the signer
+  from: string
+  target?: string
+  tags: AoSimulatorTag[]
+  data: string
+}
+
+export interface AoSimulatorResult {
+  Messages: { Target: string; Data: string; Tags: AoSimulatorTag[] }[]
+  Spawns: unknown[]
+  Output: string
+  Error?: string
+}
+
+export interface AoSimulatorOptions {
+  processId?: string
+  owner?: string
+  cheeseMints?: Omit<CheeseMint, 'created_at' | 'created_by'>[]
+  // Whether Batch-Award-Cheese-Mint is understood, defaults to true
+  supportsBatchAwards?: boolean
+}
+
+// ANS-104 signature type 1 (Arweave): 512 byte signature and owner
+const ARWEAVE_SIGNATURE_TYPE = 1
+const ARWEAVE_SIGNATURE_LENGTH = 512
+const ARWEAVE_OWNER_LENGTH = 512
+
+/**
+ * In-process stand-in for an AO MU and CU running the cheese-mint-collection
+ * process. Point aoconnect at it with MU_URL=muUrl and CU_URL=cuUrl.
+ *
+ * The MU accepts signed ANS-104 data items and evaluates them right away,
+ * the CU serves dry-runs and the stored result of every message. Data item
+ * signatures are not verified. Faults queued with fail() are served before
+ * the regular handler of an endpoint.
+ */
+export class AoSimulator {
+  readonly processId: string
+  readonly state: CheeseMintCollectionState
+  // Every message accepted by the MU, in order
+  readonly messages: AoSimulatorMessage[] = []
+  private readonly results = new Map<string, AoSimulatorResult>()
+  private readonly faults = new Map<AoSimulatorEndpoint, AoSimulatorFault[]>()
+  private readonly supportsBatchAwards: boolean
+  private readonly timers = new Set<NodeJS.Timeout>()
+  private server?: Server
+  private baseUrl = ''
+
+  constructor({
+    processId = 'cheese-mint-process-'.padEnd(43, '0'),
+    owner = 'process-owner',
+    cheeseMints = [],
+    supportsBatchAwards = true
+  }: AoSimulatorOptions = {}) {
+    this.processId = processId
+    this.supportsBatchAwards = supportsBatchAwards
+    this.state = {
+      owner,
+      acl: { roles: {} },
+      cheese_mints_by_id: Object.fromEntries(
+        cheeseMints.map((mint) => [
+          mint.id,
+          { ...mint, created_at: 1, created_by: owner }
+        ])
+      ),
+      cheese_mints_by_address: {}
+    }
+  }
+
+  get muUrl(): string {
+    return `${this.baseUrl}/mu`
+  }
+
+  get cuUrl(): string {
+    return `${this.baseUrl}/cu`
+  }
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      this.route(req, res).catch((error: Error) => {
+        this.sendJson(res, 500, { error: error.message })
+      })
+    })
+
+    await new Promise<void>((resolve) =>
+      this.server!.listen(0, '127.0.0.1', resolve)
+    )
+    const { port } = this.server.address() as AddressInfo
+    this.baseUrl = `http://127.0.0.1:${port}`
+  }
+
+  async stop(): Promise<void> {
+    for (const timer of this.timers) {
+      clearTimeout(timer)
+    }
+    this.timers.clear()
+
+    if (this.server) {
+      this.server.closeAllConnections()
+      await new Promise((resolve) => this.server!.close(resolve))
+      this.server = undefined
+    }
+  }
+
+  grantRole(role: string, address: string): void {
+    this.state.acl.roles[role] = {
+      ...this.state.acl.roles[role],
+      [address]: true
+    }
+  }
+
+  /**
+   * Serve the next `times` requests to an endpoint with a fault
+   */
+  fail(endpoint: AoSimulatorEndpoint, fault: AoSimulatorFault, times = 1) {
+    const queue = this.faults.get(endpoint) ?? []
+    for (let i = 0; i < times; i++) {
+      queue.push(fault)
+    }
+    this.faults.set(endpoint, queue)
+  }
+
+  getResult(messageId: string): AoSimulatorResult | undefined {
+    return this.results.get(messageId)
+  }
+
+  /**
+   * Messages accepted by the MU with the given Action tag
+   */
+  messagesWithAction(action: string): AoSimulatorMessage[] {
+    return this.messages.filter((message) =>
+      message.tags.some((tag) => tag.name === 'Action' && tag.value === action)
+    )
+  }
+
+  private async route(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? '/', this.baseUrl)
+    const body = await this.readBody(req)
+
+    if (req.method === 'POST' && url.pathname === '/mu') {
+      return this.serve('mu', res, () => this.handleMu(body))
+    }
+
+    if (req.method === 'POST' && url.pathname === '/cu/dry-run') {
+      return this.serve('dry-run', res, () => this.handleDryRun(url, body))
+    }
+
+    const resultMatch = /^\/cu\/result\/([^/]+)$/.exec(url.pathname)
+    if (req.method === 'GET' && resultMatch) {
+      return this.serve('result', res, () => this.handleResult(resultMatch[1]))
+    }
+
+    this.sendJson(res, 404, { error: `No route for ${req.method} ${url}` })
+  }
+
+  private serve(
+    endpoint: AoSimulatorEndpoint,
+    res: ServerResponse,
+    handler: () => { status: number; body: unknown }
+  ) {
+    const fault = this.faults.get(endpoint)?.shift()
+
+    if (!fault) {
+      const { status, body } = handler()
+      return this.sendJson(res, status, body)
+    }
+
+    switch (fault.type) {
+      case 'status':
+        res.writeHead(fault.status, { 'Content-Type': 'text/plain' })
+        res.end(fault.body ?? `${fault.status} Simulated failure`)
+        return
+      case 'timeout': {
+        const timer = setTimeout(() => {
+          this.timers.delete(timer)
+          res.socket?.destroy()
+        }, fault.delayMs ?? 100)
+        this.timers.add(timer)
+        return
+      }
+      case 'malformed':
+        // Valid JSON, but Messages is not an array of messages
+        return this.sendJson(res, 200, { Messages: 'malformed', Spawns: [] })
+    }
+  }
+
+  private handleMu(body: Buffer) {
+    const message = this.parseDataItem(body)
+    if (message.target !== this.processId) {
+      return {
+        status: 400,
+        body: { error: `Unknown process ${message.target}` }
+      }
+    }
+
+    this.messages.push(message)
+    this.results.set(message.id, this.evaluate(message, true))
+
+    return { status: 202, body: { id: message.id, message: 'Processing' } }
+  }
+
+  private handleDryRun(url: URL, body: Buffer) {
+    const processId = url.searchParams.get('process-id')
+    if (processId !== this.processId) {
+      return { status: 400, body: { error: `Unknown process ${processId}` } }
+    }
+
+    const dryRun = JSON.parse(body.toString('utf-8')) as {
+      Id: string
+      Owner: string
+      Tags: AoSimulatorTag[]
+      Data?: string
+    }
+
+    // Dry-runs never change state
+    return {
+      status: 200,
+      body: this.evaluate(
+        {
+          id: dryRun.Id,
+          from: dryRun.Owner,
+          target: processId,
+          tags: dryRun.Tags,
+          data: dryRun.Data ?? ''
+        },
+        false
+      )
+    }
+  }
+
+  private handleResult(messageId: string) {
+    const result = this.results.get(messageId)
+    if (!result) {
+      return { status: 404, body: { error: `Message ${messageId} not found` } }
+    }
+
+    return { status: 200, body: result }
+  }
+
+  /**
+   * Cheese-mint-collection process semantics
+   */
+  private evaluate(
+    message: AoSimulatorMessage,
+    commit: boolean
+  ): AoSimulatorResult {
+    const tag = (name: string) =>
+      message.tags.find((t) => t.name === name)?.value
+    const reply = (tags: AoSimulatorTag[], data = ''): AoSimulatorResult => ({
+      Messages: [{ Target: message.from, Data: data, Tags: tags }],
+      Spawns: [],
+      Output: ''
+    })
+    const error = (text: string): AoSimulatorResult => ({
+      Messages: [],
+      Spawns: [],
+      Output: '',
+      Error: text
+    })
+
+    switch (tag('Action')) {
+      case 'View-State':
+        return reply(
+          [{ name: 'Action', value: 'View-State-Response' }],
+          JSON.stringify(this.state)
+        )
+
+      case 'Award-Cheese-Mint': {
+        if (!this.hasRole('Award-Cheese-Mint', message.from)) {
+          return error('Permission Denied')
+        }
+
+        const failure = this.award(
+          tag('Cheese-Mint-Id'),
+          tag('Award-To-Address'),
+          message,
+          commit
+        )
+        if (failure) {
+          return error(failure)
+        }
+
+        return reply([
+          { name: 'Action', value: 'Award-Cheese-Mint-Notice' },
+          { name: 'Cheese-Mint-Id', value: tag('Cheese-Mint-Id')! },
+          { name: 'Award-To-Address', value: tag('Award-To-Address')! }
+        ])
+      }
+
+      case 'Batch-Award-Cheese-Mint': {
+        if (!this.supportsBatchAwards) {
+          break
+        }
+        if (!this.hasRole('Award-Cheese-Mint', message.from)) {
+          return error('Permission Denied')
+        }
+
+        const items = JSON.parse(message.data) as {
+          cheese_mint_id: string
+          award_to_address: string
+        }[]
+        const outcomes = items.map((item) => {
+          const failure = this.award(
+            item.cheese_mint_id,
+            item.award_to_address,
+            message,
+            commit
+          )
+          if (!failure) {
+            return { ...item, status: 'awarded' }
+          }
+
+          return failure === 'Cheese Mint already awarded'
+            ? { ...item, status: 'already-awarded' }
+            : { ...item, status: 'error', error: failure }
+        })
+
+        return reply(
+          [{ name: 'Action', value: 'Batch-Award-Cheese-Mint-Result' }],
+          JSON.stringify(outcomes)
+        )
+      }
+
+      case 'Revoke-Cheese-Mint': {
+        if (!this.hasRole('Revoke-Cheese-Mint', message.from)) {
+          return error('Permission Denied')
+        }
+
+        const cheeseMintId = tag('Cheese-Mint-Id')
+        const address = tag('Revoke-From-Address')
+        if (
+          !cheeseMintId ||
+          !address ||
+          !this.state.cheese_mints_by_address[address]?.[cheeseMintId]
+        ) {
+          return error('Cheese Mint not awarded')
+        }
+
+        if (commit) {
+          delete this.state.cheese_mints_by_address[address][cheeseMintId]
+        }
+
+        return reply([
+          { name: 'Action', value: 'Revoke-Cheese-Mint-Notice' },
+          { name: 'Cheese-Mint-Id', value: cheeseMintId },
+          { name: 'Revoke-From-Address', value: address }
+        ])
+      }
+    }
+
+    // Unhandled actions produce no messages, like a process without handlers
+    return { Messages: [], Spawns: [], Output: '' }
+  }
+
+  /**
+   * Apply a single award, returning an error text if it is rejected
+   */
+  private award(
+    cheeseMintId: string | undefined,
+    address: string | undefined,
+    message: AoSimulatorMessage,
+    commit: boolean
+  ): string | undefined {
+    if (!cheeseMintId || !address) {
+      return 'Cheese-Mint-Id and Award-To-Address are required'
+    }
+    if (!this.state.cheese_mints_by_id[cheeseMintId]) {
+      return 'Cheese Mint not found'
+    }
+    if (this.state.cheese_mints_by_address[address]?.[cheeseMintId]) {
+      return 'Cheese Mint already awarded'
+    }
+
+    if (commit) {
+      this.state.cheese_mints_by_address[address] = {
+        ...this.state.cheese_mints_by_address[address],
+        [cheeseMintId]: {
+          awarded_by: message.from,
+          awarded_at: Date.now(),
+          message_id: message.id
+        }
+      }
+    }
+
+    return undefined
+  }
+
+  private hasRole(role: string, address: string): boolean {
+    return this.state.acl.roles[role]?.[address] === true
+  }
+
+  /**
+   * Decode an ANS-104 data item signed with an Arweave key
+   */
+  private parseDataItem(raw: Buffer): AoSimulatorMessage {
+    let offset = 0
+    const signatureType = raw.readUInt16LE(offset)
+    offset += 2
+    if (signatureType !== ARWEAVE_SIGNATURE_TYPE) {
+      throw new Error(`Unsupported signature type ${signatureType}`)
+    }
+
+    const signature = raw.subarray(offset, offset + ARWEAVE_SIGNATURE_LENGTH)
+    offset += ARWEAVE_SIGNATURE_LENGTH
+    const owner = raw.subarray(offset, offset + ARWEAVE_OWNER_LENGTH)
+    offset += ARWEAVE_OWNER_LENGTH
+
+    let target: string | undefined
+    if (raw[offset++] === 1) {
+      target = raw.subarray(offset, offset + 32).toString('base64url')
+      offset += 32
+    }
+    if (raw[offset++] === 1) {
+      // Anchor
+      offset += 32
+    }
+
+    const tagCount = Number(raw.readBigUInt64LE(offset))
+    offset += 8
+    const tagBytesLength = Number(raw.readBigUInt64LE(offset))
+    offset += 8
+    const tags =
+      tagCount > 0
+        ? this.decodeAvroTags(raw.subarray(offset, offset + tagBytesLength))
+        : []
+    offset += tagBytesLength
+
+    return {
+      id: createHash('sha256').update(signature).digest('base64url'),
+      from: createHash('sha256').update(owner).digest('base64url'),
+      target,
+      tags,
+      data: raw.subarray(offset).toString('utf-8')
+    }
+  }
+
+  /**
+   * Decode the Avro array of { name: bytes, value: bytes } records ANS-104
+   * uses for tags
+   */
+  private decodeAvroTags(bytes: Buffer): AoSimulatorTag[] {
+    let offset = 0
+    const readLong = () => {
+      let value = 0
+      let multiplier = 1
+      let byte: number
+      do {
+        byte = bytes[offset++]
+        value += (byte & 0x7f) * multiplier
+        multiplier *= 128
+      } while (byte & 0x80)
+      // Zig-zag decoding
+      return value % 2 === 0 ? value / 2 : -(value + 1) / 2
+    }
+    const readString = () => {
+      const length = readLong()
+      const value = bytes.subarray(offset, offset + length).toString('utf-8')
+      offset += length
+      return value
+    }
+
+    const tags: AoSimulatorTag[] = []
+    let count = readLong()
+    while (count !== 0) {
+      if (count < 0) {
+        // Negative block counts are followed by the block size in bytes
+        count = -count
+        readLong()
+      }
+      for (let i = 0; i < count; i++) {
+        tags.push({ name: readString(), value: readString() })
+      }
+      count = readLong()
+    }
+
+    return tags
+  }
+
+  private readBody(req: IncomingMessage): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = []
+      req.on('data', (chunk: Buffer) => chunks.push(chunk))
+      req.on('end', () => resolve(Buffer.concat(chunks)))
+      req.on('error', reject)
+    })
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(body))
+  }
+}